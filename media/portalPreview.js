@@ -0,0 +1,226 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+/* eslint-disable no-undef */
+
+// Runs in the Portal Preview panel: shows the HTML rendered by the extension in a frame of the chosen device size,
+// patches it in place, scrolls along with the editor and reveals the source line of the element that is clicked
+(function () {
+    const vscode = acquireVsCodeApi();
+    // The content security policy only lets scripts with the nonce of this one run
+    const nonce = document.currentScript.nonce;
+    const runPageScripts = document.body.dataset.runPageScripts === "true";
+    const SOURCE_LINE_ATTRIBUTE = "data-pp-line";
+    const STYLESHEET_ATTRIBUTE = "data-pp-stylesheet";
+    const frame = document.getElementById("pp-frame");
+    const deviceSelect = document.getElementById("pp-device");
+    const widthInput = document.getElementById("pp-width");
+    const heightInput = document.getElementById("pp-height");
+    const themeButton = document.getElementById("pp-theme");
+    const stylesheetInputs = Array.from(document.querySelectorAll("#pp-stylesheets input"));
+
+    // The stylesheets of the settings, checked by the extension
+    const defaultStylesheets = stylesheetInputs.filter(input => input.checked).map(input => input.value);
+
+    // What the toolbar is set to is kept while the panel is open, and the stylesheets until the settings change
+    const state = Object.assign({
+        device: "responsive",
+        width: 375,
+        height: 667,
+        dark: false
+    }, vscode.getState());
+    if (String(state.defaultStylesheets) !== String(defaultStylesheets)) {
+        state.defaultStylesheets = defaultStylesheets;
+        state.stylesheets = defaultStylesheets;
+    }
+    let root;
+    let pendingHtml;
+
+    function frameDocument() {
+        return frame.contentDocument;
+    }
+
+    // Scripts added through the DOM do not run, so they are replaced by new ones when the settings allow the scripts
+    // of the page to run
+    function activateScripts(node) {
+        if (!runPageScripts) {
+            return node;
+        }
+        if (node.nodeName === "SCRIPT") {
+            const script = frameDocument().createElement("script");
+            Array.from(node.attributes).forEach(attribute => script.setAttribute(attribute.name, attribute.value));
+            script.nonce = nonce;
+            script.textContent = node.textContent;
+            return script;
+        }
+        if (node.nodeType === Node.ELEMENT_NODE) {
+            node.querySelectorAll("script").forEach(script => script.replaceWith(activateScripts(script)));
+        }
+        return node;
+    }
+
+    function patchAttributes(oldElement, newElement) {
+        Array.from(oldElement.attributes)
+            .filter(attribute => !newElement.hasAttribute(attribute.name))
+            .forEach(attribute => oldElement.removeAttribute(attribute.name));
+        Array.from(newElement.attributes)
+            .filter(attribute => oldElement.getAttribute(attribute.name) !== attribute.value)
+            .forEach(attribute => oldElement.setAttribute(attribute.name, attribute.value));
+    }
+
+    // Only the nodes that changed are replaced, so that the scroll position and loaded images are kept
+    function patchChildren(oldParent, newParent) {
+        const oldNodes = Array.from(oldParent.childNodes);
+        const newNodes = Array.from(newParent.childNodes);
+        newNodes.forEach((newNode, index) => {
+            const oldNode = oldNodes[index];
+            if (!oldNode) {
+                oldParent.appendChild(activateScripts(frameDocument().importNode(newNode, true)));
+            } else if (oldNode.nodeType !== newNode.nodeType || oldNode.nodeName !== newNode.nodeName
+                || (oldNode.nodeName === "SCRIPT" && oldNode.outerHTML !== newNode.outerHTML)) {
+                oldParent.replaceChild(activateScripts(frameDocument().importNode(newNode, true)), oldNode);
+            } else if (oldNode.nodeType === Node.ELEMENT_NODE) {
+                patchAttributes(oldNode, newNode);
+                patchChildren(oldNode, newNode);
+            } else if (oldNode.nodeValue !== newNode.nodeValue) {
+                oldNode.nodeValue = newNode.nodeValue;
+            }
+        });
+        oldNodes.slice(newNodes.length).forEach(node => node.remove());
+    }
+
+    function update(html) {
+        if (!root) {
+            pendingHtml = html;
+            return;
+        }
+        const template = document.createElement("template");
+        template.innerHTML = html;
+        patchChildren(root, template.content);
+    }
+
+    // The first element that comes from the line, or else from the closest line before it
+    function findElementOfLine(line) {
+        let closestElement;
+        let closestLine = -1;
+        root.querySelectorAll(`[${SOURCE_LINE_ATTRIBUTE}]`).forEach(element => {
+            const elementLine = Number(element.getAttribute(SOURCE_LINE_ATTRIBUTE));
+            if (elementLine <= line && elementLine > closestLine) {
+                closestElement = element;
+                closestLine = elementLine;
+            }
+        });
+        return closestElement;
+    }
+
+    function applyDevice() {
+        deviceSelect.value = state.device;
+        const presetSize = /^(\d+)x(\d+)$/.exec(state.device);
+        if (presetSize) {
+            state.width = Number(presetSize[1]);
+            state.height = Number(presetSize[2]);
+        }
+        widthInput.value = state.width;
+        heightInput.value = state.height;
+        const responsive = state.device === "responsive";
+        widthInput.disabled = heightInput.disabled = responsive;
+        document.body.classList.toggle("pp-responsive", responsive);
+        frame.style.width = responsive ? "" : `${state.width}px`;
+        frame.style.height = responsive ? "" : `${state.height}px`;
+    }
+
+    function applyStylesheets() {
+        stylesheetInputs.forEach(input => input.checked = state.stylesheets.includes(input.value));
+        const head = frameDocument()?.head;
+        if (!head) {
+            return;
+        }
+        head.querySelectorAll(`link[${STYLESHEET_ATTRIBUTE}]`).forEach(link => link.remove());
+        stylesheetInputs.filter(input => input.checked).forEach(input => {
+            const link = frameDocument().createElement("link");
+            link.rel = "stylesheet";
+            link.href = input.dataset.uri;
+            link.setAttribute(STYLESHEET_ATTRIBUTE, input.value);
+            head.appendChild(link);
+        });
+    }
+
+    // Bootstrap 5.3 and later switch their colors with data-bs-theme
+    function applyTheme() {
+        themeButton.textContent = state.dark ? themeButton.dataset.lightLabel : themeButton.dataset.darkLabel;
+        const frameRoot = frameDocument()?.documentElement;
+        if (frameRoot) {
+            frameRoot.setAttribute("data-bs-theme", state.dark ? "dark" : "light");
+            frameRoot.style.colorScheme = state.dark ? "dark" : "light";
+            frameRoot.style.backgroundColor = "Canvas";
+        }
+    }
+
+    function saveState() {
+        vscode.setState(state);
+    }
+
+    deviceSelect.addEventListener("change", () => {
+        state.device = deviceSelect.value;
+        applyDevice();
+        saveState();
+    });
+    [widthInput, heightInput].forEach(input => input.addEventListener("change", () => {
+        state.device = "custom";
+        state.width = Math.max(Number(widthInput.value) || state.width, Number(widthInput.min));
+        state.height = Math.max(Number(heightInput.value) || state.height, Number(heightInput.min));
+        applyDevice();
+        saveState();
+    }));
+    stylesheetInputs.forEach(input => input.addEventListener("change", () => {
+        state.stylesheets = stylesheetInputs.filter(stylesheetInput => stylesheetInput.checked).map(stylesheetInput => stylesheetInput.value);
+        applyStylesheets();
+        saveState();
+    }));
+    themeButton.addEventListener("click", () => {
+        state.dark = !state.dark;
+        applyTheme();
+        saveState();
+    });
+
+    window.addEventListener("message", event => {
+        const message = event.data;
+        switch (message.type) {
+            case "update":
+                update(message.html);
+                break;
+            case "scroll": {
+                const element = root && findElementOfLine(message.line);
+                if (element) {
+                    element.scrollIntoView({ block: "start" });
+                } else if (root && message.line === 0) {
+                    frame.contentWindow.scrollTo(0, 0);
+                }
+                break;
+            }
+        }
+    });
+
+    frame.addEventListener("load", () => {
+        root = frameDocument().getElementById("pp-preview");
+        root.addEventListener("click", event => {
+            const element = event.target.closest(`[${SOURCE_LINE_ATTRIBUTE}]`);
+            if (element) {
+                vscode.postMessage({ type: "reveal", line: Number(element.getAttribute(SOURCE_LINE_ATTRIBUTE)) });
+            }
+        });
+        applyStylesheets();
+        applyTheme();
+        if (pendingHtml !== undefined) {
+            update(pendingHtml);
+            pendingHtml = undefined;
+        }
+        vscode.postMessage({ type: "ready" });
+    });
+
+    applyDevice();
+    applyTheme();
+    frame.srcdoc = "<!DOCTYPE html><html><head><meta charset=\"UTF-8\"></head><body><div id=\"pp-preview\"></div></body></html>";
+}());
@@ -4,8 +4,20 @@
  */
 
 import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
 import * as path from "path";
 import { searchPortalConfigFolder } from "../common/PortalConfigFinder";
+import { findWebFile, invalidateWebFiles, IUnresolvedAsset, readWebFiles, rewriteAssetUrls } from "./power-pages/preview/PreviewAssets";
+import { escapeHtml, ILiquidPreviewContext, renderLiquidPreview, renderPagePreview } from "./power-pages/preview/LiquidPreviewRenderer";
+import { invalidatePreviewSite, readPreviewSite } from "./power-pages/preview/PreviewSite";
+import { annotateSourceLines } from "./power-pages/preview/PreviewSourceLines";
+
+// Edits are rendered once typing pauses
+const REFRESH_DELAY_MS = 300;
+const DEFAULT_STYLESHEETS = ["bootstrap.min.css", "theme.css"];
+
+type PreviewMessage = { type: "ready" } | { type: "reveal", line: number };
 
 /**
  * Displays Portal html webpage preview
@@ -20,8 +32,20 @@ export class PortalWebView {
     public static readonly viewType = "portalPreview";
 
     private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
     private _textEditor: vscode.TextEditor;
+    private _renderCount = 0;
+    // The last HTML rendered, which the page asks for once it is loaded
+    private _html = "";
+    private _refreshTimeout: NodeJS.Timeout | undefined;
+    // Files of the site that the last render read, besides the document itself
+    private _dependencies = new Set<string>();
+    // Images, stylesheets and scripts of the page that are not in web-files
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection("portalPreview");
+    // Watches the files of the site of the document, which the page may depend on
+    private _siteWatcher: vscode.Disposable | undefined;
+    private _watchedSiteFolder: string | undefined;
 
     public static checkDocumentIsHTML(): boolean {
         const languageId = vscode.window.activeTextEditor?.document.languageId.toLowerCase();
@@ -29,7 +53,7 @@ export class PortalWebView {
         return result;
     }
 
-    public static createOrShow(): void {
+    public static createOrShow(extensionUri: vscode.Uri): void {
         const isHtml = this.checkDocumentIsHTML();
         if (!isHtml) {
             return;
@@ -50,23 +74,34 @@ export class PortalWebView {
             PortalWebView.viewType,
             "Portal Preview",
             vscode.ViewColumn.Two,
-            {
-                localResourceRoots: [
-                    vscode.Uri.joinPath(PortalWebView.getPortalRootFolder() as vscode.Uri, "web-files"),
-                ],
-            }
+            PortalWebView.getWebviewOptions(extensionUri)
         );
 
-        PortalWebView.currentPanel = new PortalWebView(panel);
+        PortalWebView.currentPanel = new PortalWebView(panel, extensionUri);
     }
 
-    public static revive(panel: vscode.WebviewPanel): void {
-        PortalWebView.currentPanel = new PortalWebView(panel);
+    public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri): void {
+        panel.webview.options = PortalWebView.getWebviewOptions(extensionUri);
+        PortalWebView.currentPanel = new PortalWebView(panel, extensionUri);
     }
 
-    private constructor(panel: vscode.WebviewPanel) {
+    private static getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+        const portalRootFolder = PortalWebView.getPortalRootFolder();
+        return {
+            // Runs the script of the preview, and the scripts of the page when the settings allow it
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(extensionUri, "media"),
+                ...(portalRootFolder ? [vscode.Uri.joinPath(portalRootFolder, "web-files")] : []),
+            ],
+        };
+    }
+
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
         this._panel = panel;
+        this._extensionUri = extensionUri;
         this._textEditor = vscode.window.activeTextEditor as vscode.TextEditor;
+        this._disposables.push(this._diagnostics);
 
         // Set the webview's initial html content
         this._update();
@@ -75,10 +110,48 @@ export class PortalWebView {
         // This happens when the user closes the panel or when the panel is closed programmatically
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
-        // Update the content based on view changes
+        // Update the content based on view changes. A panel that was hidden shows the HTML it was created with.
+        let wasVisible = this._panel.visible;
         this._panel.onDidChangeViewState(
             () => {
-                if (this._panel.visible) {
+                if (this._panel.visible && !wasVisible) {
+                    this._update();
+                }
+                wasVisible = this._panel.visible;
+            },
+            null,
+            this._disposables
+        );
+
+        this._panel.webview.onDidReceiveMessage(
+            (message: PreviewMessage) => {
+                switch (message.type) {
+                    case "ready":
+                        this._panel.webview.postMessage({ type: "update", html: this._html });
+                        this.syncScroll(vscode.window.visibleTextEditors.find((editor) => editor.document === this._textEditor.document));
+                        break;
+                    case "reveal":
+                        this.revealSourceLine(message.line);
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        vscode.window.onDidChangeTextEditorVisibleRanges(
+            (e) => this.syncScroll(e.textEditor),
+            null,
+            this._disposables
+        );
+
+        // Render again when a file the page depends on is edited, or changes on disk as the site watcher tells
+        vscode.workspace.onDidChangeTextDocument((e) => this.refreshIfDependency(e.document.uri), null, this._disposables);
+
+        // Render again with the user and request of the preview settings
+        vscode.workspace.onDidChangeConfiguration(
+            (e) => {
+                if (e.affectsConfiguration("powerPlatform.preview")) {
                     this._update();
                 }
             },
@@ -89,6 +162,9 @@ export class PortalWebView {
 
     public dispose(): void {
         PortalWebView.currentPanel = undefined;
+        clearTimeout(this._refreshTimeout);
+        this._siteWatcher?.dispose();
+        this.invalidateSite();
 
         // Clean up our resources
         this._panel.dispose();
@@ -102,13 +178,200 @@ export class PortalWebView {
     }
 
     public _update(): void {
-        this._textEditor = vscode.window.activeTextEditor as vscode.TextEditor;
+        // The active editor is undefined while the panel has focus
+        this._textEditor = vscode.window.activeTextEditor ?? this._textEditor;
 
         PortalWebView.currentDocument = this._textEditor.document.fileName;
 
-        const webview = this._panel.webview;
         this._panel.title = this.getFileName();
-        this._panel.webview.html = this.generateHTML(webview);
+        this.watchSite();
+        this.render(true);
+    }
+
+    // The watcher follows the site of the document, as the preview moves on to documents of other sites
+    private watchSite(): void {
+        const portalRootFolder = PortalWebView.getPortalRootFolder(this._textEditor.document);
+        if (portalRootFolder?.fsPath === this._watchedSiteFolder) {
+            return;
+        }
+        this._siteWatcher?.dispose();
+        this._siteWatcher = undefined;
+        // The records of a site are only kept while it is watched, so those of the site being left are dropped
+        // here and read again if the preview comes back to it
+        this.invalidateSite();
+        this._watchedSiteFolder = portalRootFolder?.fsPath;
+        if (!portalRootFolder) {
+            return;
+        }
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(portalRootFolder, "**/*"));
+        this._siteWatcher = vscode.Disposable.from(
+            watcher,
+            watcher.onDidChange((uri) => this.onSiteFileChanged(uri)),
+            watcher.onDidCreate((uri) => this.onSiteFileChanged(uri)),
+            watcher.onDidDelete((uri) => this.onSiteFileChanged(uri))
+        );
+    }
+
+    // Metadata files and folders, which may hold metadata files, change the records of the site
+    private onSiteFileChanged(uri: vscode.Uri): void {
+        const extension = path.extname(uri.fsPath).toLowerCase();
+        if (extension === ".yml" || !extension) {
+            this.invalidateSite();
+        }
+        this.refreshIfDependency(uri);
+    }
+
+    private invalidateSite(): void {
+        if (this._watchedSiteFolder) {
+            invalidatePreviewSite(this._watchedSiteFolder);
+            invalidateWebFiles(this._watchedSiteFolder);
+        }
+    }
+
+    private refreshIfDependency(uri: vscode.Uri): void {
+        if (uri.fsPath !== this._textEditor.document.fileName && this.isDependency(uri)) {
+            this.scheduleRefresh();
+        }
+    }
+
+    /**
+     * Renders the document again once edits pause, and patches the page in place so that it keeps its scroll position
+     */
+    public scheduleRefresh(): void {
+        clearTimeout(this._refreshTimeout);
+        this._refreshTimeout = setTimeout(() => this.render(false), REFRESH_DELAY_MS);
+    }
+
+    private render(reload: boolean): void {
+        clearTimeout(this._refreshTimeout);
+        const webview = this._panel.webview;
+        const renderCount = ++this._renderCount;
+        const document = this._textEditor.document;
+        this.generateHTML(webview).then(({ html, unresolvedAssets }) => {
+            // Rendering takes a while, drop the result when the document changed in the meantime
+            if (renderCount !== this._renderCount) {
+                return;
+            }
+            this._html = html;
+            this._diagnostics.clear();
+            this._diagnostics.set(document.uri, PortalWebView.getUnresolvedAssetDiagnostics(document, unresolvedAssets));
+            if (reload) {
+                webview.html = this.getPageHtml(webview);
+            } else {
+                webview.postMessage({ type: "update", html });
+            }
+        });
+    }
+
+    // The toolbar and the frame the rendered HTML is shown in, which the script of the page fills once it is loaded. The
+    // frame shares the content security policy of the page: nothing is loaded from outside the webview's resources, and
+    // only the script of the preview runs, unless the settings allow the scripts of the page too.
+    private getPageHtml(webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString("base64");
+        const runPageScripts = vscode.workspace.getConfiguration("powerPlatform.preview").get<boolean>("runScripts") ?? false;
+        const contentSecurityPolicy = [
+            "default-src 'none'",
+            `img-src ${webview.cspSource} data:`,
+            // Pages have style elements and attributes of their own
+            `style-src ${webview.cspSource} 'unsafe-inline'`,
+            `font-src ${webview.cspSource}`,
+            `script-src 'nonce-${nonce}'`
+        ].join("; ");
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, "media", "portalPreview.js"));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, "media", "portalPreview.css"));
+        const devices: [string, string][] = [
+            ["responsive", vscode.l10n.t("Responsive")],
+            ["375x667", vscode.l10n.t("Phone")],
+            ["768x1024", vscode.l10n.t("Tablet")],
+            ["1366x768", vscode.l10n.t("Laptop")],
+            ["1920x1080", vscode.l10n.t("Desktop")],
+            ["custom", vscode.l10n.t("Custom")]
+        ];
+        const stylesheetOptions = this.getStylesheetFiles().map((file) => `<label>
+                    <input type="checkbox" value="${escapeHtml(file.name)}" data-uri="${webview.asWebviewUri(file.uri)}"${file.selected ? " checked" : ""}>
+                    ${escapeHtml(file.name)}
+                </label>`).join("");
+        return `<!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy}">
+                <link href="${styleUri}" rel="stylesheet" />
+            </head>
+            <body data-run-page-scripts="${runPageScripts}">
+                <div id="pp-toolbar">
+                    <select id="pp-device" title="${escapeHtml(vscode.l10n.t("Device"))}">
+                        ${devices.map(([value, label]) => `<option value="${value}">${escapeHtml(label)}</option>`).join("")}
+                    </select>
+                    <input id="pp-width" type="number" min="200" title="${escapeHtml(vscode.l10n.t("Width"))}">
+                    ×
+                    <input id="pp-height" type="number" min="200" title="${escapeHtml(vscode.l10n.t("Height"))}">
+                    <details id="pp-stylesheets">
+                        <summary>${escapeHtml(vscode.l10n.t("Stylesheets"))}</summary>
+                        <div>${stylesheetOptions}</div>
+                    </details>
+                    <button id="pp-theme" data-dark-label="${escapeHtml(vscode.l10n.t("Dark"))}" data-light-label="${escapeHtml(vscode.l10n.t("Light"))}"></button>
+                </div>
+                <div id="pp-frame-container">
+                    <iframe id="pp-frame" title="${escapeHtml(this.getFileName())}"></iframe>
+                </div>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>`;
+    }
+
+    // The stylesheets in web-files, of which those in the settings are shown until others are chosen in the toolbar
+    private getStylesheetFiles(): { name: string, uri: vscode.Uri, selected: boolean }[] {
+        const portalRootFolder = PortalWebView.getPortalRootFolder(this._textEditor.document);
+        if (!portalRootFolder) {
+            return [];
+        }
+        const webFilesFolder = vscode.Uri.joinPath(portalRootFolder, "web-files");
+        const selectedStylesheets = (vscode.workspace.getConfiguration("powerPlatform.preview").get<string[]>("stylesheets") ?? DEFAULT_STYLESHEETS)
+            .map((name) => name.toLowerCase());
+        let names: string[];
+        try {
+            names = fs.readdirSync(webFilesFolder.fsPath).filter((name) => name.toLowerCase().endsWith(".css")).sort();
+        } catch {
+            return [];
+        }
+        return names.map((name) => ({
+            name,
+            uri: vscode.Uri.joinPath(webFilesFolder, name),
+            selected: selectedStylesheets.includes(name.toLowerCase())
+        }));
+    }
+
+    private isDependency(uri: vscode.Uri): boolean {
+        const portalRootFolder = PortalWebView.getPortalRootFolder(this._textEditor.document);
+        if (!portalRootFolder || uri.scheme !== "file") {
+            return false;
+        }
+        // Stylesheets, scripts and images, and the metadata the names of records come from
+        const relativePath = path.relative(portalRootFolder.fsPath, uri.fsPath);
+        return this._dependencies.has(uri.fsPath)
+            || (!relativePath.startsWith("..") && !path.isAbsolute(relativePath)
+                && (relativePath.startsWith(`web-files${path.sep}`) || relativePath.endsWith(".yml")));
+    }
+
+    private syncScroll(editor: vscode.TextEditor | undefined): void {
+        if (editor?.document === this._textEditor.document && editor.visibleRanges.length) {
+            this._panel.webview.postMessage({ type: "scroll", line: editor.visibleRanges[0].start.line });
+        }
+    }
+
+    private revealSourceLine(line: number): void {
+        const document = this._textEditor.document;
+        // The line comes from the page, which must not move the editor anywhere else
+        if (!Number.isInteger(line) || line < 0 || line >= document.lineCount) {
+            return;
+        }
+        const editor = vscode.window.visibleTextEditors.find((visibleEditor) => visibleEditor.document === document);
+        const position = new vscode.Position(line, 0);
+        vscode.window.showTextDocument(document, {
+            viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position),
+        });
     }
 
     private getFileName(): string {
@@ -117,64 +380,117 @@ export class PortalWebView {
         return fileTitle;
     }
 
-    private generateHTML(webview: vscode.Webview): string {
+    private async generateHTML(webview: vscode.Webview): Promise<{ html: string, unresolvedAssets: IUnresolvedAsset[] }> {
         const plainText: string = this._textEditor.document.getText();
-        const html = this.fixLinks(webview, plainText);
-        const htmlWithStyle = this.addStyles(webview, html);
-        return htmlWithStyle;
-    }
-
-    // Add styles to the current HTML so that it is displayed correctly in VS Code
-    private addStyles(webview: vscode.Webview, html: string): string {
-        const uri = PortalWebView.getPortalRootFolder();
-        if (uri) {
-            // Add bootstrap.min.css
-            let url = webview.asWebviewUri(
-                vscode.Uri.joinPath( uri as vscode.Uri, "web-files", "bootstrap.min.css")
-            );
-            const bootstrap = `<link href="${url}" rel="stylesheet" />`;
-            html += bootstrap;
-            // Add theme.css
-            url = webview.asWebviewUri(
-                vscode.Uri.joinPath(uri as vscode.Uri, "web-files", "theme.css")
-            );
-            const theme = `<link href="${url}" rel="stylesheet" />`;
-            html += theme;
+        const renderedText = await this.renderLiquid(plainText);
+        const { html, unresolvedAssets } = this.fixLinks(webview, renderedText);
+        const htmlWithStyle = this.addStyles(html);
+        return { html: htmlWithStyle, unresolvedAssets };
+    }
+
+    // Render the Liquid of the document with the web templates, snippets and settings of its site. The copy of a web
+    // page is shown in the full page around it.
+    private async renderLiquid(text: string): Promise<string> {
+        const uri = PortalWebView.getPortalRootFolder(this._textEditor.document);
+        const annotatedText = annotateSourceLines(text);
+        if (!uri) {
+            return annotatedText;
+        }
+        const dependencies = this._dependencies = new Set<string>();
+        const readSiteFile = (file: string) => {
+            if (file === this._textEditor.document.fileName) {
+                return annotatedText;
+            }
+            dependencies.add(file);
+            return vscode.workspace.textDocuments.find((document) => document.uri.fsPath === file)?.getText();
+        };
+        try {
+            const site = readPreviewSite(uri.fsPath, this._textEditor.document.fileName, readSiteFile);
+            return site.layout
+                ? await renderPagePreview(site, PortalWebView.getPreviewContext(), readSiteFile)
+                : await renderLiquidPreview(annotatedText, site, PortalWebView.getPreviewContext(), readSiteFile);
+        } catch (error) {
+            const message = vscode.l10n.t({
+                message: "The Liquid of this file could not be rendered: {0}",
+                args: [(error as Error).message],
+                comment: ["{0} is the error message of the Liquid engine"]
+            });
+            return `<div class="pp-liquid-error">${escapeHtml(message)}</div>${text}`;
         }
-        return html;
     }
 
-    private fixLinks(webview: vscode.Webview, html: string): string {
-        const uri = PortalWebView.getPortalRootFolder();
-        if (uri) {
-            const BaseURL = webview.asWebviewUri(
-                vscode.Uri.joinPath(uri as vscode.Uri, "web-files")
-            );
+    private static getPreviewContext(): ILiquidPreviewContext {
+        const configuration = vscode.workspace.getConfiguration("powerPlatform.preview");
+        const request = configuration.get<{ url?: string, params?: Record<string, string> }>("request");
+        return {
+            user: configuration.get<boolean>("signedIn") ? configuration.get<Record<string, unknown>>("user") : undefined,
+            request: {
+                url: request?.url ?? "https://localhost/",
+                params: request?.params ?? {}
+            }
+        };
+    }
 
-            // update img src value with base url of web-files folder
-            // html = html.replace(/<img([^>]*)\ssrc=(['"])(\/[^\2*([^\2\s<]+)\2/gi, "<img$1 src=$2" + BaseURL + "$3$2");
-            const regex = /<img([^>]*)\ssrc=(['"])(\/[^\2*([^\2<]*(png|jpg|jpeg|svg|gif|PNG|JPG|JPEG|SVG|GIF|bmp|BMP))/g;
-            const emptySpace = /[ ]/g;
+    // Add styles to the current HTML so that it is displayed correctly in VS Code. The stylesheets of the site are
+    // added by the page, as chosen in its toolbar.
+    private addStyles(html: string): string {
+        // Tags that need Dataverse records are shown as placeholders
+        html += `<style>
+            .pp-liquid-placeholder { border: 1px dashed #888; padding: 8px; margin: 4px 0; font-family: monospace; color: #555; background: #f5f5f5; }
+            .pp-liquid-error { border: 1px solid #c00; padding: 8px; margin: 4px 0; color: #c00; }
+        </style>`;
+        return html;
+    }
 
-            let match;
-            while ((match = regex.exec(html)) !== null) {
-                html = html.replace(match[3], BaseURL + match[3].replace(emptySpace, "-"));
+    // Point images, stylesheets and scripts to the files of web-files, which are found by their partial URL
+    private fixLinks(webview: vscode.Webview, html: string): { html: string, unresolvedAssets: IUnresolvedAsset[] } {
+        const uri = PortalWebView.getPortalRootFolder(this._textEditor.document);
+        if (!uri) {
+            return { html, unresolvedAssets: [] };
+        }
+        const webFiles = readWebFiles(uri.fsPath);
+        return rewriteAssetUrls(html, (url) => {
+            const files = findWebFile(url, uri.fsPath, webFiles);
+            if (files.length !== 1) {
+                return files;
             }
+            this._dependencies.add(files[0]);
+            return webview.asWebviewUri(vscode.Uri.file(files[0])).toString();
+        });
+    }
 
-            // update image referred as url('/Homehero.png');
-            html = html.replace(
-                /url\('(?:[^'\]*)*([^']+)'/g,
-                "url('" + BaseURL + "/$1'"
+    // Unresolved assets are shown where the document refers to them, or else on the element they are found in
+    private static getUnresolvedAssetDiagnostics(document: vscode.TextDocument, unresolvedAssets: IUnresolvedAsset[]): vscode.Diagnostic[] {
+        const text = document.getText();
+        return unresolvedAssets.map(({ url, line, matchingFiles }) => {
+            const offset = text.indexOf(url);
+            const range = offset >= 0
+                ? new vscode.Range(document.positionAt(offset), document.positionAt(offset + url.length))
+                : document.lineAt(Math.min(line ?? 0, document.lineCount - 1)).range;
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                matchingFiles
+                    ? vscode.l10n.t({
+                        message: "'{0}' may refer to several web files: {1}",
+                        args: [url, matchingFiles.map(file => vscode.workspace.asRelativePath(file)).join(", ")],
+                        comment: ["{0} is the URL of an image, stylesheet or script of the page", "{1} is the list of the files it may refer to"]
+                    })
+                    : vscode.l10n.t({
+                        message: "'{0}' was not found in web-files",
+                        args: [url],
+                        comment: ["{0} is the URL of an image, stylesheet or script of the page"]
+                    }),
+                vscode.DiagnosticSeverity.Warning
             );
-        }
-        return html;
+            diagnostic.source = "Portal Preview";
+            return diagnostic;
+        });
     }
 
-    private static getPortalRootFolder(): vscode.Uri | null {
-        const fileBeingEdited = vscode.window.activeTextEditor as vscode.TextEditor;
-        if (fileBeingEdited) {
+    private static getPortalRootFolder(document = vscode.window.activeTextEditor?.document): vscode.Uri | null {
+        if (document) {
             for (let i = 0; !!(vscode.workspace.workspaceFolders) && (i < vscode.workspace.workspaceFolders?.length); i++) {
-                const portalConfigFolderUrl = searchPortalConfigFolder(vscode.workspace.workspaceFolders[i]?.uri?.toString(), fileBeingEdited?.document?.uri?.toString());
+                const portalConfigFolderUrl = searchPortalConfigFolder(vscode.workspace.workspaceFolders[i]?.uri?.toString(), document.uri.toString());
                 if (portalConfigFolderUrl) {
                     const portalRootFolder = path.dirname(portalConfigFolderUrl.href);
                     return vscode.Uri.parse(portalRootFolder);
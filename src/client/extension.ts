@@ -8,8 +8,9 @@ import * as path from "path";
 import * as vscode from "vscode";
 import { AppTelemetryConfigUtility } from "../common/pp-tooling-telemetry-node";
 import { vscodeExtAppInsightsResourceProvider } from "../common/telemetry-generated/telemetryConfiguration";
-import { ITelemetryData } from "../common/TelemetryData";
+import { IManifestIndexTelemetryData, ITelemetryData } from "../common/TelemetryData";
 import { CliAcquisition, ICliAcquisitionContext } from "./lib/CliAcquisition";
+import { isInteractiveLoginSupported } from "./lib/NewAuthProfileInput";
 import { PacTerminal } from "./lib/PacTerminal";
 import { PortalWebView } from "./PortalWebView";
 import { ITelemetry } from "./telemetry/ITelemetry";
@@ -31,6 +32,8 @@ import { handleFileSystemCallbacks } from "./power-pages/fileSystemCallbacks";
 import { readUserSettings } from "./telemetry/localfileusersettings";
 import { initializeGenerator } from "./power-pages/create/CreateCommandWrapper";
 import { disposeDiagnostics } from "./power-pages/validationDiagnostics";
+import { setManifestIndexListener } from "../common/ManifestIndex";
+import { shareManifestIndex } from "./lib/SharedManifestIndex";
 
 let client: LanguageClient;
 let _context: vscode.ExtensionContext;
@@ -60,14 +63,21 @@ export async function activate(
     _telemetry.sendTelemetryEvent("Start", {
         "pac.userId": readUserSettings().uniqueId,
     });
+    setManifestIndexListener((buildInfo) => {
+        const telemetryData: IManifestIndexTelemetryData = {
+            eventName: "ManifestIndexBuilt",
+            measurements: {
+                indexBuildTimeMs: buildInfo.buildTimeMs,
+                countOfRecords: buildInfo.countOfRecords,
+                countOfEntities: buildInfo.countOfEntities,
+                countOfManifests: buildInfo.countOfManifests,
+            },
+        };
+        _telemetry.sendTelemetryEvent(telemetryData.eventName, telemetryData.properties, telemetryData.measurements);
+    });
 
     // Setup context switches
-    if (
-        vscode.env.remoteName === undefined ||
-        vscode.env.remoteName === "wsl"
-    ) {
-        // PAC Interactive Login works when we are the UI is running on the same machine
-        // as the extension (i.e. NOT remote), or the remote is WSL
+    if (isInteractiveLoginSupported()) {
         vscode.commands.executeCommand(
             "setContext",
             "pacCLI.authPanel.interactiveLoginSupported",
@@ -91,7 +101,7 @@ export async function activate(
                 _telemetry.sendTelemetryEvent("StartCommand", {
                     commandId: "microsoft-powerapps-portals.preview-show",
                 });
-                PortalWebView.createOrShow();
+                PortalWebView.createOrShow(_context.extensionUri);
             }
         )
     );
@@ -122,7 +132,7 @@ export async function activate(
                     _telemetry.sendTelemetryEvent("PortalWebPagePreview", {
                         page: "ExistingPage",
                     });
-                    PortalWebView?.currentPanel?._update();
+                    PortalWebView?.currentPanel?.scheduleRefresh();
                 }
             }
         })
@@ -131,7 +141,7 @@ export async function activate(
     if (vscode.window.registerWebviewPanelSerializer) {
         vscode.window.registerWebviewPanelSerializer(PortalWebView.viewType, {
             async deserializeWebviewPanel(webviewPanel: vscode.WebviewPanel) {
-                PortalWebView.revive(webviewPanel);
+                PortalWebView.revive(webviewPanel, _context.extensionUri);
             },
         });
     }
@@ -226,6 +236,7 @@ function didOpenTextDocument(document: vscode.TextDocument): void {
 
         // this is used to send yamlServer telemetry events
         registerClientToReceiveNotifications(client);
+        _context.subscriptions.push(shareManifestIndex(client));
     } else if (document.languageId === "html" && !htmlServerRunning) {
         // The server is implemented in node
         const serverModule = _context.asAbsolutePath(
@@ -248,8 +259,20 @@ function didOpenTextDocument(document: vscode.TextDocument): void {
             documentSelector: [{ scheme: "file", language: "html" }],
             synchronize: {
                 // Notify the server about file changes to '.clientrc files contained in the workspace
-                fileEvents:
+                fileEvents: [
                     vscode.workspace.createFileSystemWatcher("**/.clientrc"),
+                    // Keeps the sites to format up to date
+                    vscode.workspace.createFileSystemWatcher("**/.portalconfig/**"),
+                    // Keeps the web templates and content snippets offered as workspace symbols up to date
+                    vscode.workspace.createFileSystemWatcher("**/{content-snippets,web-pages,web-templates}/**"),
+                    // Keeps the tables and columns offered for completion in Liquid up to date
+                    vscode.workspace.createFileSystemWatcher("**/{table-permissions,lists,basic-forms}/**"),
+                    vscode.workspace.createFileSystemWatcher("**/sitesetting.yml"),
+                ],
+            },
+            // The server translates the Liquid hover documentation with the extension's l10n bundle, if there is one
+            initializationOptions: {
+                l10nBundle: vscode.l10n.uri?.fsPath,
             },
         };
 
@@ -270,6 +293,7 @@ function didOpenTextDocument(document: vscode.TextDocument): void {
 
         // this is used to send HtmlServer telemetry events
         registerClientToReceiveNotifications(client);
+        _context.subscriptions.push(shareManifestIndex(client));
     }
 }
 
@@ -0,0 +1,44 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as vscode from 'vscode';
+import { PacAuthListOutput } from '../pac/PacTypes';
+
+const _onDidChangeActiveEnvironment = new vscode.EventEmitter<string | undefined>();
+let _activeEnvironmentUrl: string | undefined;
+
+/**
+ * Fires with the URL of the environment of the active auth profile whenever it changes
+ */
+export const onDidChangeActiveEnvironment: vscode.Event<string | undefined> = _onDidChangeActiveEnvironment.event;
+
+export function getActiveEnvironmentUrl(): string | undefined {
+    return _activeEnvironmentUrl;
+}
+
+export function normalizeEnvironmentUrl(url: string): string {
+    return url.trim().replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * Keeps track of the environment of the active auth profile, re-reading the auth profiles whenever they change
+ */
+export function watchActiveEnvironment(authChanged: vscode.Event<unknown>, authDataSource: () => Promise<PacAuthListOutput>): vscode.Disposable {
+    const update = async () => {
+        const authOutput = await authDataSource();
+        if (authOutput?.Status !== "Success") {
+            // Keep the last known environment, e.g. while pac is still being installed or offline
+            return;
+        }
+        const activeProfile = authOutput.Results?.find(profile => profile.IsActive);
+        const activeEnvironmentUrl = activeProfile?.Resource ? normalizeEnvironmentUrl(activeProfile.Resource) : undefined;
+        if (activeEnvironmentUrl !== _activeEnvironmentUrl) {
+            _activeEnvironmentUrl = activeEnvironmentUrl;
+            _onDidChangeActiveEnvironment.fire(activeEnvironmentUrl);
+        }
+    };
+    update();
+    return authChanged(update);
+}
@@ -0,0 +1,263 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as vscode from 'vscode';
+import { AdminEnvironmentListing, PacAdminListOutput } from '../pac/PacTypes';
+import { PacWrapper } from '../pac/PacWrapper';
+import { runPacOperation } from './PacOperationRunner';
+
+const environmentTypes = ["Sandbox", "Production", "Trial", "Developer"];
+const environmentRegions = [
+    "unitedstates", "europe", "asia", "australia", "india", "japan", "canada", "unitedkingdom", "southamerica",
+    "france", "germany", "switzerland", "norway", "korea", "southafrica", "unitedarabemirates", "unitedstatesfirstrelease"
+];
+
+export class AdminEnvironmentTreeView implements vscode.TreeDataProvider<AdminEnvironmentTreeItem>, vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _outputChannel: vscode.OutputChannel;
+    private _environments: AdminEnvironmentListing[] = [];
+    private _onDidChangeTreeData: vscode.EventEmitter<AdminEnvironmentTreeItem | undefined | void> = new vscode.EventEmitter<AdminEnvironmentTreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<AdminEnvironmentTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    constructor(
+        public readonly dataSource: () => Promise<PacAdminListOutput>,
+        authChanged: vscode.Event<unknown>,
+        pacWrapper: PacWrapper) {
+
+        this._outputChannel = vscode.window.createOutputChannel(vscode.l10n.t("Power Platform Environments"));
+        this._disposables.push(this._outputChannel,
+            ...this.registerPanel(pacWrapper),
+            authChanged(() => this.refresh()));
+    }
+
+    dispose() {
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getTreeItem(element: AdminEnvironmentTreeItem): vscode.TreeItem | Thenable<vscode.TreeItem> {
+        return element;
+    }
+
+    public async getChildren(element?: AdminEnvironmentTreeItem): Promise<AdminEnvironmentTreeItem[]> {
+        if (element) {
+            // This "Tree" view is a flat list, so return no children when not at the root
+            return [];
+        }
+        const pacOutput = await this.dataSource();
+        if (pacOutput && pacOutput.Status === "Success" && pacOutput.Results) {
+            this._environments = pacOutput.Results;
+            return pacOutput.Results.map(item => new AdminEnvironmentTreeItem(item));
+        } else {
+            this._environments = [];
+            return [];
+        }
+    }
+
+    private async confirm(message: string): Promise<boolean> {
+        const confirm = vscode.l10n.t("Confirm");
+        const confirmResult = await vscode.window.showWarningMessage(message, confirm, vscode.l10n.t("Cancel"));
+        return confirmResult === confirm;
+    }
+
+    private async pickEnvironment(title: string, exclude?: AdminEnvironmentListing): Promise<AdminEnvironmentListing | undefined> {
+        const picked = await vscode.window.showQuickPick(
+            this._environments
+                .filter(environment => environment.EnvironmentId !== exclude?.EnvironmentId)
+                .map(environment => ({ label: environment.DisplayName, description: environment.Type, detail: environment.EnvironmentUrl, environment: environment })),
+            { title: title });
+        return picked?.environment;
+    }
+
+    private async createEnvironment(pacWrapper: PacWrapper): Promise<void> {
+        const title = vscode.l10n.t("Create Environment");
+        const name = await vscode.window.showInputBox({
+            title: title,
+            prompt: vscode.l10n.t("The display name of the new environment"),
+            validateInput: value => value.trim().length > 0 ? null : vscode.l10n.t("Environment name cannot be empty.")
+        });
+        if (!name) {
+            return;
+        }
+        const type = await vscode.window.showQuickPick(environmentTypes, { title: title, placeHolder: vscode.l10n.t("Select the environment type") });
+        if (!type) {
+            return;
+        }
+        const region = await vscode.window.showQuickPick(environmentRegions, { title: title, placeHolder: vscode.l10n.t("Select the environment region") });
+        if (!region) {
+            return;
+        }
+        const domain = await vscode.window.showInputBox({
+            title: title,
+            prompt: vscode.l10n.t("The domain name that is part of the environment URL (optional)"),
+            validateInput: value => /^[a-zA-Z0-9-]*$/.test(value) ? null : vscode.l10n.t("Only letters, numbers and hyphens are allowed")
+        });
+        if (domain === undefined) {
+            return;
+        }
+
+        const succeeded = await runPacOperation(this._outputChannel,
+            vscode.l10n.t({
+                message: "Creating environment {0}",
+                args: [name],
+                comment: ["{0} represents the display name of the environment"]
+            }),
+            (token) => pacWrapper.adminEnvironmentCreate({ Name: name, Type: type, Region: region, Domain: domain }, token));
+        if (succeeded) {
+            this.refresh();
+        }
+    }
+
+    private registerPanel(pacWrapper: PacWrapper): vscode.Disposable[] {
+        return [
+            vscode.window.registerTreeDataProvider("pacCLI.adminEnvironmentsPanel", this),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.refresh", () => {
+                pacWrapper.invalidateCache();
+                this.refresh();
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.createEnvironment", async () => {
+                await this.createEnvironment(pacWrapper);
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.copyEnvironment", async (item: AdminEnvironmentTreeItem) => {
+                const target = await this.pickEnvironment(vscode.l10n.t("Select the environment to copy into"), item.model);
+                if (!target) {
+                    return;
+                }
+                const fullCopy = vscode.l10n.t("Full copy");
+                const minimalCopy = vscode.l10n.t("Minimal copy (customizations and schema only)");
+                const copyType = await vscode.window.showQuickPick([fullCopy, minimalCopy], { title: vscode.l10n.t("Select the copy type") });
+                if (!copyType) {
+                    return;
+                }
+                const confirmed = await this.confirm(vscode.l10n.t({
+                    message: "Are you sure you want to copy {0} into {1}? All existing data in {1} will be overwritten.",
+                    args: [item.model.DisplayName, target.DisplayName],
+                    comment: ["{0} is the display name of the source environment, {1} is the display name of the target environment"]
+                }));
+                if (confirmed) {
+                    await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Copying environment {0} into {1}",
+                            args: [item.model.DisplayName, target.DisplayName],
+                            comment: ["{0} is the display name of the source environment, {1} is the display name of the target environment"]
+                        }),
+                        (token) => pacWrapper.adminEnvironmentCopy(item.model.EnvironmentId, target.EnvironmentId, copyType === fullCopy, token),
+                        false);
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.backupEnvironment", async (item: AdminEnvironmentTreeItem) => {
+                const label = await vscode.window.showInputBox({
+                    title: vscode.l10n.t("Backup Environment"),
+                    prompt: vscode.l10n.t("The label to identify this backup"),
+                    validateInput: value => value.trim().length > 0 ? null : vscode.l10n.t("Backup label cannot be empty.")
+                });
+                if (label) {
+                    await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Backing up environment {0}",
+                            args: [item.model.DisplayName],
+                            comment: ["{0} represents the display name of the environment"]
+                        }),
+                        (token) => pacWrapper.adminEnvironmentBackup(item.model.EnvironmentId, label, token));
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.restoreEnvironment", async (item: AdminEnvironmentTreeItem) => {
+                const source = await this.pickEnvironment(vscode.l10n.t("Select the environment whose backup should be restored"));
+                if (!source) {
+                    return;
+                }
+                const selectedBackup = await vscode.window.showInputBox({
+                    title: vscode.l10n.t("Restore Environment"),
+                    prompt: vscode.l10n.t("'latest' to restore the most recent backup, or the timestamp of the backup to restore"),
+                    value: "latest",
+                    validateInput: value => value.trim().length > 0 ? null : vscode.l10n.t("Backup cannot be empty.")
+                });
+                if (!selectedBackup) {
+                    return;
+                }
+                const confirmed = await this.confirm(vscode.l10n.t({
+                    message: "Are you sure you want to restore a backup of {0} into {1}? All existing data in {1} will be overwritten.",
+                    args: [source.DisplayName, item.model.DisplayName],
+                    comment: ["{0} is the display name of the environment the backup was taken from, {1} is the display name of the environment being restored"]
+                }));
+                if (confirmed) {
+                    await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Restoring environment {0}",
+                            args: [item.model.DisplayName],
+                            comment: ["{0} represents the display name of the environment"]
+                        }),
+                        (token) => pacWrapper.adminEnvironmentRestore(source.EnvironmentId, item.model.EnvironmentId, selectedBackup, token),
+                        false);
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.resetEnvironment", async (item: AdminEnvironmentTreeItem) => {
+                const confirmed = await this.confirm(vscode.l10n.t({
+                    message: "Are you sure you want to reset the environment {0}? All of its data and customizations will be deleted.",
+                    args: [item.model.DisplayName],
+                    comment: ["{0} represents the display name of the environment"]
+                }));
+                if (confirmed) {
+                    await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Resetting environment {0}",
+                            args: [item.model.DisplayName],
+                            comment: ["{0} represents the display name of the environment"]
+                        }),
+                        (token) => pacWrapper.adminEnvironmentReset(item.model.EnvironmentId, token),
+                        false);
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.deleteEnvironment", async (item: AdminEnvironmentTreeItem) => {
+                const confirmed = await this.confirm(vscode.l10n.t({
+                    message: "Are you sure you want to delete the environment {0}? This cannot be undone.",
+                    args: [item.model.DisplayName],
+                    comment: ["{0} represents the display name of the environment"]
+                }));
+                if (confirmed) {
+                    const succeeded = await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Deleting environment {0}",
+                            args: [item.model.DisplayName],
+                            comment: ["{0} represents the display name of the environment"]
+                        }),
+                        (token) => pacWrapper.adminEnvironmentDelete(item.model.EnvironmentId, token),
+                        false);
+                    if (succeeded) {
+                        this.refresh();
+                    }
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.adminEnvironmentsPanel.copyEnvironmentUrl", (item: AdminEnvironmentTreeItem) => {
+                vscode.env.clipboard.writeText(item.model.EnvironmentUrl);
+            })
+        ];
+    }
+}
+
+class AdminEnvironmentTreeItem extends vscode.TreeItem {
+    constructor(public readonly model: AdminEnvironmentListing) {
+        super(model.DisplayName, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = "ADMIN_ENVIRONMENT";
+        this.description = model.Type;
+        this.tooltip = vscode.l10n.t(
+            {
+                message: "Name: {0}\nType: {1}\nRegion: {2}\nURL: {3}\nEnvironment ID: {4}",
+                args: [model.DisplayName, model.Type, model.Region ?? "", model.EnvironmentUrl, model.EnvironmentId],
+                comment: [
+                    "This is a multi-line tooltip",
+                    "The {0} represents Environment's display name",
+                    "The {1} represents Environment's type, e.g. Sandbox or Production",
+                    "The {2} represents Environment's region",
+                    "The {3} represents Environment's URL",
+                    "The {4} represents Environment's ID (GUID)"
+                ]
+            }
+        );
+    }
+}
@@ -6,8 +6,9 @@
 import * as os from 'os';
 import path from 'path';
 import * as vscode from 'vscode';
-import { AuthProfileListing, PacAuthListOutput, } from '../pac/PacTypes';
+import { AuthCreateParameters, AuthProfileListing, PacAuthListOutput, } from '../pac/PacTypes';
 import { PacWrapper } from '../pac/PacWrapper';
+import { getNewAuthProfileInputs, isInteractiveLoginSupported, parseDeviceCodeInstructions } from './NewAuthProfileInput';
 
 export class AuthTreeView implements vscode.TreeDataProvider<AuthProfileTreeItem>, vscode.Disposable {
     private readonly _disposables: vscode.Disposable[] = [];
@@ -22,11 +23,15 @@ export class AuthTreeView implements vscode.TreeDataProvider<AuthProfileTreeItem
         const watchPath = GetAuthProfileWatchPattern();
         if (watchPath) {
             const watcher = vscode.workspace.createFileSystemWatcher(watchPath);
+            const onAuthProfilesChanged = () => {
+                pacWrapper.invalidateCache();
+                this.delayRefresh();
+            };
             this._disposables.push(
                 watcher,
-                watcher.onDidChange(() => this.delayRefresh()),
-                watcher.onDidCreate(() => this.delayRefresh()),
-                watcher.onDidDelete(() => this.delayRefresh())
+                watcher.onDidChange(onAuthProfilesChanged),
+                watcher.onDidCreate(onAuthProfilesChanged),
+                watcher.onDidDelete(onAuthProfilesChanged)
             );
         }
 
@@ -77,10 +82,59 @@ export class AuthTreeView implements vscode.TreeDataProvider<AuthProfileTreeItem
         }
     }
 
+    // Offer the environments of the existing profiles, and those the active profile can reach
+    private async getKnownEnvironmentUrls(pacWrapper: PacWrapper): Promise<string[]> {
+        const urls = new Set<string>();
+        const authOutput = await this.dataSource();
+        if (authOutput && authOutput.Status === "Success" && authOutput.Results && authOutput.Results.length > 0) {
+            authOutput.Results.filter(profile => profile.Resource).forEach(profile => urls.add(profile.Resource));
+            const orgOutput = await pacWrapper.orgList();
+            if (orgOutput && orgOutput.Status === "Success" && orgOutput.Results) {
+                orgOutput.Results.forEach(org => urls.add(org.EnvironmentUrl));
+            }
+        }
+        return [...urls];
+    }
+
+    private async createAuthProfile(pacWrapper: PacWrapper, parameters: AuthCreateParameters): Promise<void> {
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: vscode.l10n.t("Creating auth profile")
+        }, (progress) => pacWrapper.authCreateNewAuthProfile(parameters, async (line) => {
+            const instructions = parseDeviceCodeInstructions(line);
+            if (!instructions) {
+                progress.report({ message: line });
+                return;
+            }
+            const copyAndOpen = vscode.l10n.t("Copy Code and Open Browser");
+            const selection = await vscode.window.showInformationMessage(
+                vscode.l10n.t({
+                    message: "To sign in, open {0} and enter the code {1}",
+                    args: [instructions.url, instructions.code],
+                    comment: ["{0} is the device login URL, {1} is the one-time device code"]
+                }),
+                copyAndOpen);
+            if (selection === copyAndOpen) {
+                await vscode.env.clipboard.writeText(instructions.code);
+                await vscode.env.openExternal(vscode.Uri.parse(instructions.url));
+            }
+        }));
+        if (result.Status !== "Success") {
+            vscode.window.showErrorMessage(vscode.l10n.t({
+                message: "Failed to create the auth profile: {0}",
+                args: [result.Errors.join(" ")],
+                comment: ["{0} is the error reported by the pac CLI"]
+            }));
+        }
+    }
+
     private registerPanel(pacWrapper: PacWrapper): vscode.Disposable[] {
         return [
             vscode.window.registerTreeDataProvider("pacCLI.authPanel", this),
-            vscode.commands.registerCommand("pacCLI.authPanel.refresh", () => this.refresh()),
+            vscode.commands.registerCommand("pacCLI.authPanel.refresh", () => {
+                pacWrapper.invalidateCache();
+                this.refresh();
+            }),
             vscode.commands.registerCommand("pacCLI.authPanel.clearAuthProfile", async () => {
                 const confirm = vscode.l10n.t("Confirm");
                 const confirmResult = await vscode.window.showWarningMessage(
@@ -93,8 +147,11 @@ export class AuthTreeView implements vscode.TreeDataProvider<AuthProfileTreeItem
                 }
             }),
             vscode.commands.registerCommand("pacCLI.authPanel.newAuthProfile", async () => {
-                await pacWrapper.authCreateNewAuthProfile();
-                this.delayRefresh();
+                const parameters = await getNewAuthProfileInputs(await this.getKnownEnvironmentUrls(pacWrapper), isInteractiveLoginSupported());
+                if (parameters) {
+                    await this.createAuthProfile(pacWrapper, parameters);
+                    this.delayRefresh();
+                }
             }),
             vscode.commands.registerCommand("pacCLI.authPanel.selectAuthProfile", async (item: AuthProfileTreeItem) => {
                 await pacWrapper.authSelectByIndex(item.model.Index);
@@ -3,20 +3,38 @@
  * Licensed under the MIT License. See License.txt in the project root for license information.
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { OrgListOutput, PacOrgListOutput, PacSolutionListOutput, SolutionListing } from '../pac/PacTypes';
+import { OrgListOutput, PacAuthListOutput, PacOrgListOutput, PacSolutionComponentListOutput, PacSolutionListOutput, SolutionComponentListing, SolutionListing } from '../pac/PacTypes';
+import { PacWrapper } from '../pac/PacWrapper';
+import { normalizeEnvironmentUrl } from './ActiveEnvironment';
+import { runPacOperation } from './PacOperationRunner';
 
-export class EnvAndSolutionTreeView implements vscode.TreeDataProvider<EnvOrSolutionTreeItem>, vscode.Disposable {
+type EnvAndSolutionTreeItem = EnvOrSolutionTreeItem | SolutionComponentTreeItem;
+
+type SolutionComponentGroup = {
+    GroupName: string;
+    IconId: string;
+    Components: SolutionComponentListing[];
+}
+
+export class EnvAndSolutionTreeView implements vscode.TreeDataProvider<EnvAndSolutionTreeItem>, vscode.Disposable {
     private readonly _disposables: vscode.Disposable[] = [];
-    private _onDidChangeTreeData: vscode.EventEmitter<EnvOrSolutionTreeItem | undefined | void> = new vscode.EventEmitter<EnvOrSolutionTreeItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<EnvOrSolutionTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+    private readonly _outputChannel: vscode.OutputChannel;
+    private _onDidChangeTreeData: vscode.EventEmitter<EnvAndSolutionTreeItem | undefined | void> = new vscode.EventEmitter<EnvAndSolutionTreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<EnvAndSolutionTreeItem | undefined | void> = this._onDidChangeTreeData.event;
 
     constructor(
         public readonly envDataSource: () => Promise<PacOrgListOutput>,
+        public readonly authDataSource: () => Promise<PacAuthListOutput>,
         public readonly solutionDataSource: (environmentUrl: string) => Promise<PacSolutionListOutput>,
-        authChanged: vscode.Event<unknown>){
+        public readonly solutionComponentDataSource: (environmentUrl: string, solution: SolutionListing) => Promise<PacSolutionComponentListOutput>,
+        authChanged: vscode.Event<unknown>,
+        pacWrapper: PacWrapper){
 
-        this._disposables.push(...this.registerPanel(),
+        this._outputChannel = vscode.window.createOutputChannel(vscode.l10n.t("Power Platform Solutions"));
+        this._disposables.push(this._outputChannel,
+            ...this.registerPanel(pacWrapper),
             authChanged(() => this.refresh()));
     }
 
@@ -28,37 +46,134 @@ export class EnvAndSolutionTreeView implements vscode.TreeDataProvider<EnvOrSolu
         this._onDidChangeTreeData.fire();
     }
 
-    public getTreeItem(element: EnvOrSolutionTreeItem): vscode.TreeItem | Thenable<vscode.TreeItem> {
+    public getTreeItem(element: EnvAndSolutionTreeItem): vscode.TreeItem | Thenable<vscode.TreeItem> {
         return element;
     }
 
-    public async getChildren(element?: EnvOrSolutionTreeItem): Promise<EnvOrSolutionTreeItem[]> {
-        if (!element) {
+    public async getChildren(element?: EnvAndSolutionTreeItem): Promise<EnvAndSolutionTreeItem[]> {
+        if (element instanceof SolutionComponentTreeItem) {
+            // element is a component group or a component
+            return "Components" in element.model
+                ? element.model.Components.map(item => new SolutionComponentTreeItem(item))
+                : [];
+        } else if (!element) {
             // root
             const envOutput = await this.envDataSource();
             if (envOutput && envOutput.Status === "Success" && envOutput.Results) {
-                return envOutput.Results.map(item => new EnvOrSolutionTreeItem(item))
+                const activeEnvironmentUrl = await this.getActiveEnvironmentUrl();
+                return envOutput.Results.map(item => new EnvOrSolutionTreeItem(item, undefined,
+                    normalizeEnvironmentUrl(item.EnvironmentUrl) === activeEnvironmentUrl))
             } else {
                 return [];
             }
         } else if ("SolutionUniqueName" in element.model) {
             // element is solution
-            return [];
+            const environmentUrl = element.parentEnvironment?.EnvironmentUrl;
+            if (!environmentUrl) {
+                return [];
+            }
+            const componentOutput = await this.solutionComponentDataSource(environmentUrl, element.model);
+            if (componentOutput && componentOutput.Status === "Success" && componentOutput.Results) {
+                return groupSolutionComponents(componentOutput.Results).map(group => new SolutionComponentTreeItem(group));
+            } else {
+                return [];
+            }
         } else {
             // element is environment
             const solutionOutput = await this.solutionDataSource(element.model.EnvironmentUrl);
             if (solutionOutput && solutionOutput.Status === "Success" && solutionOutput.Results) {
-                return solutionOutput.Results.map(item => new EnvOrSolutionTreeItem(item))
+                return solutionOutput.Results.map(item => new EnvOrSolutionTreeItem(item, element.model as OrgListOutput))
             } else {
                 return [];
             }
         }
     }
 
-    private registerPanel(): vscode.Disposable[] {
+    // pac targets the environment of the active auth profile, which `pac org select` switches
+    private async getActiveEnvironmentUrl(): Promise<string | undefined> {
+        const authOutput = await this.authDataSource();
+        const activeProfile = authOutput?.Status === "Success"
+            ? authOutput.Results?.find(profile => profile.IsActive)
+            : undefined;
+        return activeProfile?.Resource ? normalizeEnvironmentUrl(activeProfile.Resource) : undefined;
+    }
+
+    private async selectEnvironment(pacWrapper: PacWrapper, environment: OrgListOutput): Promise<void> {
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: vscode.l10n.t({
+                message: "Selecting environment {0}",
+                args: [environment.FriendlyName],
+                comment: ["{0} represents Dataverse Environment's Friendly / Display name"]
+            })
+        }, () => pacWrapper.orgSelect(environment.EnvironmentUrl));
+        if (result.Status === "Success") {
+            // Refreshing the auth panel fires authChanged, which in turn refreshes this tree
+            await vscode.commands.executeCommand("pacCLI.authPanel.refresh");
+        } else {
+            vscode.window.showErrorMessage(vscode.l10n.t({
+                message: "Failed to select environment {0}: {1}",
+                args: [environment.FriendlyName, result.Errors.join(" ")],
+                comment: ["{0} represents Dataverse Environment's Friendly / Display name, {1} is the error reported by the pac CLI"]
+            }));
+        }
+    }
+
+    private async exportSolution(pacWrapper: PacWrapper, item: EnvOrSolutionTreeItem, managed: boolean): Promise<void> {
+        const solution = item.model as SolutionListing;
+        const environmentUrl = item.parentEnvironment?.EnvironmentUrl;
+        if (!environmentUrl) {
+            return;
+        }
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = managed ? `${solution.SolutionUniqueName}_managed.zip` : `${solution.SolutionUniqueName}.zip`;
+        const zipFile = await vscode.window.showSaveDialog({
+            title: managed ? vscode.l10n.t("Export as Managed Solution") : vscode.l10n.t("Export as Unmanaged Solution"),
+            defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, fileName) : undefined,
+            filters: { [vscode.l10n.t("Solution Files")]: ["zip"] }
+        });
+        if (zipFile) {
+            await runPacOperation(this._outputChannel,
+                vscode.l10n.t({
+                    message: "Exporting solution {0}",
+                    args: [solution.SolutionUniqueName],
+                    comment: ["{0} represents the solution's unique name"]
+                }),
+                (token) => pacWrapper.solutionExport(environmentUrl, solution.SolutionUniqueName, zipFile.fsPath, managed, token));
+        }
+    }
+
+    private async importSolution(pacWrapper: PacWrapper, environmentUrl: string): Promise<void> {
+        const zipFiles = await vscode.window.showOpenDialog({
+            title: vscode.l10n.t("Import Solution"),
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            filters: { [vscode.l10n.t("Solution Files")]: ["zip"] }
+        });
+        if (zipFiles && zipFiles.length > 0) {
+            const succeeded = await runPacOperation(this._outputChannel,
+                vscode.l10n.t({
+                    message: "Importing solution {0}",
+                    args: [path.basename(zipFiles[0].fsPath)],
+                    comment: ["{0} represents the file name of the solution zip being imported"]
+                }),
+                (token) => pacWrapper.solutionImport(environmentUrl, zipFiles[0].fsPath, token));
+            if (succeeded) {
+                this.refresh();
+            }
+        }
+    }
+
+    private registerPanel(pacWrapper: PacWrapper): vscode.Disposable[] {
         return [
             vscode.window.registerTreeDataProvider("pacCLI.envAndSolutionsPanel", this),
-            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.refresh", () => this.refresh()),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.refresh", () => {
+                pacWrapper.invalidateCache();
+                this.refresh();
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.selectEnvironment", async (item: EnvOrSolutionTreeItem) => {
+                await this.selectEnvironment(pacWrapper, item.model as OrgListOutput);
+            }),
             vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.copyDisplayName", (item: EnvOrSolutionTreeItem) => {
                 vscode.env.clipboard.writeText((item.model as OrgListOutput).FriendlyName);
             }),
@@ -79,14 +194,98 @@ export class EnvAndSolutionTreeView implements vscode.TreeDataProvider<EnvOrSolu
             }),
             vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.copyVersionNumber", (item: EnvOrSolutionTreeItem) => {
                 vscode.env.clipboard.writeText((item.model as SolutionListing).VersionNumber);
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.copySchemaName", (item: SolutionComponentTreeItem) => {
+                vscode.env.clipboard.writeText((item.model as SolutionComponentListing).SchemaName);
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.exportManagedSolution", async (item: EnvOrSolutionTreeItem) => {
+                await this.exportSolution(pacWrapper, item, true);
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.exportUnmanagedSolution", async (item: EnvOrSolutionTreeItem) => {
+                await this.exportSolution(pacWrapper, item, false);
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.cloneSolution", async (item: EnvOrSolutionTreeItem) => {
+                const solution = item.model as SolutionListing;
+                const environmentUrl = item.parentEnvironment?.EnvironmentUrl;
+                if (!environmentUrl) {
+                    return;
+                }
+                const folders = await vscode.window.showOpenDialog({
+                    title: vscode.l10n.t("Select the folder to clone the solution into"),
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+                });
+                if (folders && folders.length > 0) {
+                    await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Cloning solution {0}",
+                            args: [solution.SolutionUniqueName],
+                            comment: ["{0} represents the solution's unique name"]
+                        }),
+                        (token) => pacWrapper.solutionClone(environmentUrl, solution.SolutionUniqueName, folders[0].fsPath, token));
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.importSolution", async (item: EnvOrSolutionTreeItem) => {
+                const environmentUrl = "SolutionUniqueName" in item.model
+                    ? item.parentEnvironment?.EnvironmentUrl
+                    : item.model.EnvironmentUrl;
+                if (environmentUrl) {
+                    await this.importSolution(pacWrapper, environmentUrl);
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.publishCustomizations", async (item: EnvOrSolutionTreeItem) => {
+                const environment = "SolutionUniqueName" in item.model ? item.parentEnvironment : item.model;
+                if (environment) {
+                    await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Publishing all customizations in {0}",
+                            args: [environment.FriendlyName],
+                            comment: ["{0} represents Dataverse Environment's Friendly / Display name"]
+                        }),
+                        (token) => pacWrapper.solutionPublish(environment.EnvironmentUrl, token));
+                }
+            }),
+            vscode.commands.registerCommand("pacCLI.envAndSolutionsPanel.updateSolutionVersion", async (item: EnvOrSolutionTreeItem) => {
+                const solution = item.model as SolutionListing;
+                const environmentUrl = item.parentEnvironment?.EnvironmentUrl;
+                if (!environmentUrl) {
+                    return;
+                }
+                const version = await vscode.window.showInputBox({
+                    title: vscode.l10n.t("Update Solution Version"),
+                    prompt: vscode.l10n.t({
+                        message: "The new version number for solution {0}",
+                        args: [solution.SolutionUniqueName],
+                        comment: ["{0} represents the solution's unique name"]
+                    }),
+                    value: solution.VersionNumber,
+                    validateInput: value => /^\d+(\.\d+){1,3}$/.test(value)
+                        ? null
+                        : vscode.l10n.t("Version must be in the format major.minor[.build[.revision]]")
+                });
+                if (version && version !== solution.VersionNumber) {
+                    const succeeded = await runPacOperation(this._outputChannel,
+                        vscode.l10n.t({
+                            message: "Updating version of solution {0} to {1}",
+                            args: [solution.SolutionUniqueName, version],
+                            comment: ["{0} represents the solution's unique name, {1} represents the new version number"]
+                        }),
+                        (token) => pacWrapper.solutionOnlineVersion(environmentUrl, solution.SolutionUniqueName, version, token));
+                    if (succeeded) {
+                        this.refresh();
+                    }
+                }
             })
         ];
     }
 }
 
 class EnvOrSolutionTreeItem extends vscode.TreeItem {
-    constructor(public readonly model: OrgListOutput | SolutionListing){
-        super(EnvOrSolutionTreeItem.createLabel(model), EnvOrSolutionTreeItem.setCollapsibleState(model));
+    constructor(public readonly model: OrgListOutput | SolutionListing, public readonly parentEnvironment?: OrgListOutput, isActive = false){
+        // Environments expand into solutions, and solutions expand into their component groups
+        super(EnvOrSolutionTreeItem.createLabel(model), vscode.TreeItemCollapsibleState.Collapsed);
         if ("SolutionUniqueName" in model) {
             this.contextValue = "SOLUTION";
             this.tooltip = vscode.l10n.t(
@@ -103,6 +302,9 @@ class EnvOrSolutionTreeItem extends vscode.TreeItem {
             );
         } else {
             this.contextValue = "ENVIRONMENT";
+            if (isActive) {
+                this.iconPath = new vscode.ThemeIcon("star-full");
+            }
             this.tooltip = vscode.l10n.t(
                 {
                     message: "Name: {0}\nURL: {1}\nEnvironment ID: {2}\nOrganization ID: {3}",
@@ -126,11 +328,67 @@ class EnvOrSolutionTreeItem extends vscode.TreeItem {
             return `${model.FriendlyName}`
         }
     }
+}
 
-    private static setCollapsibleState(model: OrgListOutput | SolutionListing): vscode.TreeItemCollapsibleState {
-        if ("SolutionUniqueName" in model){
-            return vscode.TreeItemCollapsibleState.None;
+class SolutionComponentTreeItem extends vscode.TreeItem {
+    constructor(public readonly model: SolutionComponentGroup | SolutionComponentListing) {
+        super(SolutionComponentTreeItem.createLabel(model), "Components" in model
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None);
+        if ("Components" in model) {
+            this.contextValue = "SOLUTION_COMPONENT_GROUP";
+            this.iconPath = new vscode.ThemeIcon(model.IconId);
+            this.description = model.Components.length.toString();
+        } else {
+            const managedState = model.IsManaged === undefined
+                ? vscode.l10n.t("Unknown")
+                : model.IsManaged ? vscode.l10n.t("Managed") : vscode.l10n.t("Unmanaged");
+            this.contextValue = "SOLUTION_COMPONENT";
+            this.description = model.IsManaged === undefined ? model.ComponentTypeName : `${model.ComponentTypeName}, ${managedState}`;
+            this.tooltip = vscode.l10n.t(
+                {
+                    message: "Display Name: {0}\nSchema Name: {1}\nType: {2}\nManaged State: {3}",
+                    args: [model.DisplayName, model.SchemaName, model.ComponentTypeName, managedState],
+                    comment: [
+                        "This is a multi-line tooltip",
+                        "The {0} represents Solution Component's display name",
+                        "The {1} represents Solution Component's schema name",
+                        "The {2} represents Solution Component's type, e.g. Entity or WebResource",
+                        "The {3} represents whether the Solution Component is Managed or Unmanaged"
+                    ]
+                }
+            );
         }
-        return vscode.TreeItemCollapsibleState.Collapsed;
     }
+
+    private static createLabel(model: SolutionComponentGroup | SolutionComponentListing): string {
+        if ("Components" in model) {
+            return model.GroupName;
+        }
+        return model.DisplayName || model.SchemaName;
+    }
+}
+
+// Dataverse solution component type codes, see https://learn.microsoft.com/power-apps/developer/data-platform/reference/entities/solutioncomponent
+const componentGroupDefinitions: { componentTypes: number[], groupName: () => string, iconId: string }[] = [
+    { componentTypes: [1], groupName: () => vscode.l10n.t("Tables"), iconId: "table" },
+    { componentTypes: [66], groupName: () => vscode.l10n.t("PCF Controls"), iconId: "symbol-class" },
+    { componentTypes: [61], groupName: () => vscode.l10n.t("Web Resources"), iconId: "file-code" },
+    { componentTypes: [91], groupName: () => vscode.l10n.t("Plugin Assemblies"), iconId: "plug" },
+    { componentTypes: [29], groupName: () => vscode.l10n.t("Flows"), iconId: "zap" },
+    { componentTypes: [300], groupName: () => vscode.l10n.t("Canvas Apps"), iconId: "device-mobile" },
+];
+
+function groupSolutionComponents(components: SolutionComponentListing[]): SolutionComponentGroup[] {
+    const groups = componentGroupDefinitions.map(definition => ({
+        GroupName: definition.groupName(),
+        IconId: definition.iconId,
+        Components: components.filter(component => definition.componentTypes.includes(component.ComponentType))
+    }));
+    groups.push({
+        GroupName: vscode.l10n.t("Other Components"),
+        IconId: "symbol-misc",
+        Components: components.filter(component => !componentGroupDefinitions.some(definition => definition.componentTypes.includes(component.ComponentType)))
+    });
+    return groups.filter(group => group.Components.length > 0);
 }
@@ -0,0 +1,284 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from 'fs-extra';
+import * as vscode from 'vscode';
+import { QuickPickItem } from 'vscode';
+import { AuthCreateKind, AuthCreateParameters } from '../pac/PacTypes';
+import { MultiStepInput } from '../power-pages/create/utils/MultiStepInput';
+
+const cloudInstances = ["Public", "UsGov", "UsGovHigh", "UsGovDod", "China"];
+const guidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const tenantDomainPattern = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+const deviceCodePattern = /(https:\/\/\S+)\s.*?\bcode\s+([A-Z0-9-]+)/i;
+
+type AuthKindItem = QuickPickItem & { authKind: AuthCreateKind };
+
+// An item without a value asks for the value to be typed in on the following input box
+type ValueItem = QuickPickItem & { value?: string };
+
+type State = AuthCreateParameters & {
+    completed: boolean;
+};
+
+export function isInteractiveLoginSupported(): boolean {
+    // PAC Interactive Login works when the UI is running on the same machine
+    // as the extension (i.e. NOT remote), or the remote is WSL
+    return vscode.env.remoteName === undefined || vscode.env.remoteName === "wsl";
+}
+
+export type DeviceCodeInstructions = {
+    url: string;
+    code: string;
+}
+
+// Device code sign-in prints e.g. "To sign in, use a web browser to open the page https://microsoft.com/devicelogin and enter the code ABCD1234 to authenticate."
+export function parseDeviceCodeInstructions(line: string): DeviceCodeInstructions | undefined {
+    const match = deviceCodePattern.exec(line);
+    return match ? { url: match[1], code: match[2] } : undefined;
+}
+
+export async function getNewAuthProfileInputs(knownEnvironmentUrls: string[], interactiveLoginSupported: boolean): Promise<AuthCreateParameters | undefined> {
+    const title = vscode.l10n.t("New Auth Profile");
+
+    const kindItems = ([
+        {
+            authKind: "Interactive",
+            label: vscode.l10n.t("Interactive sign-in"),
+            detail: vscode.l10n.t("Sign in with your account in a browser window")
+        },
+        {
+            authKind: "DeviceCode",
+            label: vscode.l10n.t("Device code sign-in"),
+            detail: vscode.l10n.t("Sign in with your account on any device using a one-time code. Works in remote sessions and with MFA.")
+        },
+        {
+            authKind: "ClientSecret",
+            label: vscode.l10n.t("Service principal with client secret"),
+            detail: vscode.l10n.t("Sign in as an application registration using its client secret")
+        },
+        {
+            authKind: "Certificate",
+            label: vscode.l10n.t("Service principal with certificate"),
+            detail: vscode.l10n.t("Sign in as an application registration using a certificate file")
+        }
+    ] as AuthKindItem[]).filter(item => interactiveLoginSupported || item.authKind !== "Interactive");
+
+    function isServicePrincipal(state: Partial<State>): boolean {
+        return state.Kind === "ClientSecret" || state.Kind === "Certificate";
+    }
+
+    function totalSteps(state: Partial<State>): number {
+        switch (state.Kind) {
+            case "ClientSecret":
+                return 6;
+            case "Certificate":
+                return 7;
+            default:
+                return 4;
+        }
+    }
+
+    async function collectInputs() {
+        const state = { completed: false } as Partial<State>;
+        await MultiStepInput.run((input) => pickKind(input, state));
+        return state;
+    }
+
+    async function pickKind(input: MultiStepInput, state: Partial<State>) {
+        const pick = await input.showQuickPick({
+            title,
+            step: 1,
+            totalSteps: totalSteps(state),
+            placeholder: vscode.l10n.t("Select how you want to authenticate"),
+            items: kindItems,
+            activeItem: kindItems.find(item => item.authKind === state.Kind),
+        }) as AuthKindItem;
+        state.Kind = pick.authKind;
+        return (input: MultiStepInput) => pickEnvironment(input, state);
+    }
+
+    async function pickEnvironment(input: MultiStepInput, state: Partial<State>) {
+        const items: ValueItem[] = knownEnvironmentUrls.map(url => ({ label: url, value: url }));
+        if (!isServicePrincipal(state)) {
+            items.push({
+                label: vscode.l10n.t("No environment"),
+                detail: vscode.l10n.t("Create a universal profile that is not bound to an environment"),
+                value: ""
+            });
+        }
+        items.push({ label: vscode.l10n.t("Enter an environment URL...") });
+
+        const pick = await input.showQuickPick({
+            title,
+            step: 2,
+            totalSteps: totalSteps(state),
+            placeholder: vscode.l10n.t("Select the environment to connect to"),
+            items: items,
+            activeItem: items.find(item => item.value !== undefined && item.value === state.EnvironmentUrl),
+        }) as ValueItem;
+        if (pick.value === undefined) {
+            return (input: MultiStepInput) => inputEnvironmentUrl(input, state);
+        }
+        state.EnvironmentUrl = pick.value;
+        return (input: MultiStepInput) => pickCloud(input, state);
+    }
+
+    async function inputEnvironmentUrl(input: MultiStepInput, state: Partial<State>) {
+        state.EnvironmentUrl = await input.showInputBox({
+            title,
+            step: 2,
+            totalSteps: totalSteps(state),
+            value: state.EnvironmentUrl || "",
+            placeholder: "https://contoso.crm.dynamics.com",
+            prompt: vscode.l10n.t("The URL of the environment to connect to"),
+            validate: validateEnvironmentUrl,
+        });
+        return (input: MultiStepInput) => pickCloud(input, state);
+    }
+
+    async function pickCloud(input: MultiStepInput, state: Partial<State>) {
+        const items: QuickPickItem[] = cloudInstances.map(label => ({ label }));
+        const pick = await input.showQuickPick({
+            title,
+            step: 3,
+            totalSteps: totalSteps(state),
+            placeholder: vscode.l10n.t("Select the cloud instance to authenticate with"),
+            items: items,
+            activeItem: items.find(item => item.label === (state.Cloud || "Public")),
+        });
+        state.Cloud = pick.label;
+        return isServicePrincipal(state)
+            ? (input: MultiStepInput) => inputTenant(input, state)
+            : (input: MultiStepInput) => pickTenant(input, state);
+    }
+
+    async function pickTenant(input: MultiStepInput, state: Partial<State>) {
+        const items: ValueItem[] = [
+            { label: vscode.l10n.t("Home tenant of the signed-in account"), value: "" },
+            { label: vscode.l10n.t("Enter a tenant ID or domain...") }
+        ];
+        const pick = await input.showQuickPick({
+            title,
+            step: 4,
+            totalSteps: totalSteps(state),
+            placeholder: vscode.l10n.t("Select the tenant to sign in to"),
+            items: items,
+        }) as ValueItem;
+        if (pick.value === undefined) {
+            return (input: MultiStepInput) => inputTenant(input, state);
+        }
+        state.Tenant = pick.value;
+        state.completed = true;
+    }
+
+    async function inputTenant(input: MultiStepInput, state: Partial<State>) {
+        state.Tenant = await input.showInputBox({
+            title,
+            step: 4,
+            totalSteps: totalSteps(state),
+            value: state.Tenant || "",
+            placeholder: "contoso.onmicrosoft.com",
+            prompt: vscode.l10n.t("The ID (GUID) or domain name of the tenant"),
+            validate: validateTenant,
+        });
+        if (!isServicePrincipal(state)) {
+            state.completed = true;
+            return;
+        }
+        return (input: MultiStepInput) => inputApplicationId(input, state);
+    }
+
+    async function inputApplicationId(input: MultiStepInput, state: Partial<State>) {
+        state.ApplicationId = await input.showInputBox({
+            title,
+            step: 5,
+            totalSteps: totalSteps(state),
+            value: state.ApplicationId || "",
+            placeholder: "00000000-0000-0000-0000-000000000000",
+            prompt: vscode.l10n.t("The application (client) ID of the service principal"),
+            validate: validateApplicationId,
+        });
+        return state.Kind === "ClientSecret"
+            ? (input: MultiStepInput) => inputClientSecret(input, state)
+            : (input: MultiStepInput) => inputCertificatePath(input, state);
+    }
+
+    async function inputClientSecret(input: MultiStepInput, state: Partial<State>) {
+        state.ClientSecret = await input.showInputBox({
+            title,
+            step: 6,
+            totalSteps: totalSteps(state),
+            value: "",
+            placeholder: "",
+            prompt: vscode.l10n.t("The client secret of the service principal"),
+            password: true,
+            validate: async (value: string) => value ? undefined : vscode.l10n.t("Client secret cannot be empty."),
+        });
+        state.completed = true;
+    }
+
+    async function inputCertificatePath(input: MultiStepInput, state: Partial<State>) {
+        state.CertificatePath = await input.showInputBox({
+            title,
+            step: 6,
+            totalSteps: totalSteps(state),
+            value: state.CertificatePath || "",
+            placeholder: vscode.l10n.t("Path to a .pfx certificate file"),
+            prompt: vscode.l10n.t("The certificate file used to authenticate the service principal"),
+            validate: validateCertificatePath,
+        });
+        return (input: MultiStepInput) => inputCertificatePassword(input, state);
+    }
+
+    async function inputCertificatePassword(input: MultiStepInput, state: Partial<State>) {
+        state.CertificatePassword = await input.showInputBox({
+            title,
+            step: 7,
+            totalSteps: totalSteps(state),
+            value: "",
+            placeholder: "",
+            prompt: vscode.l10n.t("The password of the certificate file (leave empty if it has none)"),
+            password: true,
+            validate: async () => undefined,
+        });
+        state.completed = true;
+    }
+
+    async function validateEnvironmentUrl(value: string) {
+        try {
+            if (new URL(value).protocol === "https:") {
+                return;
+            }
+        } catch {
+            // fall through to the validation message
+        }
+        return vscode.l10n.t("Enter a valid https URL, e.g. https://contoso.crm.dynamics.com");
+    }
+
+    async function validateTenant(value: string) {
+        if (guidPattern.test(value) || tenantDomainPattern.test(value)) {
+            return;
+        }
+        return vscode.l10n.t("Enter a tenant ID (GUID) or a domain name, e.g. contoso.onmicrosoft.com");
+    }
+
+    async function validateApplicationId(value: string) {
+        if (guidPattern.test(value)) {
+            return;
+        }
+        return vscode.l10n.t("The application ID must be a GUID.");
+    }
+
+    async function validateCertificatePath(value: string) {
+        if (value && await fs.pathExists(value)) {
+            return;
+        }
+        return vscode.l10n.t("The certificate file does not exist.");
+    }
+
+    const state = await collectInputs();
+    return state.completed ? state as AuthCreateParameters : undefined;
+}
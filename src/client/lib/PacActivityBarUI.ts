@@ -5,6 +5,8 @@
 
 import * as vscode from 'vscode';
 import { PacWrapper } from '../pac/PacWrapper';
+import { watchActiveEnvironment } from './ActiveEnvironment';
+import { AdminEnvironmentTreeView } from './AdminEnvironmentTreeView';
 import { AuthTreeView } from './AuthPanelView';
 import { EnvAndSolutionTreeView } from './EnvAndSolutionTreeView';
 
@@ -12,8 +14,17 @@ export function RegisterPanels(pacWrapper: PacWrapper): vscode.Disposable[] {
     const authPanel = new AuthTreeView(() => pacWrapper.authList(), pacWrapper);
     const envAndSolutionPanel = new EnvAndSolutionTreeView(
         () => pacWrapper.orgList(),
+        () => pacWrapper.authList(),
         (environmentUrl) => pacWrapper.solutionListFromEnvironment(environmentUrl),
-        authPanel.onDidChangeTreeData);
+        (environmentUrl, solution) => pacWrapper.solutionComponentList(environmentUrl, solution),
+        authPanel.onDidChangeTreeData,
+        pacWrapper);
+    const adminEnvironmentPanel = new AdminEnvironmentTreeView(
+        () => pacWrapper.adminEnvironmentList(),
+        authPanel.onDidChangeTreeData,
+        pacWrapper);
 
-    return [authPanel, envAndSolutionPanel];
+    const activeEnvironmentWatcher = watchActiveEnvironment(authPanel.onDidChangeTreeData, () => pacWrapper.authList());
+
+    return [authPanel, envAndSolutionPanel, adminEnvironmentPanel, activeEnvironmentWatcher];
 }
@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as vscode from 'vscode';
+import { PacOutput } from '../pac/PacTypes';
+
+// Runs a long running pac operation behind a progress notification, echoing the pac output to the output channel so
+// that failures can be diagnosed beyond the returned status. Cancelling only stops pac from waiting for the service, so
+// operations that change an environment beyond repair, e.g. resetting it, are not cancellable.
+export async function runPacOperation(
+    outputChannel: vscode.OutputChannel,
+    title: string,
+    operation: (token: vscode.CancellationToken) => Promise<PacOutput>,
+    cancellable = true): Promise<boolean> {
+
+    outputChannel.appendLine(title);
+    let result: PacOutput | undefined;
+    let cancelled = false;
+    try {
+        result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: title, cancellable: cancellable },
+            async (_progress, token) => {
+                const output = await operation(token);
+                cancelled = token.isCancellationRequested;
+                return output;
+            });
+    } catch (error) {
+        outputChannel.appendLine((error as Error).message);
+    }
+
+    result?.Information?.forEach(line => outputChannel.appendLine(line));
+    result?.Errors?.forEach(line => outputChannel.appendLine(line));
+
+    if (result && result.Status === "Success") {
+        vscode.window.showInformationMessage(vscode.l10n.t({
+            message: "{0} completed successfully.",
+            args: [title],
+            comment: ["{0} represents the title of the pac operation, e.g. 'Exporting solution MySolution'"]
+        }));
+        return true;
+    }
+
+    if (cancelled) {
+        vscode.window.showWarningMessage(vscode.l10n.t({
+            message: "{0} was cancelled. The operation may still be running in the environment.",
+            args: [title],
+            comment: ["{0} represents the title of the pac operation, e.g. 'Exporting solution MySolution'"]
+        }));
+        return false;
+    }
+
+    const showOutput = vscode.l10n.t("Show Output");
+    const selection = await vscode.window.showErrorMessage(
+        vscode.l10n.t({
+            message: "{0} failed: {1}",
+            args: [title, result?.Errors?.join(" ") ?? ""],
+            comment: ["{0} represents the title of the pac operation, {1} represents the error messages returned by pac"]
+        }),
+        showOutput);
+    if (selection === showOutput) {
+        outputChannel.show();
+    }
+    return false;
+}
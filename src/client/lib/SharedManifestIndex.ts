@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { LanguageClient } from "vscode-languageclient/node";
+import { findSiteFolders, getSiteManifest, onWatchedFileChanged, setActiveEnvironment } from "../../common/ManifestIndex";
+import { ISiteManifestParams, SITE_MANIFEST_NOTIFICATION } from "../../common/SiteManifestNotification";
+import { getActiveEnvironmentUrl, onDidChangeActiveEnvironment } from "./ActiveEnvironment";
+
+// Downloading a site changes many files at once, so its manifest is read and sent once they have settled
+const SEND_DELAY_MS = 500;
+
+const languageClients: LanguageClient[] = [];
+const changedPortalConfigFolders = new Set<string>();
+let sendTimer: NodeJS.Timeout | undefined;
+let watcher: vscode.Disposable | undefined;
+
+function getWorkspacePortalConfigFolders(): string[] {
+    const workspaceRootFolders = (vscode.workspace.workspaceFolders ?? []).map(folder => ({ uri: folder.uri.toString(), name: folder.name }));
+    return findSiteFolders(workspaceRootFolders).map(siteFolder => path.join(siteFolder, ".portalconfig"));
+}
+
+function sendSiteManifests(clients: LanguageClient[], portalConfigFolders: string[]): void {
+    portalConfigFolders.forEach(portalConfigFolder => {
+        const params: ISiteManifestParams = {
+            portalConfigFolder,
+            manifest: fs.existsSync(portalConfigFolder) ? getSiteManifest(portalConfigFolder) : null
+        };
+        clients.forEach(client => client.sendNotification(SITE_MANIFEST_NOTIFICATION, params));
+    });
+}
+
+function scheduleSiteManifests(portalConfigFolders: string[]): void {
+    portalConfigFolders.forEach(portalConfigFolder => changedPortalConfigFolders.add(portalConfigFolder));
+    if (sendTimer) {
+        clearTimeout(sendTimer);
+    }
+    sendTimer = setTimeout(() => {
+        sendTimer = undefined;
+        const changedFolders = [...changedPortalConfigFolders];
+        changedPortalConfigFolders.clear();
+        sendSiteManifests(languageClients, changedFolders);
+    }, SEND_DELAY_MS);
+}
+
+// Watches the files the index is built from, the workspace folders and the active environment for all language clients
+function watchManifestIndex(): vscode.Disposable {
+    setActiveEnvironment(getActiveEnvironmentUrl() ?? null);
+    const onFileChanged = (uri: vscode.Uri) => {
+        const portalConfigFolder = onWatchedFileChanged(uri.toString());
+        if (portalConfigFolder) {
+            scheduleSiteManifests([portalConfigFolder]);
+        }
+    };
+    // The languages of localized records are read from the files of content snippets and web pages
+    const fileWatchers = ["**/.portalconfig/**", "**/{content-snippets,web-pages}/**"]
+        .map(pattern => vscode.workspace.createFileSystemWatcher(pattern));
+    return vscode.Disposable.from(
+        ...fileWatchers,
+        ...fileWatchers.flatMap(fileWatcher => [fileWatcher.onDidCreate(onFileChanged), fileWatcher.onDidChange(onFileChanged), fileWatcher.onDidDelete(onFileChanged)]),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => scheduleSiteManifests(getWorkspacePortalConfigFolders())),
+        onDidChangeActiveEnvironment(environmentUrl => {
+            if (setActiveEnvironment(environmentUrl ?? null)) {
+                scheduleSiteManifests(getWorkspacePortalConfigFolders());
+            }
+        })
+    );
+}
+
+/**
+ * Sends the manifest index of the sites in the workspace to a language server once it is ready, and every part of it that
+ * is read again later on. The index is built once by the extension for both the HTML and the YAML server.
+ */
+export function shareManifestIndex(client: LanguageClient): vscode.Disposable {
+    client.onReady().then(() => {
+        watcher = watcher ?? watchManifestIndex();
+        languageClients.push(client);
+        sendSiteManifests([client], getWorkspacePortalConfigFolders());
+    });
+    return new vscode.Disposable(() => {
+        const clientIndex = languageClients.indexOf(client);
+        if (clientIndex >= 0) {
+            languageClients.splice(clientIndex, 1);
+        }
+        if (languageClients.length === 0) {
+            watcher?.dispose();
+            watcher = undefined;
+        }
+    });
+}
@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { IPacCommandOptions, IPacInterop, PacArguments } from "./PacWrapper";
+
+// Read-only results (e.g. auth list, org list) are reused for this long unless invalidated earlier
+const DEFAULT_CACHE_DURATION_MS = 30 * 1000;
+
+export enum PacCommandPriority {
+    // Refreshes of the tree views, which nobody is waiting on directly
+    Background = 0,
+    // Commands the user explicitly asked for, which jump ahead of queued background work
+    User = 1
+}
+
+export interface IPacScheduleOptions extends IPacCommandOptions {
+    priority: PacCommandPriority;
+    // Read-only commands may share an in-flight request and be served from the cache
+    cacheable?: boolean;
+    // Commands that change what the cached reads return, e.g. auth select or solution import, drop them once they ran
+    invalidatesCache?: boolean;
+}
+
+type ScheduledCommand = {
+    readonly args: PacArguments;
+    readonly options: IPacScheduleOptions;
+    resolve(result: string): void;
+    reject(error: Error): void;
+}
+
+type CachedResult = {
+    readonly result: string;
+    readonly expiresAt: number;
+}
+
+/**
+ * The interactive pac process answers one command at a time over a single stdin/stdout pair,
+ * so every caller goes through this queue rather than writing to the process directly.
+ */
+export class PacCommandScheduler {
+    private readonly queue: ScheduledCommand[] = [];
+    private readonly inFlight = new Map<string, Promise<string>>();
+    private readonly cache = new Map<string, CachedResult>();
+    private processing = false;
+
+    public constructor(
+        private readonly pacInterop: IPacInterop,
+        private readonly cacheDurationMs = DEFAULT_CACHE_DURATION_MS,
+        private readonly now: () => number = Date.now) {
+    }
+
+    public schedule(args: PacArguments, options: IPacScheduleOptions): Promise<string> {
+        if (!options.cacheable) {
+            return this.enqueue(args, options);
+        }
+
+        const key = JSON.stringify(args.Arguments);
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > this.now()) {
+            return Promise.resolve(cached.result);
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending;
+        }
+
+        const request = this.enqueue(args, options)
+            .then(result => {
+                if (PacCommandScheduler.isSuccess(result)) {
+                    this.cache.set(key, { result: result, expiresAt: this.now() + this.cacheDurationMs });
+                }
+                return result;
+            })
+            .finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, request);
+        return request;
+    }
+
+    public invalidateCache(): void {
+        this.cache.clear();
+    }
+
+    private enqueue(args: PacArguments, options: IPacScheduleOptions): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const command: ScheduledCommand = { args: args, options: options, resolve: resolve, reject: reject };
+
+            // A command cancelled while still waiting in the queue never needs to reach pac
+            const cancellation = options.cancellationToken?.onCancellationRequested(() => {
+                const index = this.queue.indexOf(command);
+                if (index >= 0) {
+                    this.queue.splice(index, 1);
+                    reject(new Error(`pac ${args.Arguments.slice(0, 2).join(' ')} was cancelled.`));
+                }
+            });
+            command.resolve = result => { cancellation?.dispose(); resolve(result); };
+            command.reject = error => { cancellation?.dispose(); reject(error); };
+
+            this.queue.push(command);
+            this.processQueue();
+        });
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+
+        this.processing = true;
+        try {
+            let command: ScheduledCommand | undefined;
+            while ((command = this.dequeue())) {
+                try {
+                    const result = await this.pacInterop.executeCommand(command.args, command.options);
+                    if (command.options.invalidatesCache) {
+                        this.invalidateCache();
+                    }
+                    command.resolve(result);
+                } catch (error) {
+                    command.reject(error as Error);
+                }
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    // Highest priority first, first-come first-served within the same priority
+    private dequeue(): ScheduledCommand | undefined {
+        let next = -1;
+        this.queue.forEach((command, index) => {
+            if (next < 0 || command.options.priority > this.queue[next].options.priority) {
+                next = index;
+            }
+        });
+        return next >= 0 ? this.queue.splice(next, 1)[0] : undefined;
+    }
+
+    private static isSuccess(result: string): boolean {
+        try {
+            return JSON.parse(result)?.Status === "Success";
+        } catch {
+            return false;
+        }
+    }
+}
@@ -27,12 +27,33 @@ export type PacAuthListOutput = PacOutput & {
     Results: AuthProfileListing[];
 }
 
+export type AuthCreateKind = "Interactive" | "DeviceCode" | "ClientSecret" | "Certificate";
+
+export type AuthCreateParameters = {
+    Kind: AuthCreateKind;
+    EnvironmentUrl?: string;
+    Cloud?: string;
+    Tenant?: string;
+    ApplicationId?: string;
+    ClientSecret?: string;
+    CertificatePath?: string;
+    CertificatePassword?: string;
+}
+
 export type AdminEnvironmentListing = {
     DisplayName: string;
     EnvironmentId: string;
     EnvironmentUrl: string;
     Type: string;
     OrganizationId: string;
+    Region: string;
+}
+
+export type AdminEnvironmentCreateParameters = {
+    Name: string;
+    Type: string;
+    Region: string;
+    Domain?: string;
 }
 
 export type PacAdminListOutput = PacOutput & {
@@ -49,6 +70,25 @@ export type PacSolutionListOutput = PacOutput & {
     Results: SolutionListing[];
 }
 
+export type SolutionComponentListing = {
+    ObjectId: string;
+    ComponentType: number;
+    ComponentTypeName: string;
+    SchemaName: string;
+    DisplayName: string;
+    // Not known for components read from the manifest of a solution
+    IsManaged?: boolean;
+}
+
+export type PacSolutionComponentListOutput = PacOutput & {
+    Results: SolutionComponentListing[];
+}
+
+// The records a FetchXML query returns, by the logical names of their attributes
+export type PacOrgFetchOutput = PacOutput & {
+    Results?: Record<string, unknown>[];
+}
+
 export type OrgListOutput = {
     FriendlyName: string,
     OrganizationId: string,
@@ -8,26 +8,63 @@ import * as path from "path";
 import * as readline from "readline";
 import * as fs from "fs-extra";
 import { ChildProcessWithoutNullStreams, spawn } from "child_process";
-import { BlockingQueue } from "../../common/utilities/BlockingQueue";
+import { glob } from "glob";
 import { ITelemetry } from "../telemetry/ITelemetry";
-import { PacOutput, PacAdminListOutput, PacAuthListOutput, PacSolutionListOutput, PacOrgListOutput } from "./PacTypes";
+import { PacOutput, AdminEnvironmentCreateParameters, AuthCreateParameters, PacAdminListOutput, PacAuthListOutput, PacSolutionListOutput, PacOrgListOutput, PacSolutionComponentListOutput, PacOrgFetchOutput, SolutionListing } from "./PacTypes";
 import { v4 } from "uuid";
+import { IPacScheduleOptions, PacCommandPriority, PacCommandScheduler } from "./PacCommandScheduler";
+import { readSolutionComponentSummaries, solutionComponentSummaryFetchXml, solutionIdFetchXml } from "./SolutionComponentSummary";
+import { readSolutionManifestComponents } from "./SolutionManifest";
+
+// Default time we wait for a single pac command to answer before treating the process as hung
+const DEFAULT_COMMAND_TIMEOUT_MS = 2 * 60 * 1000;
+// Solution transfers and interactive logins can legitimately take a long time
+const LONG_RUNNING_COMMAND_TIMEOUT_MS = 30 * 60 * 1000;
+const STDERR_LINES_TO_KEEP = 20;
+// Values of these arguments never end up in error messages shown to the user
+const SECRET_ARGUMENTS = ["--clientSecret", "--certificatePassword", "--password"];
 
 export interface IPacWrapperContext {
     readonly globalStorageLocalPath: string;
     readonly telemetry: ITelemetry;
     readonly automationAgent: string;
     IsTelemetryEnabled(): boolean;
+    showPacCommandFailedError(err: string): void;
+}
+
+// Structurally compatible with vscode.CancellationToken, without taking a dependency on the vscode module
+export interface IPacCancellationToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface IPacCommandOptions {
+    timeoutMs?: number;
+    cancellationToken?: IPacCancellationToken;
+    // Receives the lines pac prints while working on the command (e.g. device code sign-in instructions)
+    onOutput?: (line: string) => void;
 }
 
 export interface IPacInterop {
-    executeCommand(args: PacArguments): Promise<string>;
+    executeCommand(args: PacArguments, options?: IPacCommandOptions): Promise<string>;
     exit(): void;
 }
 
+// pac answers commands in the order they were written and does not echo any identifier, so the
+// answers are matched to the commands by their position in the queue
+type PendingCommand = {
+    readonly args: PacArguments;
+    readonly onOutput?: (line: string) => void;
+    complete(result?: string, error?: Error): void;
+}
+
 export class PacInterop implements IPacInterop {
     private _proc : ChildProcessWithoutNullStreams | undefined;
-    private outputQueue = new BlockingQueue<string>();
+    private _procStarting : Promise<ChildProcessWithoutNullStreams> | undefined;
+    // Commands written to stdin, in the order pac will answer them
+    private readonly pendingCommands : PendingCommand[] = [];
+    private readonly stderrLines : string[] = [];
+    private restartCount = 0;
     private tempWorkingDirectory : string;
     private pacExecutablePath : string;
 
@@ -52,103 +89,458 @@ export class PacInterop implements IPacInterop {
         }
     }
 
-    private async proc() : Promise<ChildProcessWithoutNullStreams> {
-        if (!(this._proc)) {
-            this.context.telemetry.sendTelemetryEvent('InternalPacProcessStarting');
+    private proc() : Promise<ChildProcessWithoutNullStreams> {
+        if (!this._procStarting) {
+            this._procStarting = this.startProc();
+        }
+        return this._procStarting;
+    }
+
+    private startProc() : Promise<ChildProcessWithoutNullStreams> {
+        if (this.restartCount > 0) {
+            this.context.telemetry.sendTelemetryEvent('InternalPacProcessRestarting', undefined, { restartCount: this.restartCount });
+        }
+        this.context.telemetry.sendTelemetryEvent('InternalPacProcessStarting');
 
-            const env : NodeJS.ProcessEnv = {...process.env, 'PP_TOOLS_AUTOMATION_AGENT': this.context.automationAgent };
+        const env : NodeJS.ProcessEnv = {...process.env, 'PP_TOOLS_AUTOMATION_AGENT': this.context.automationAgent };
 
-            // If the VS Code telemetry is disabled, disable telemetry on the PAC backing the Extension's UI
-            if (!this.context.IsTelemetryEnabled()) {
-                env['PP_TOOLS_TELEMETRY_OPTOUT'] = 'true';
-            }
+        // If the VS Code telemetry is disabled, disable telemetry on the PAC backing the Extension's UI
+        if (!this.context.IsTelemetryEnabled()) {
+            env['PP_TOOLS_TELEMETRY_OPTOUT'] = 'true';
+        }
 
-            // Compatability for users on M1 Macs with .NET 6.0 installed - permit pac and pacTelemetryUpload
-            // to roll up to 6.0 if 5.0 is not found on the system.
-            if (os.platform() === 'darwin' && os.version().includes('ARM64')) {
-                env['DOTNET_ROLL_FORWARD'] = 'Major';
+        // Compatability for users on M1 Macs with .NET 6.0 installed - permit pac and pacTelemetryUpload
+        // to roll up to 6.0 if 5.0 is not found on the system.
+        if (os.platform() === 'darwin' && os.version().includes('ARM64')) {
+            env['DOTNET_ROLL_FORWARD'] = 'Major';
+        }
+
+        const proc = spawn(this.pacExecutablePath, ["--non-interactive"], {
+            cwd: this.tempWorkingDirectory,
+            env: env
+            });
+        this._proc = proc;
+
+        return new Promise((resolve, reject) => {
+            let versionReceived = false;
+
+            const lineReader = readline.createInterface({ input: proc.stdout });
+            lineReader.on('line', (line: string) => {
+                if (!versionReceived) {
+                    // The first output is the PAC Version info
+                    versionReceived = true;
+                    this.context.telemetry.sendTelemetryEvent('InternalPacProcessStarted');
+                    resolve(proc);
+                } else {
+                    this.onOutputLine(proc, line);
+                }
+            });
+
+            const errorReader = readline.createInterface({ input: proc.stderr });
+            errorReader.on('line', (line: string) => {
+                this.stderrLines.push(line);
+                if (this.stderrLines.length > STDERR_LINES_TO_KEEP) {
+                    this.stderrLines.shift();
+                }
+            });
+
+            const onTerminated = (reason: string) => {
+                // Read stderr before the process is reset, which forgets it
+                const startError = new Error(this.withStderr(`The pac CLI process failed to start: ${reason}`));
+                this.onProcTerminated(proc, reason);
+                if (!versionReceived) {
+                    reject(startError);
+                }
+            };
+            proc.on('error', (error: Error) => onTerminated(error.message));
+            proc.on('exit', (code: number | null, signal: string | null) => onTerminated(`exit code ${code}, signal ${signal}`));
+        });
+    }
+
+    private onOutputLine(proc: ChildProcessWithoutNullStreams, line: string): void {
+        if (proc !== this._proc) {
+            // Output of a process we have already abandoned
+            return;
+        }
+
+        // Every answer of the interactive pac is a single JSON object. Anything else (e.g. a stray
+        // warning printed by the runtime) must not be handed to a caller as its response.
+        if (!PacInterop.isCommandResponse(line)) {
+            const onOutput = this.pendingCommands[0]?.onOutput;
+            if (onOutput) {
+                onOutput(line);
+            } else {
+                this.context.telemetry.sendTelemetryEvent('InternalPacUnexpectedOutput');
             }
+            return;
+        }
+
+        const command = this.pendingCommands.shift();
+        // What pac printed to stderr so far belongs to this command, and must not end up in the errors of later ones
+        this.stderrLines.length = 0;
+        if (command) {
+            command.complete(line);
+        } else {
+            this.context.telemetry.sendTelemetryEvent('InternalPacUnexpectedOutput', { reason: 'noPendingCommand' });
+        }
+    }
+
+    private static describeCommand(args: PacArguments): string {
+        const words = args.Arguments.map((arg, index) =>
+            index > 0 && SECRET_ARGUMENTS.includes(args.Arguments[index - 1]) ? "***" : arg);
+        return `pac ${words.join(' ')}`;
+    }
+
+    private static isCommandResponse(line: string): boolean {
+        try {
+            const parsed = JSON.parse(line);
+            return !!parsed && typeof parsed === 'object' && 'Status' in parsed;
+        } catch {
+            return false;
+        }
+    }
+
+    private onProcTerminated(proc: ChildProcessWithoutNullStreams, reason: string): void {
+        if (proc !== this._proc) {
+            // We stopped this process ourselves, and have already cleaned up after it
+            return;
+        }
 
-            this._proc = spawn(this.pacExecutablePath, ["--non-interactive"], {
-                cwd: this.tempWorkingDirectory,
-                env: env
-                });
+        this.context.telemetry.sendTelemetryErrorEvent('InternalPacProcessExited', { reason: reason });
+        this.resetProc(new Error(this.withStderr(`The pac CLI process exited unexpectedly (${reason}).`)));
+    }
 
-            const lineReader = readline.createInterface({ input: this._proc.stdout });
-            lineReader.on('line', (line: string) => { this.outputQueue.enqueue(line); });
+    // Forgets the current process, so that the next command starts a new one, and fails every command still waiting on it
+    private resetProc(error: Error): ChildProcessWithoutNullStreams | undefined {
+        const proc = this._proc;
+        this._proc = undefined;
+        this._procStarting = undefined;
+        this.restartCount++;
+        this.stderrLines.length = 0;
+
+        const commands = this.pendingCommands.splice(0, this.pendingCommands.length);
+        commands.forEach(command => command.complete(undefined, error));
+        return proc;
+    }
 
-            // Grab the first output, which will be the PAC Version info
-            await this.outputQueue.dequeue();
-            this.context.telemetry.sendTelemetryEvent('InternalPacProcessStarted');
+    // pac has no way to abort a running command, and its late answer would otherwise be delivered
+    // to the next caller, so an abandoned command takes the process down with it.
+    private abandonCommand(command: PendingCommand, reason: string, error: Error): void {
+        if (!this.pendingCommands.includes(command)) {
+            return;
         }
 
-        return this._proc;
+        this.context.telemetry.sendTelemetryErrorEvent('InternalPacCommandAbandoned', { reason: reason, command: command.args.Arguments.slice(0, 2).join(' ') });
+        this.pendingCommands.splice(this.pendingCommands.indexOf(command), 1);
+        command.complete(undefined, error);
+
+        const proc = this.resetProc(new Error(`The pac CLI process was restarted because an earlier command was ${reason}.`));
+        proc?.kill();
     }
 
-    public async executeCommand(args: PacArguments): Promise<string> {
-        const command = JSON.stringify(args) + "\n";
-        (await this.proc()).stdin.write(command);
+    private withStderr(message: string): string {
+        return this.stderrLines.length > 0
+            ? `${message}\n${this.stderrLines.join('\n')}`
+            : message;
+    }
+
+    public async executeCommand(args: PacArguments, options?: IPacCommandOptions): Promise<string> {
+        const commandText = PacInterop.describeCommand(args);
+        const cancellationToken = options?.cancellationToken;
+        const proc = await this.proc();
+        if (cancellationToken?.isCancellationRequested) {
+            throw new Error(`${commandText} was cancelled.`);
+        }
 
-        const result = await this.outputQueue.dequeue();
-        return result;
+        return new Promise<string>((resolve, reject) => {
+            const timeoutMs = options?.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+            const disposables: { dispose(): void }[] = [];
+            const command: PendingCommand = {
+                args: args,
+                onOutput: options?.onOutput,
+                complete: (result?: string, error?: Error) => {
+                    clearTimeout(timeout);
+                    disposables.forEach(d => d.dispose());
+                    if (error) {
+                        reject(error);
+                    } else {
+                        resolve(result as string);
+                    }
+                }
+            };
+
+            const timeout = setTimeout(
+                () => this.abandonCommand(command, 'timedOut', new Error(this.withStderr(`${commandText} did not respond within ${timeoutMs / 1000} seconds.`))),
+                timeoutMs);
+            if (cancellationToken) {
+                disposables.push(cancellationToken.onCancellationRequested(
+                    () => this.abandonCommand(command, 'cancelled', new Error(`${commandText} was cancelled.`))));
+            }
+
+            this.pendingCommands.push(command);
+            proc.stdin.write(JSON.stringify(args) + "\n");
+        });
     }
 
     public async exit() : Promise<void> {
-        (await this.proc()).stdin.write(JSON.stringify(new PacArguments("exit")));
+        const proc = this.resetProc(new Error("The pac CLI process is exiting."));
+        proc?.stdin.write(JSON.stringify(new PacArguments("exit")) + "\n");
     }
 }
 
+type PacWrapperCommandOptions = IPacCommandOptions & Partial<IPacScheduleOptions> & {
+    // Callers that tell the user about failures themselves, e.g. through runPacOperation, turn this off
+    showFailure?: boolean;
+};
+
+// Listings backing the tree views: refreshed in the background, shared between callers and briefly cached
+const LIST_COMMAND_OPTIONS: IPacScheduleOptions = { priority: PacCommandPriority.Background, cacheable: true };
+
+// Commands that change auth profiles, environments or solutions, after which the cached listings are out of date
+const CHANGE_COMMAND_OPTIONS: PacWrapperCommandOptions = { invalidatesCache: true };
+
+// Long running operations run behind a progress notification that reports their outcome. Most change the
+// environment; exports and clones only read it.
+const operationOptions = (cancellationToken?: IPacCancellationToken, invalidatesCache = true): PacWrapperCommandOptions =>
+    ({ timeoutMs: LONG_RUNNING_COMMAND_TIMEOUT_MS, cancellationToken: cancellationToken, showFailure: false, invalidatesCache: invalidatesCache });
+
 export class PacWrapper {
+    private readonly scheduler: PacCommandScheduler;
+    // Component listings by environment, solution and version, which take a while to read
+    private readonly solutionComponentListings = new Map<string, Promise<PacSolutionComponentListOutput>>();
+
     public constructor(private readonly context: IPacWrapperContext, private readonly pacInterop: IPacInterop) {
+        this.scheduler = new PacCommandScheduler(pacInterop);
     }
 
-    private async executeCommandAndParseResults<T>(args: PacArguments): Promise<T> {
-        const result = await this.pacInterop.executeCommand(args);
-        const parsed : T = JSON.parse(result);
-        return parsed;
+    private async executeCommandAndParseResults<T extends PacOutput>(args: PacArguments, options?: PacWrapperCommandOptions): Promise<T> {
+        const priority = options?.priority ?? PacCommandPriority.User;
+        try {
+            const result = await this.scheduler.schedule(args, { ...options, priority: priority });
+            const parsed : T = JSON.parse(result);
+            return parsed;
+        } catch (error) {
+            // Hand callers an output they already know how to handle. Only commands the user asked for are worth a
+            // notification: background refreshes would show one on every poll, e.g. while offline.
+            const message = (error as Error).message;
+            if (priority === PacCommandPriority.User && options?.showFailure !== false && !options?.cancellationToken?.isCancellationRequested) {
+                this.context.showPacCommandFailedError(message);
+            }
+            return { Status: "Failure", Errors: [message], Information: [] } as PacOutput as T;
+        } finally {
+            if (options?.invalidatesCache) {
+                this.solutionComponentListings.clear();
+            }
+        }
     }
 
     public async authClear(): Promise<PacOutput> {
-        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "clear"));
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "clear"), CHANGE_COMMAND_OPTIONS);
     }
 
     public async authList(): Promise<PacAuthListOutput> {
-        return this.executeCommandAndParseResults<PacAuthListOutput>(new PacArguments("auth", "list"));
+        return this.executeCommandAndParseResults<PacAuthListOutput>(new PacArguments("auth", "list"), LIST_COMMAND_OPTIONS);
     }
 
-    public async authCreateNewAuthProfile(): Promise<PacAuthListOutput> {
+    public async authCreateNewAuthProfile(parameters?: AuthCreateParameters, onOutput?: (line: string) => void): Promise<PacAuthListOutput> {
+        const args = ["auth", "create"];
+        if (parameters?.EnvironmentUrl) {
+            args.push("--environment", parameters.EnvironmentUrl);
+        }
+        if (parameters?.Cloud) {
+            args.push("--cloud", parameters.Cloud);
+        }
+        if (parameters?.Tenant) {
+            args.push("--tenant", parameters.Tenant);
+        }
+        switch (parameters?.Kind) {
+            case "DeviceCode":
+                args.push("--deviceCode");
+                break;
+            case "ClientSecret":
+                args.push("--applicationId", parameters.ApplicationId ?? "", "--clientSecret", parameters.ClientSecret ?? "");
+                break;
+            case "Certificate":
+                args.push("--applicationId", parameters.ApplicationId ?? "", "--certificateDiskPath", parameters.CertificatePath ?? "");
+                if (parameters.CertificatePassword) {
+                    args.push("--certificatePassword", parameters.CertificatePassword);
+                }
+                break;
+        }
         return this.executeCommandAndParseResults<PacAuthListOutput>(
-            new PacArguments("auth", "create"));
+            new PacArguments(...args), { timeoutMs: LONG_RUNNING_COMMAND_TIMEOUT_MS, onOutput: onOutput, showFailure: false, invalidatesCache: true });
     }
 
     public async authSelectByIndex(index: number): Promise<PacOutput>{
-        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "select", "--index", index.toString()))
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "select", "--index", index.toString()), CHANGE_COMMAND_OPTIONS)
     }
 
     public async authDeleteByIndex(index: number): Promise<PacOutput>{
-        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "delete", "--index", index.toString()))
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "delete", "--index", index.toString()), CHANGE_COMMAND_OPTIONS)
     }
 
     public async authNameByIndex(index: number, name: string): Promise<PacOutput>{
-        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "name", "--index", index.toString(), "--name", name))
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("auth", "name", "--index", index.toString(), "--name", name), CHANGE_COMMAND_OPTIONS)
     }
 
-    // currently not called from anywhere
     public async adminEnvironmentList(): Promise<PacAdminListOutput> {
-        return this.executeCommandAndParseResults<PacAdminListOutput>(new PacArguments("admin", "list"));
+        return this.executeCommandAndParseResults<PacAdminListOutput>(new PacArguments("admin", "list"), LIST_COMMAND_OPTIONS);
+    }
+
+    public async adminEnvironmentCreate(parameters: AdminEnvironmentCreateParameters, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        const args = ["admin", "create", "--name", parameters.Name, "--type", parameters.Type, "--region", parameters.Region];
+        if (parameters.Domain) {
+            args.push("--domain", parameters.Domain);
+        }
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments(...args),
+            operationOptions(cancellationToken));
+    }
+
+    public async adminEnvironmentCopy(sourceEnvironmentId: string, targetEnvironmentId: string, fullCopy: boolean, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("admin", "copy",
+            "--source-env", sourceEnvironmentId,
+            "--target-env", targetEnvironmentId,
+            "--type", fullCopy ? "FullCopy" : "MinimalCopy"),
+            operationOptions(cancellationToken));
+    }
+
+    public async adminEnvironmentBackup(environmentId: string, label: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("admin", "backup",
+            "--environment", environmentId,
+            "--label", label),
+            operationOptions(cancellationToken));
+    }
+
+    // selectedBackup is either 'latest' or the timestamp of a backup of the source environment
+    public async adminEnvironmentRestore(sourceEnvironmentId: string, targetEnvironmentId: string, selectedBackup: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("admin", "restore",
+            "--source-env", sourceEnvironmentId,
+            "--target-env", targetEnvironmentId,
+            "--selected-backup", selectedBackup),
+            operationOptions(cancellationToken));
+    }
+
+    public async adminEnvironmentReset(environmentId: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("admin", "reset", "--environment", environmentId),
+            operationOptions(cancellationToken));
+    }
+
+    public async adminEnvironmentDelete(environmentId: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("admin", "delete", "--environment", environmentId),
+            operationOptions(cancellationToken));
     }
 
     // currently not called from anywhere
     public async solutionList(): Promise<PacSolutionListOutput> {
-        return this.executeCommandAndParseResults<PacSolutionListOutput>(new PacArguments("solution", "list"));
+        return this.executeCommandAndParseResults<PacSolutionListOutput>(new PacArguments("solution", "list"), LIST_COMMAND_OPTIONS);
     }
 
     public async solutionListFromEnvironment(environmentUrl: string): Promise<PacSolutionListOutput> {
-        return this.executeCommandAndParseResults<PacSolutionListOutput>(new PacArguments("solution", "list", "--environment", environmentUrl));
+        return this.executeCommandAndParseResults<PacSolutionListOutput>(new PacArguments("solution", "list", "--environment", environmentUrl), LIST_COMMAND_OPTIONS);
+    }
+
+    /**
+     * Lists the components of a solution from their summaries in the environment, or else from the manifest of a
+     * clone of the solution, e.g. with pac versions that cannot run FetchXML. Managed solutions cannot be cloned.
+     * Listings are kept per solution version, until a command changes something.
+     */
+    public async solutionComponentList(environmentUrl: string, solution: SolutionListing): Promise<PacSolutionComponentListOutput> {
+        const key = JSON.stringify([environmentUrl, solution.SolutionUniqueName, solution.VersionNumber]);
+        const cachedListing = this.solutionComponentListings.get(key);
+        if (cachedListing) {
+            return cachedListing;
+        }
+        const listing = this.fetchSolutionComponents(environmentUrl, solution.SolutionUniqueName)
+            .then(output => output.Status === "Success" ? output : this.readClonedSolutionComponents(environmentUrl, solution.SolutionUniqueName));
+        this.solutionComponentListings.set(key, listing);
+        listing.then(output => {
+            if (output.Status !== "Success" && this.solutionComponentListings.get(key) === listing) {
+                this.solutionComponentListings.delete(key);
+            }
+        });
+        return listing;
+    }
+
+    public async orgFetch(environmentUrl: string, fetchXml: string): Promise<PacOrgFetchOutput> {
+        return this.executeCommandAndParseResults<PacOrgFetchOutput>(new PacArguments("org", "fetch",
+            "--environment", environmentUrl,
+            "--xml", fetchXml), { priority: PacCommandPriority.Background });
+    }
+
+    private async fetchSolutionComponents(environmentUrl: string, solutionName: string): Promise<PacSolutionComponentListOutput> {
+        const solutionOutput = await this.orgFetch(environmentUrl, solutionIdFetchXml(solutionName));
+        const solutionId = solutionOutput.Status === "Success" && Array.isArray(solutionOutput.Results) ? solutionOutput.Results[0]?.solutionid : undefined;
+        if (typeof solutionId !== "string") {
+            return { ...solutionOutput, Status: "Failure", Results: [] };
+        }
+        const summaryOutput = await this.orgFetch(environmentUrl, solutionComponentSummaryFetchXml(solutionId));
+        return summaryOutput.Status === "Success" && Array.isArray(summaryOutput.Results)
+            ? { ...summaryOutput, Results: readSolutionComponentSummaries(summaryOutput.Results) }
+            : { ...summaryOutput, Status: "Failure", Results: [] };
+    }
+
+    private async readClonedSolutionComponents(environmentUrl: string, solutionName: string): Promise<PacSolutionComponentListOutput> {
+        const cloneDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "pac-solution-"));
+        try {
+            const cloneOutput = await this.executeCommandAndParseResults<PacOutput>(new PacArguments("solution", "clone",
+                "--environment", environmentUrl,
+                "--name", solutionName,
+                "--outputDirectory", cloneDirectory), { priority: PacCommandPriority.Background, timeoutMs: LONG_RUNNING_COMMAND_TIMEOUT_MS });
+            if (cloneOutput.Status !== "Success") {
+                return { ...cloneOutput, Results: [] };
+            }
+            const manifestFile = glob.sync("**/Other/Solution.xml", { cwd: cloneDirectory, absolute: true, nocase: true, nodir: true })[0];
+            if (!manifestFile) {
+                return { ...cloneOutput, Status: "Failure", Errors: [`No Other/Solution.xml was found in the clone of ${solutionName}.`], Results: [] };
+            }
+            return { ...cloneOutput, Results: readSolutionManifestComponents(await fs.readFile(manifestFile, "utf8")) };
+        } finally {
+            await fs.remove(cloneDirectory);
+        }
+    }
+
+    // Solutions are exported as unmanaged unless --managed is passed
+    public async solutionExport(environmentUrl: string, solutionName: string, zipFilePath: string, managed: boolean, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("solution", "export",
+            "--environment", environmentUrl,
+            "--name", solutionName,
+            "--path", zipFilePath,
+            ...(managed ? ["--managed"] : []),
+            "--overwrite"), operationOptions(cancellationToken, false));
+    }
+
+    public async solutionClone(environmentUrl: string, solutionName: string, outputDirectory: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("solution", "clone",
+            "--environment", environmentUrl,
+            "--name", solutionName,
+            "--outputDirectory", outputDirectory), operationOptions(cancellationToken, false));
+    }
+
+    public async solutionImport(environmentUrl: string, zipFilePath: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("solution", "import",
+            "--environment", environmentUrl,
+            "--path", zipFilePath), operationOptions(cancellationToken));
+    }
+
+    public async solutionPublish(environmentUrl: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("solution", "publish", "--environment", environmentUrl),
+            operationOptions(cancellationToken));
+    }
+
+    // Solutions listed in the tree live in the environment, so the version is bumped online rather than in a local solution project
+    public async solutionOnlineVersion(environmentUrl: string, solutionName: string, version: string, cancellationToken?: IPacCancellationToken): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("solution", "online-version",
+            "--environment", environmentUrl,
+            "--solution-name", solutionName,
+            "--solution-version", version), { cancellationToken: cancellationToken, showFailure: false, invalidatesCache: true });
     }
 
     public async orgList(): Promise<PacOrgListOutput> {
-        return this.executeCommandAndParseResults<PacOrgListOutput>(new PacArguments("org", "list"));
+        return this.executeCommandAndParseResults<PacOrgListOutput>(new PacArguments("org", "list"), LIST_COMMAND_OPTIONS);
+    }
+
+    public async orgSelect(environmentUrl: string): Promise<PacOutput> {
+        return this.executeCommandAndParseResults<PacOutput>(new PacArguments("org", "select", "--environment", environmentUrl), CHANGE_COMMAND_OPTIONS);
     }
 
     public async enableTelemetry(): Promise<PacOutput> {
@@ -159,6 +551,12 @@ export class PacWrapper {
         return this.executeCommandAndParseResults<PacOutput>(new PacArguments("telemetry", "disable"));
     }
 
+    // Drops cached listings, e.g. when the auth profiles were changed outside of the extension
+    public invalidateCache(): void {
+        this.scheduler.invalidateCache();
+        this.solutionComponentListings.clear();
+    }
+
     public exit() : void {
         this.pacInterop.exit();
     }
@@ -19,4 +19,12 @@ export class PacWrapperContext implements IPacWrapperContext {
     public IsTelemetryEnabled(): boolean {
         return vscode.env.isTelemetryEnabled;
     }
+    public showPacCommandFailedError(err: string): void {
+        vscode.window.showErrorMessage(
+            vscode.l10n.t({
+                message: "The pac CLI command failed: {0}",
+                args: [err],
+                comment: ["{0} represents the error message returned from the pac CLI process"]
+            }));
+    }
 }
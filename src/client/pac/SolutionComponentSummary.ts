@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { SolutionComponentListing } from "./PacTypes";
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const isTrue = (value: unknown): boolean => value === true || String(value).toLowerCase() === "true";
+
+/**
+ * FetchXML for the id of a solution by its unique name
+ */
+export const solutionIdFetchXml = (solutionName: string): string =>
+    `<fetch top="1"><entity name="solution"><attribute name="solutionid" />`
+    + `<filter><condition attribute="uniquename" operator="eq" value="${escapeXml(solutionName)}" /></filter></entity></fetch>`;
+
+/**
+ * FetchXML for the component summaries of a solution, which the maker portal lists solutions from as well. Unlike the
+ * solution manifest, they tell for every component whether it is managed, and they exist for managed solutions too.
+ * The virtual table can only be queried by solution id.
+ */
+export const solutionComponentSummaryFetchXml = (solutionId: string): string =>
+    `<fetch><entity name="msdyn_solutioncomponentsummary">`
+    + ["msdyn_objectid", "msdyn_componenttype", "msdyn_componenttypename", "msdyn_schemaname", "msdyn_displayname", "msdyn_name", "msdyn_ismanaged"]
+        .map(attribute => `<attribute name="${attribute}" />`).join("")
+    + `<filter><condition attribute="msdyn_solutionid" operator="eq" value="${escapeXml(solutionId)}" /></filter></entity></fetch>`;
+
+/**
+ * Reads the components of a solution from the records of its component summaries
+ */
+export const readSolutionComponentSummaries = (records: Record<string, unknown>[]): SolutionComponentListing[] =>
+    records.map(record => {
+        const componentType = Number(record.msdyn_componenttype);
+        const schemaName = String(record.msdyn_schemaname ?? "");
+        return {
+            ObjectId: String(record.msdyn_objectid ?? "").replace(/^\{|\}$/g, ""),
+            ComponentType: componentType,
+            ComponentTypeName: String(record.msdyn_componenttypename ?? componentType),
+            SchemaName: schemaName,
+            DisplayName: String(record.msdyn_displayname || record.msdyn_name || schemaName),
+            IsManaged: isTrue(record.msdyn_ismanaged)
+        };
+    });
@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { Parser } from "htmlparser2";
+import { SolutionComponentListing } from "./PacTypes";
+
+// The names of the solution component types that solutions usually hold, see
+// https://learn.microsoft.com/power-apps/developer/data-platform/reference/entities/solutioncomponent#componenttype-choicesoptions
+const COMPONENT_TYPE_NAMES: Record<number, string> = {
+    1: "Entity",
+    2: "Attribute",
+    9: "OptionSet",
+    10: "EntityRelationship",
+    20: "Role",
+    26: "SavedQuery",
+    29: "Workflow",
+    36: "EmailTemplate",
+    59: "SavedQueryVisualization",
+    60: "SystemForm",
+    61: "WebResource",
+    62: "SiteMap",
+    63: "ConnectionRole",
+    66: "CustomControl",
+    70: "FieldSecurityProfile",
+    80: "AppModule",
+    90: "PluginType",
+    91: "PluginAssembly",
+    92: "SDKMessageProcessingStep",
+    95: "ServiceEndpoint",
+    300: "CanvasApp",
+    371: "Connector",
+    380: "EnvironmentVariableDefinition",
+    381: "EnvironmentVariableValue"
+};
+
+/**
+ * Reads the root components of a solution from its Other/Solution.xml, as written by `pac solution clone`.
+ * Components are listed by their schema name, or by their id for types without one, e.g. web resources and workflows.
+ * The manifest does not tell which of them are managed.
+ */
+export const readSolutionManifestComponents = (manifestXml: string): SolutionComponentListing[] => {
+    const components: SolutionComponentListing[] = [];
+    const elements: string[] = [];
+    const parser = new Parser({
+        onopentag(name: string, attributes: Record<string, string>) {
+            elements.push(name);
+            if (name !== "RootComponent" || elements[elements.length - 2] !== "RootComponents") {
+                return;
+            }
+            const componentType = Number(attributes.type);
+            const objectId = (attributes.id ?? "").replace(/^\{|\}$/g, "");
+            const schemaName = attributes.schemaName ?? "";
+            components.push({
+                ObjectId: objectId,
+                ComponentType: componentType,
+                ComponentTypeName: COMPONENT_TYPE_NAMES[componentType] ?? `${attributes.type}`,
+                SchemaName: schemaName,
+                DisplayName: schemaName || objectId
+            });
+        },
+        onclosetag() {
+            elements.pop();
+        }
+    }, { xmlMode: true });
+    parser.end(manifestXml);
+    return components;
+};
@@ -36,14 +36,15 @@ export const createContentSnippet = async (
     context: vscode.ExtensionContext,
     selectedWorkspaceFolder: string | undefined,
     yoGenPath: string | null,
-    telemetry: ITelemetry
+    telemetry: ITelemetry,
+    defaultName?: string
 ): Promise<void> => {
     try {
         if (!selectedWorkspaceFolder) {
             return;
         }
         const { contentSnippetName, contentSnippetType } =
-            await getContentSnippetInputs(selectedWorkspaceFolder);
+            await getContentSnippetInputs(selectedWorkspaceFolder, defaultName);
 
         if (!isNullOrEmpty(contentSnippetName)) {
             const folder = formatFolderName(contentSnippetName);
@@ -75,7 +76,7 @@ export const createContentSnippet = async (
     }
 };
 
-async function getContentSnippetInputs(selectedWorkspaceFolder: string) {
+async function getContentSnippetInputs(selectedWorkspaceFolder: string, defaultName?: string) {
     const contentSnippetTypes: QuickPickItem[] = ["html", "text"].map(
         (label) => ({ label })
     );
@@ -83,7 +84,7 @@ async function getContentSnippetInputs(selectedWorkspaceFolder: string) {
     const title = vscode.l10n.t("New Content Snippet");
 
     async function collectInputs() {
-        const state = {} as Partial<State>;
+        const state = { contentSnippetName: defaultName } as Partial<State>;
         await MultiStepInput.run((input) => inputName(input, state));
         return state as State;
     }
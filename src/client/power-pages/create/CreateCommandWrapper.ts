@@ -41,36 +41,42 @@ function registerCreateCommands(
 ) {
     vscode.commands.registerCommand(
         "microsoft-powerapps-portals.contentsnippet",
-        async (uri) => {
-            const triggerPoint = uri ? TriggerPoint.CONTEXT_MENU : TriggerPoint.COMMAND_PALETTE;
+        async (uri, name?: string) => {
+            // Quick fixes of the HTML language server pass the URI of the document as a string, along with the name to create
+            const fileUri = typeof uri === "string" ? vscode.Uri.parse(uri) : uri;
+            const triggerPoint = name ? TriggerPoint.QUICK_FIX : fileUri ? TriggerPoint.CONTEXT_MENU : TriggerPoint.COMMAND_PALETTE;
             sendTelemetryEvent(telemetry, { eventName: UserFileCreateEvent, fileEntityType: CONTENT_SNIPPET, triggerPoint: triggerPoint });
             const selectedWorkspaceFolder = await getSelectedWorkspaceFolder(
-                uri,
+                fileUri,
                 activeEditor,
             );
             createContentSnippet(
                 context,
                 selectedWorkspaceFolder,
                 yoCommandPath,
-                telemetry
+                telemetry,
+                name
             );
         }
     );
 
     vscode.commands.registerCommand(
         "microsoft-powerapps-portals.webtemplate",
-        async (uri) => {
-            const triggerPoint = uri ? TriggerPoint.CONTEXT_MENU : TriggerPoint.COMMAND_PALETTE;
+        async (uri, name?: string) => {
+            // Quick fixes of the HTML language server pass the URI of the document as a string, along with the name to create
+            const fileUri = typeof uri === "string" ? vscode.Uri.parse(uri) : uri;
+            const triggerPoint = name ? TriggerPoint.QUICK_FIX : fileUri ? TriggerPoint.CONTEXT_MENU : TriggerPoint.COMMAND_PALETTE;
             sendTelemetryEvent(telemetry, { eventName: UserFileCreateEvent, fileEntityType: Tables.WEBTEMPLATE, triggerPoint: triggerPoint });
             const selectedWorkspaceFolder = await getSelectedWorkspaceFolder(
-                uri,
+                fileUri,
                 activeEditor,
             );
             createWebTemplate(
                 context,
                 selectedWorkspaceFolder,
                 yoCommandPath,
-                telemetry
+                telemetry,
+                name
             );
         }
     );
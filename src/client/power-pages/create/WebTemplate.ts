@@ -21,7 +21,8 @@ export const createWebTemplate = (
     context: vscode.ExtensionContext,
     selectedWorkspaceFolder: string | undefined,
     yoPath: string | null,
-    telemetry: ITelemetry
+    telemetry: ITelemetry,
+    defaultName?: string
 ) => {
     try {
     if (!selectedWorkspaceFolder) {
@@ -29,6 +30,7 @@ export const createWebTemplate = (
     }
     vscode.window
         .showInputBox({
+            value: defaultName,
             placeHolder: vscode.l10n.t("Enter the name of the web template"),
             validateInput: (name) =>
                 validateTemplateName(name, selectedWorkspaceFolder),
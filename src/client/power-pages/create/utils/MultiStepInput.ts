@@ -25,6 +25,7 @@ interface InputBoxParameters {
     value: string;
     prompt?: string;
     placeholder: string;
+    password?: boolean;
     validate: (value: string) => Promise<string | undefined>;
     buttons?: QuickInputButton[];
 }
@@ -127,6 +128,7 @@ export class MultiStepInput {
         value = "",
         prompt,
         placeholder,
+        password,
         validate,
         buttons,
       }: P) {
@@ -144,6 +146,7 @@ export class MultiStepInput {
             input.value = value;
             input.prompt = prompt;
             input.placeholder = placeholder;
+            input.password = !!password;
 
             input.buttons = [
               ...(this.steps.length > 1 ? [QuickInputButtons.Back] : []),
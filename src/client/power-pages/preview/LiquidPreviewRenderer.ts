@@ -0,0 +1,178 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from "fs";
+import { Context, Emitter, Liquid, ParseStream, TagToken, Template, TopLevelToken, tags } from "liquidjs";
+import { IPreviewSite, ReadSiteFile } from "./PreviewSite";
+
+// Templates that ship with every site, rendered the way Power Pages does
+const BUILT_IN_TEMPLATES: Record<string, string> = {
+    "snippet": "{{ snippets[snippet_name] }}",
+    "entity_list": "{% entitylist key: key %}{% endentitylist %}"
+};
+const BUILT_IN_TEMPLATE_PREFIX = "built-in:";
+// Tags that render Dataverse records, which are not available locally. The preview shows the tag in their place.
+const DATAVERSE_TAGS = ["chart", "codecomponent", "entityform", "powerbi", "webform"];
+const DATAVERSE_BLOCK_TAGS = ["entitylist", "entityview", "searchindex"];
+const EDITABLE_ARGUMENTS_REGEX = /^\s*([\w.]+)(?:\s+(['"])(.*?)\2)?/;
+const FETCHXML_VARIABLE_REGEX = /^\s*([\w-]+)/;
+
+/**
+ * The signed-in user and request that templates see in the preview
+ */
+export interface ILiquidPreviewContext {
+    // The user object, or undefined to preview the page as an anonymous visitor
+    user?: Record<string, unknown>;
+    request: {
+        url: string;
+        params: Record<string, string>;
+    };
+}
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const toPlaceholder = (token: TagToken) =>
+    `<div class="pp-liquid-placeholder" data-liquid-tag="${escapeHtml(token.name)}">${escapeHtml(token.getText())}</div>`;
+
+const toRequest = (request: ILiquidPreviewContext["request"]) => {
+    let url: URL;
+    try {
+        url = new URL(request.url);
+    } catch {
+        url = new URL("https://localhost/");
+    }
+    const params: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => params[key] = value);
+    return {
+        url: url.href,
+        path: url.pathname,
+        path_and_query: url.pathname + url.search,
+        query: url.search,
+        params: { ...params, ...request.params }
+    };
+};
+
+// Reads the body of a block tag up to its end tag
+function parseBlockBody(this: { liquid: Liquid, templates?: Template[] }, token: TagToken, remainTokens: TopLevelToken[]) {
+    const templates: Template[] = this.templates = [];
+    const stream: ParseStream = this.liquid.parser.parseStream(remainTokens)
+        .on(`tag:end${token.name}`, () => stream.stop())
+        .on("template", (template: Template) => templates.push(template))
+        .on("end", () => {
+            throw new Error(`tag ${token.getText()} not closed`);
+        });
+    stream.start();
+}
+
+/**
+ * Creates a Liquid engine that resolves web templates by name from the site, and renders the Power Pages tags that
+ * need no Dataverse records
+ */
+const createPreviewEngine = (site: IPreviewSite, readSiteFile: ReadSiteFile): Liquid => {
+    const readTemplate = (file: string): string => file.startsWith(BUILT_IN_TEMPLATE_PREFIX)
+        ? BUILT_IN_TEMPLATES[file.slice(BUILT_IN_TEMPLATE_PREFIX.length)]
+        : readSiteFile(file) ?? fs.readFileSync(file, "utf8");
+    const templateExists = (file: string): boolean => file.startsWith(BUILT_IN_TEMPLATE_PREFIX)
+        ? file.slice(BUILT_IN_TEMPLATE_PREFIX.length) in BUILT_IN_TEMPLATES
+        : readSiteFile(file) !== undefined || fs.existsSync(file);
+
+    const engine = new Liquid({
+        root: [site.siteFolder],
+        relativeReference: false,
+        cache: false,
+        fs: {
+            exists: async file => templateExists(file),
+            existsSync: templateExists,
+            readFile: async file => readTemplate(file),
+            readFileSync: readTemplate,
+            // {% include 'Header' %} refers to the web template named Header, wherever its files are
+            resolve: (_root, name) => {
+                const normalizedName = name.trim().toLowerCase();
+                return normalizedName in BUILT_IN_TEMPLATES
+                    ? BUILT_IN_TEMPLATE_PREFIX + normalizedName
+                    : site.webTemplates.get(normalizedName) ?? name;
+            }
+        }
+    });
+
+    // {% extends %} in Power Pages is {% layout %} in liquidjs
+    engine.registerTag("extends", tags.layout);
+    DATAVERSE_TAGS.forEach(tagName => engine.registerTag(tagName, {
+        render: function (_ctx: Context, emitter: Emitter) {
+            emitter.write(toPlaceholder(this.token));
+        }
+    }));
+    DATAVERSE_BLOCK_TAGS.forEach(tagName => engine.registerTag(tagName, {
+        parse: parseBlockBody,
+        render: function (_ctx: Context, emitter: Emitter) {
+            emitter.write(toPlaceholder(this.token));
+        }
+    }));
+    // Queries return no records, so that templates can still loop over the results
+    engine.registerTag("fetchxml", {
+        parse: parseBlockBody,
+        render: function (ctx: Context) {
+            const variable = FETCHXML_VARIABLE_REGEX.exec(this.token.args)?.[1];
+            if (variable) {
+                ctx.bottom()[variable] = { results: { entities: [], more_records: false, total_record_count: 0 } };
+            }
+        }
+    });
+    engine.registerTag("substitution", {
+        parse: parseBlockBody,
+        render: function* (ctx: Context, emitter: Emitter) {
+            yield this.liquid.renderer.renderTemplates(this.templates, ctx, emitter);
+        }
+    });
+    // {% editable page 'adx_copy' %} and {% editable snippets 'Footer' %} render the value, which may hold Liquid itself
+    engine.registerTag("editable", {
+        render: function* (ctx: Context, emitter: Emitter) {
+            const match = EDITABLE_ARGUMENTS_REGEX.exec(this.token.args);
+            if (!match) {
+                return;
+            }
+            const value = match[3] !== undefined
+                ? this.liquid.evalValueSync(`${match[1]}[${JSON.stringify(match[3])}]`, ctx)
+                : this.liquid.evalValueSync(match[1], ctx);
+            if (typeof value === "string") {
+                yield this.liquid.renderer.renderTemplates(this.liquid.parse(value), ctx, emitter);
+            }
+        }
+    });
+    engine.registerFilter("has_role", (user: { roles?: string[] } | undefined, role: string) =>
+        !!user?.roles?.some(userRole => userRole.toLowerCase() === String(role).toLowerCase()));
+    return engine;
+};
+
+/**
+ * Renders the Liquid of a web template or web page of a downloaded site, with the given user and request
+ */
+export const renderLiquidPreview = async (text: string, site: IPreviewSite, previewContext: ILiquidPreviewContext, readSiteFile: ReadSiteFile): Promise<string> => {
+    const engine = createPreviewEngine(site, readSiteFile);
+    return engine.parseAndRender(text, {
+        page: site.page,
+        snippets: site.snippets,
+        settings: site.settings,
+        user: previewContext.user,
+        request: toRequest(previewContext.request)
+    });
+};
+
+/**
+ * Renders the full page of a web page copy: its page template between the website header and footer, with the
+ * custom CSS and JavaScript of the page
+ */
+export const renderPagePreview = async (site: IPreviewSite, previewContext: ILiquidPreviewContext, readSiteFile: ReadSiteFile): Promise<string> => {
+    const { files, customCss, customJavaScript } = site.layout ?? { files: [] };
+    let html = customCss ? `<style>${customCss.replace(/<\/style/gi, "<\\/style")}</style>` : "";
+    for (const file of files) {
+        html += await renderLiquidPreview(readSiteFile(file) ?? fs.readFileSync(file, "utf8"), site, previewContext, readSiteFile);
+    }
+    if (customJavaScript) {
+        html += `<script>${customJavaScript.replace(/<\/script/gi, "<\\/script")}</script>`;
+    }
+    return html;
+};
@@ -0,0 +1,398 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from "fs";
+import { glob } from "glob";
+import { Parser } from "htmlparser2";
+import * as path from "path";
+import * as YAML from "yaml";
+import { SOURCE_LINE_ATTRIBUTE } from "./PreviewSourceLines";
+
+const WEB_FILES_FOLDER = "web-files";
+const WEB_FILE_METADATA_SUFFIX = ".webfile.yml";
+const WEB_PAGE_METADATA_PATTERN = "web-pages/**/*.webpage.yml";
+// Links to pages are left alone unless they point to a web file, e.g. a PDF
+const OPTIONAL_ASSET_TAGS = ["a", "area"];
+// Other links, e.g. rel="canonical", need not be files either
+const LINKED_ASSET_RELS = ["stylesheet", "icon", "preload"];
+const URL_ATTRIBUTES = ["src", "href", "poster"];
+const EXTERNAL_URL_REGEX = /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i;
+
+/**
+ * A reference to an image, stylesheet, script or other file that is not in web-files
+ */
+export interface IUnresolvedAsset {
+    url: string;
+    // The source line of the element it is found in, if the element comes from the file being previewed
+    line?: number;
+    // The web files the URL may refer to, when there are several
+    matchingFiles?: string[];
+}
+
+/**
+ * A file of web-files and the URL the site serves it from
+ */
+export interface IWebFile {
+    file: string;
+    // The lower case partial URL of the file, e.g. logo.png
+    partialUrl: string;
+    // The lower case path of its URL under its parent page, e.g. /images/logo.png, unless the parent page is missing
+    urlPath?: string;
+}
+
+// Returns the URL the preview loads an asset from; or else the web files it may refer to, which are none or several
+export type ResolveAsset = (url: string) => string | string[];
+
+interface ISpan {
+    start: number;
+    end: number;
+}
+
+interface IAttribute extends ISpan {
+    name: string;
+    value: string;
+    quoted: boolean;
+}
+
+interface IReplacement extends ISpan {
+    text: string;
+}
+
+// The web files of each site, which are read once and kept until their metadata changes
+const siteWebFiles = new Map<string, IWebFile[]>();
+
+const readYaml = (file: string): Record<string, unknown> | undefined => {
+    try {
+        const metadata = YAML.parse(fs.readFileSync(file, "utf8"));
+        return metadata && typeof metadata === "object" ? metadata : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const toLowerCaseId = (id: unknown): string | undefined => typeof id === "string" && id.trim() ? id.trim().toLowerCase() : undefined;
+
+const toPartialUrl = (partialUrl: unknown): string | undefined =>
+    typeof partialUrl === "string" && partialUrl.trim() ? partialUrl.trim().replace(/^\/+|\/+$/g, "").toLowerCase() : undefined;
+
+// The paths of the web pages by their id, e.g. /products/; the home page is the one without a parent page
+const readWebPagePaths = (siteFolder: string): Map<string, string> => {
+    const pages = new Map<string, { partialUrl: string, parentPageId?: string }>();
+    const metadataFiles: string[] = glob.sync(WEB_PAGE_METADATA_PATTERN, { cwd: siteFolder, absolute: true, nodir: true });
+    metadataFiles.forEach(metadataFile => {
+        const metadata = readYaml(metadataFile);
+        const id = toLowerCaseId(metadata?.adx_webpageid);
+        if (id && !pages.has(id)) {
+            pages.set(id, { partialUrl: toPartialUrl(metadata?.adx_partialurl) ?? "", parentPageId: toLowerCaseId(metadata?.adx_parentpageid) });
+        }
+    });
+
+    const pagePaths = new Map<string, string>();
+    const getPagePath = (id: string, visitedIds: Set<string>): string | undefined => {
+        const page = pages.get(id);
+        if (!page || visitedIds.has(id)) {
+            return undefined;
+        }
+        if (!pagePaths.has(id)) {
+            visitedIds.add(id);
+            const parentPath = page.parentPageId ? getPagePath(page.parentPageId, visitedIds) : "/";
+            if (parentPath === undefined) {
+                return undefined;
+            }
+            pagePaths.set(id, !page.parentPageId || !page.partialUrl ? parentPath : `${parentPath}${page.partialUrl}/`);
+        }
+        return pagePaths.get(id);
+    };
+    pages.forEach((_page, id) => getPagePath(id, new Set()));
+    return pagePaths;
+};
+
+/**
+ * Reads the files of web-files with their partial URL, which may differ from their file name, and the path of the
+ * URL they are served from, which is the path of their parent page followed by the partial URL
+ */
+export const readWebFiles = (siteFolder: string): IWebFile[] => {
+    const cachedWebFiles = siteWebFiles.get(siteFolder);
+    if (cachedWebFiles) {
+        return cachedWebFiles;
+    }
+    const pagePaths = readWebPagePaths(siteFolder);
+    const metadataFiles: string[] = glob.sync(`${WEB_FILES_FOLDER}/**/*${WEB_FILE_METADATA_SUFFIX}`, { cwd: siteFolder, absolute: true, nodir: true });
+    const webFiles: IWebFile[] = metadataFiles.flatMap(metadataFile => {
+        const metadata = readYaml(metadataFile);
+        const partialUrl = toPartialUrl(metadata?.adx_partialurl);
+        if (!partialUrl) {
+            return [];
+        }
+        const parentPageId = toLowerCaseId(metadata?.adx_parentpageid);
+        const parentPath = parentPageId ? pagePaths.get(parentPageId) : "/";
+        return [{
+            file: metadataFile.slice(0, -WEB_FILE_METADATA_SUFFIX.length),
+            partialUrl,
+            urlPath: parentPath === undefined ? undefined : `${parentPath}${partialUrl}`
+        }];
+    });
+    siteWebFiles.set(siteFolder, webFiles);
+    return webFiles;
+};
+
+/**
+ * Forgets the web files read from a site, e.g. when the metadata of its web files or web pages changes
+ */
+export const invalidateWebFiles = (siteFolder: string): void => {
+    siteWebFiles.delete(siteFolder);
+};
+
+/**
+ * Finds the web files a URL of the site may refer to, e.g. /images/Home Hero.png: the one served from its path, or
+ * else those with the partial URL of its last segment, whose parent page is missing or, for relative URLs, not known.
+ * Files without metadata are found by their file name, in which the pac CLI replaces spaces with dashes.
+ */
+export const findWebFile = (url: string, siteFolder: string, webFiles: IWebFile[]): string[] => {
+    if (EXTERNAL_URL_REGEX.test(url.trim())) {
+        return [];
+    }
+    let urlPath: string;
+    try {
+        urlPath = decodeURIComponent(url.trim().split(/[?#]/)[0]).toLowerCase();
+    } catch {
+        return [];
+    }
+    const name = urlPath.split("/").pop() ?? "";
+    if (!name) {
+        return [];
+    }
+    const existingWebFiles = webFiles.filter(webFile => fs.existsSync(webFile.file));
+    const isRelative = !urlPath.startsWith("/");
+    const servedFiles = isRelative ? [] : existingWebFiles.filter(webFile => webFile.urlPath === urlPath);
+    if (servedFiles.length) {
+        return servedFiles.map(webFile => webFile.file);
+    }
+    const namedFiles = existingWebFiles.filter(webFile => webFile.partialUrl === name && (isRelative || webFile.urlPath === undefined));
+    if (namedFiles.length) {
+        return namedFiles.map(webFile => webFile.file);
+    }
+    const fileNames = [name, name.replace(/ /g, "-")];
+    return fs.existsSync(path.join(siteFolder, WEB_FILES_FOLDER))
+        ? fs.readdirSync(path.join(siteFolder, WEB_FILES_FOLDER))
+            .filter(fileName => fileNames.includes(fileName.toLowerCase()))
+            .map(fileName => path.join(siteFolder, WEB_FILES_FOLDER, fileName))
+            .filter(file => fs.statSync(file).isFile() && !webFiles.some(webFile => webFile.file === file))
+            .slice(0, 1)
+        : [];
+};
+
+const isAssetUrl = (url: string): boolean => !!url.trim() && !EXTERNAL_URL_REGEX.test(url.trim());
+
+const isIdentifierCharacter = (character: string | undefined): boolean => !!character && /[\w-]/.test(character);
+
+// The end of the CSS string that starts at the quote, after its closing quote
+const skipCssString = (css: string, start: number): number => {
+    const quote = css[start];
+    let index = start + 1;
+    while (index < css.length && css[index] !== quote && css[index] !== "\n") {
+        index += css[index] === "\\" ? 2 : 1;
+    }
+    return Math.min(index + 1, css.length);
+};
+
+const skipWhitespace = (text: string, start: number): number => {
+    let index = start;
+    while (index < text.length && /\s/.test(text[index])) {
+        index++;
+    }
+    return index;
+};
+
+/**
+ * Finds the spans of the URLs of url() and @import in CSS, without their quotes. Comments are skipped, and so are
+ * strings other than those of @import.
+ */
+const findCssUrls = (css: string): ISpan[] => {
+    const urls: ISpan[] = [];
+    let index = 0;
+    while (index < css.length) {
+        const character = css[index];
+        if (css.startsWith("/*", index)) {
+            const commentEnd = css.indexOf("*/", index + 2);
+            index = commentEnd === -1 ? css.length : commentEnd + 2;
+        } else if (character === "\"" || character === "'") {
+            index = skipCssString(css, index);
+        } else if (css.slice(index, index + 4).toLowerCase() === "url(" && !isIdentifierCharacter(css[index - 1])) {
+            const valueStart = skipWhitespace(css, index + 4);
+            if (css[valueStart] === "\"" || css[valueStart] === "'") {
+                const valueEnd = skipCssString(css, valueStart);
+                urls.push({ start: valueStart + 1, end: css[valueEnd - 1] === css[valueStart] ? valueEnd - 1 : valueEnd });
+                index = valueEnd;
+            } else {
+                let valueEnd = valueStart;
+                while (valueEnd < css.length && css[valueEnd] !== ")" && !/\s/.test(css[valueEnd])) {
+                    valueEnd++;
+                }
+                urls.push({ start: valueStart, end: valueEnd });
+                index = valueEnd;
+            }
+        } else if (css.slice(index, index + 7).toLowerCase() === "@import" && !isIdentifierCharacter(css[index + 7])) {
+            const valueStart = skipWhitespace(css, index + 7);
+            if (css[valueStart] === "\"" || css[valueStart] === "'") {
+                const valueEnd = skipCssString(css, valueStart);
+                urls.push({ start: valueStart + 1, end: css[valueEnd - 1] === css[valueStart] ? valueEnd - 1 : valueEnd });
+                index = valueEnd;
+            } else {
+                index = valueStart;
+            }
+        } else {
+            index++;
+        }
+    }
+    return urls.filter(url => url.end > url.start);
+};
+
+// Finds the spans of the URLs of the image candidates of a srcset, e.g. "logo.png 1x, logo@2x.png 2x"
+const findSrcsetUrls = (srcset: string): ISpan[] => {
+    const urls: ISpan[] = [];
+    let index = 0;
+    while (index < srcset.length) {
+        while (index < srcset.length && (/\s/.test(srcset[index]) || srcset[index] === ",")) {
+            index++;
+        }
+        const start = index;
+        while (index < srcset.length && !/\s/.test(srcset[index])) {
+            index++;
+        }
+        // A comma right after the URL ends the candidate; commas within it, e.g. of data: URLs, are kept
+        let end = index;
+        while (end > start && srcset[end - 1] === ",") {
+            end--;
+        }
+        if (end > start) {
+            urls.push({ start, end });
+        }
+        if (end === index) {
+            while (index < srcset.length && srcset[index] !== ",") {
+                index++;
+            }
+        }
+    }
+    return urls;
+};
+
+/**
+ * Reads the span of the value of the attribute that starts at the given offset of the HTML, without its quotes
+ */
+const readAttributeValueSpan = (html: string, start: number): { span: ISpan, quoted: boolean } | undefined => {
+    let index = start;
+    while (index < html.length && !/[\s=>]/.test(html[index]) && !html.startsWith("/>", index)) {
+        index++;
+    }
+    index = skipWhitespace(html, index);
+    if (html[index] !== "=") {
+        return undefined;
+    }
+    index = skipWhitespace(html, index + 1);
+    const quote = html[index];
+    if (quote === "\"" || quote === "'") {
+        const end = html.indexOf(quote, index + 1);
+        return { span: { start: index + 1, end: end === -1 ? html.length : end }, quoted: true };
+    }
+    let end = index;
+    while (end < html.length && !/[\s>]/.test(html[end])) {
+        end++;
+    }
+    return { span: { start: index, end }, quoted: false };
+};
+
+const applyReplacements = (text: string, replacements: IReplacement[]): string => {
+    let result = "";
+    let offset = 0;
+    [...replacements].sort((a, b) => a.start - b.start).forEach(replacement => {
+        result += text.slice(offset, replacement.start) + replacement.text;
+        offset = replacement.end;
+    });
+    return result + text.slice(offset);
+};
+
+/**
+ * Points the src, href, srcset and poster attributes and the CSS url() and @import references of rendered HTML to the
+ * files they refer to, and lists those that cannot be found
+ */
+export const rewriteAssetUrls = (html: string, resolveAsset: ResolveAsset): { html: string, unresolvedAssets: IUnresolvedAsset[] } => {
+    const unresolvedAssets: IUnresolvedAsset[] = [];
+    const replacements: IReplacement[] = [];
+    let attributes: IAttribute[] = [];
+    let styleStart: number | undefined;
+    let styleLine: number | undefined;
+
+    // Returns the URL an asset is loaded from, and lists it when it is required and cannot be resolved
+    const resolve = (url: string, line: number | undefined, isOptional: boolean): string | undefined => {
+        if (!isAssetUrl(url)) {
+            return undefined;
+        }
+        const resolvedAsset = resolveAsset(url);
+        if (typeof resolvedAsset === "string") {
+            return resolvedAsset;
+        }
+        if (resolvedAsset.length > 1) {
+            unresolvedAssets.push({ url, line, matchingFiles: resolvedAsset });
+        } else if (!isOptional) {
+            unresolvedAssets.push({ url, line });
+        }
+        return undefined;
+    };
+
+    const rewriteUrls = (text: string, urls: ISpan[], line: number | undefined, isOptional: boolean): string =>
+        applyReplacements(text, urls.flatMap(url => {
+            const resolvedUrl = resolve(text.slice(url.start, url.end), line, isOptional);
+            return resolvedUrl ? [{ ...url, text: resolvedUrl }] : [];
+        }));
+
+    const parser = new Parser({
+        onattribute(name: string, value: string) {
+            const valueSpan = readAttributeValueSpan(html, parser.startIndex);
+            if (valueSpan) {
+                attributes.push({ name, value, quoted: valueSpan.quoted, ...valueSpan.span });
+            }
+        },
+        onopentag(tagName: string) {
+            const lineAttribute = attributes.find(attribute => attribute.name === SOURCE_LINE_ATTRIBUTE);
+            const line = lineAttribute && /^\d+$/.test(lineAttribute.value) ? Number(lineAttribute.value) : undefined;
+            const rel = attributes.find(attribute => attribute.name === "rel")?.value.toLowerCase().split(/\s+/) ?? [];
+            const isOptional = OPTIONAL_ASSET_TAGS.includes(tagName) || (tagName === "link" && !rel.some(value => LINKED_ASSET_RELS.includes(value)));
+            attributes.forEach(attribute => {
+                const rawValue = html.slice(attribute.start, attribute.end);
+                let newValue = rawValue;
+                if (URL_ATTRIBUTES.includes(attribute.name)) {
+                    newValue = resolve(attribute.value, line, isOptional) ?? rawValue;
+                } else if (attribute.name === "srcset") {
+                    newValue = rewriteUrls(rawValue, findSrcsetUrls(rawValue), line, isOptional);
+                } else if (attribute.name === "style") {
+                    newValue = rewriteUrls(rawValue, findCssUrls(rawValue), line, isOptional);
+                }
+                if (newValue !== rawValue) {
+                    replacements.push({ start: attribute.start, end: attribute.end, text: attribute.quoted ? newValue : `"${newValue}"` });
+                }
+            });
+            attributes = [];
+            if (tagName === "style") {
+                styleStart = parser.endIndex + 1;
+                styleLine = line;
+            }
+        },
+        onclosetag(tagName: string) {
+            if (tagName === "style" && styleStart !== undefined) {
+                const styleEnd = Math.min(parser.startIndex, html.length);
+                const css = html.slice(styleStart, styleEnd);
+                const newCss = rewriteUrls(css, findCssUrls(css), styleLine, false);
+                if (newCss !== css) {
+                    replacements.push({ start: styleStart, end: styleEnd, text: newCss });
+                }
+                styleStart = undefined;
+            }
+        }
+    }, { lowerCaseTags: true, lowerCaseAttributeNames: true });
+    parser.end(html);
+
+    return { html: applyReplacements(html, replacements), unresolvedAssets };
+};
@@ -0,0 +1,276 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from "fs";
+import { glob } from "glob";
+import * as path from "path";
+import * as YAML from "yaml";
+
+const WEB_TEMPLATE_METADATA_SUFFIX = ".webtemplate.yml";
+const WEB_TEMPLATE_SOURCE_SUFFIX = ".webtemplate.source.html";
+const CONTENT_SNIPPET_METADATA_SUFFIX = ".contentsnippet.yml";
+const CONTENT_SNIPPET_VALUE_SUFFIX = ".contentsnippet.value.html";
+const PAGE_TEMPLATE_METADATA_SUFFIX = ".pagetemplate.yml";
+const SITE_SETTINGS_FILE = "sitesetting.yml";
+const WEBSITE_FILE = "website.yml";
+const WEB_PAGE_COPY_SUFFIX = ".webpage.copy.html";
+// Files downloaded by the pac CLI, and those of the web editor
+const CUSTOM_CSS_SUFFIXES = [".webpage.custom_css.css", ".webpage.customcss.css"];
+const CUSTOM_JAVASCRIPT_SUFFIXES = [".webpage.custom_javascript.js", ".webpage.customjs.js"];
+// e.g. web-pages/home/content-pages/Home.en-US.webpage.copy.html, whose metadata is in Home.en-US.webpage.yml
+const WEB_PAGE_FILE_REGEX = /^(.*)\.webpage\.[\w.]+$/;
+const LANGUAGE_SUFFIX_REGEX = /\.([a-z]{2,3}(?:-[a-z0-9]+)*)$/i;
+
+/**
+ * Reads a file of the site as it is in the editor, which may differ from the file on disk
+ */
+export type ReadSiteFile = (file: string) => string | undefined;
+
+/**
+ * What makes up the full page of a web page copy, as a visitor sees it
+ */
+export interface IPreviewPageLayout {
+    // Files rendered one after the other: the website header, the web template of the page template or else the
+    // copy itself, and the website footer
+    files: string[];
+    customCss?: string;
+    customJavaScript?: string;
+}
+
+/**
+ * The records of a downloaded site that Liquid can refer to, as read from its files
+ */
+export interface IPreviewSite {
+    siteFolder: string;
+    // Source files of the web templates, by lowercase name
+    webTemplates: Map<string, string>;
+    snippets: Record<string, string>;
+    settings: Record<string, string>;
+    // The web page being previewed and its language, if the file belongs to one
+    page?: Record<string, unknown>;
+    language?: string;
+    // Only for the copy of a web page
+    layout?: IPreviewPageLayout;
+}
+
+interface IWebTemplateFile {
+    id?: string;
+    name: string;
+    sourceFile: string;
+}
+
+interface ISnippetFile {
+    name: string;
+    basePath: string;
+    language?: string;
+    value: string;
+}
+
+// The metadata of the records of a site, which is read once and kept until its files change
+interface ISiteRecords {
+    webTemplates: IWebTemplateFile[];
+    snippets: ISnippetFile[];
+    settings: Record<string, string>;
+    pageTemplates: Record<string, unknown>[];
+    website?: Record<string, unknown>;
+}
+
+const siteRecords = new Map<string, ISiteRecords>();
+
+const readYaml = (file: string): Record<string, unknown> | undefined => {
+    try {
+        const content = YAML.parse(fs.readFileSync(file, "utf8"));
+        return content && typeof content === "object" ? content : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const readFileIfExists = (file: string, readSiteFile: ReadSiteFile): string | undefined => {
+    const openText = readSiteFile(file);
+    if (openText !== undefined) {
+        return openText;
+    }
+    return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined;
+};
+
+const readFirstFileIfExists = (basePath: string, suffixes: string[], readSiteFile: ReadSiteFile): string | undefined => {
+    for (const suffix of suffixes) {
+        const text = readFileIfExists(basePath + suffix, readSiteFile);
+        if (text !== undefined) {
+            return text;
+        }
+    }
+    return undefined;
+};
+
+const toLowerCaseId = (id: unknown): string | undefined => typeof id === "string" ? id.trim().toLowerCase() : undefined;
+
+const readWebTemplates = (siteFolder: string): IWebTemplateFile[] => {
+    const webTemplates: IWebTemplateFile[] = [];
+    const metadataFiles: string[] = glob.sync(`web-templates/**/*${WEB_TEMPLATE_METADATA_SUFFIX}`, { cwd: siteFolder, absolute: true, nodir: true });
+    metadataFiles.forEach(metadataFile => {
+        const metadata = readYaml(metadataFile);
+        if (typeof metadata?.adx_name === "string") {
+            webTemplates.push({
+                id: toLowerCaseId(metadata.adx_webtemplateid),
+                name: metadata.adx_name,
+                sourceFile: metadataFile.slice(0, -WEB_TEMPLATE_METADATA_SUFFIX.length) + WEB_TEMPLATE_SOURCE_SUFFIX
+            });
+        }
+    });
+    return webTemplates;
+};
+
+const readSnippetFiles = (siteFolder: string): ISnippetFile[] => {
+    const snippets: ISnippetFile[] = [];
+    const metadataFiles: string[] = glob.sync(`content-snippets/**/*${CONTENT_SNIPPET_METADATA_SUFFIX}`, { cwd: siteFolder, absolute: true, nodir: true });
+    metadataFiles.forEach(metadataFile => {
+        const metadata = readYaml(metadataFile);
+        if (typeof metadata?.adx_name === "string") {
+            const basePath = metadataFile.slice(0, -CONTENT_SNIPPET_METADATA_SUFFIX.length);
+            snippets.push({
+                name: metadata.adx_name,
+                basePath,
+                language: LANGUAGE_SUFFIX_REGEX.exec(basePath)?.[1],
+                value: String(metadata.adx_value ?? "")
+            });
+        }
+    });
+    return snippets;
+};
+
+// Content snippets exist once per language; those in the language of the page win
+const readSnippets = (snippetFiles: ISnippetFile[], language: string | undefined, readSiteFile: ReadSiteFile): Record<string, string> => {
+    const snippets: Record<string, string> = {};
+    snippetFiles.forEach(snippet => {
+        if (snippet.name in snippets && snippet.language?.toLowerCase() !== language?.toLowerCase()) {
+            return;
+        }
+        snippets[snippet.name] = readFileIfExists(snippet.basePath + CONTENT_SNIPPET_VALUE_SUFFIX, readSiteFile) ?? snippet.value;
+    });
+    return snippets;
+};
+
+const readSettings = (siteFolder: string): Record<string, string> => {
+    const settings: Record<string, string> = {};
+    let records: unknown;
+    try {
+        records = YAML.parse(fs.readFileSync(path.join(siteFolder, SITE_SETTINGS_FILE), "utf8"));
+    } catch {
+        return settings;
+    }
+    if (Array.isArray(records)) {
+        records.forEach(record => {
+            if (typeof record?.adx_name === "string") {
+                settings[record.adx_name] = record.adx_value === undefined || record.adx_value === null ? "" : String(record.adx_value);
+            }
+        });
+    }
+    return settings;
+};
+
+/**
+ * Builds the page object of a web page file, e.g. its copy. Localized pages in content-pages take the fields they
+ * do not have from their root page one folder up.
+ */
+const readPage = (file: string, readSiteFile: ReadSiteFile): Record<string, unknown> | undefined => {
+    const basePath = WEB_PAGE_FILE_REGEX.exec(file)?.[1];
+    const fields = basePath && readYaml(`${basePath}.webpage.yml`);
+    if (!basePath || !fields) {
+        return undefined;
+    }
+    const language = LANGUAGE_SUFFIX_REGEX.exec(basePath)?.[1];
+    const rootFields = language
+        ? readYaml(path.join(path.dirname(path.dirname(basePath)), `${path.basename(basePath).slice(0, -language.length - 1)}.webpage.yml`))
+        : undefined;
+    const page: Record<string, unknown> = { ...rootFields, ...fields };
+    const partialUrl = String(page.adx_partialurl ?? "");
+    return {
+        ...page,
+        id: page.adx_webpageid,
+        title: page.adx_title ?? page.adx_name,
+        url: partialUrl === "/" || !partialUrl ? "/" : `/${partialUrl}/`,
+        adx_copy: readFileIfExists(`${basePath}.webpage.copy.html`, readSiteFile) ?? page.adx_copy,
+        adx_summary: readFileIfExists(`${basePath}.webpage.summary.html`, readSiteFile) ?? page.adx_summary
+    };
+};
+
+/**
+ * Finds the page template of a web page copy and the header and footer of the website. Pages whose page template is
+ * a rewrite, or cannot be found, show their copy in its place.
+ */
+const readPageLayout = (file: string, page: Record<string, unknown>, records: ISiteRecords, readSiteFile: ReadSiteFile): IPreviewPageLayout => {
+    const basePath = file.slice(0, -WEB_PAGE_COPY_SUFFIX.length);
+    const findWebTemplateFile = (id: unknown) => {
+        const lowerCaseId = toLowerCaseId(id);
+        return lowerCaseId ? records.webTemplates.find(webTemplate => webTemplate.id === lowerCaseId)?.sourceFile : undefined;
+    };
+    const pageTemplateId = toLowerCaseId(page.adx_pagetemplateid);
+    const pageTemplate = pageTemplateId
+        ? records.pageTemplates.find(metadata => toLowerCaseId(metadata.adx_pagetemplateid) === pageTemplateId)
+        : undefined;
+
+    const files = [findWebTemplateFile(pageTemplate?.adx_webtemplateid) ?? file];
+    if (pageTemplate?.adx_usewebsiteheaderandfooter !== false) {
+        const header = findWebTemplateFile(records.website?.adx_headerwebtemplateid);
+        const footer = findWebTemplateFile(records.website?.adx_footerwebtemplateid);
+        if (header) {
+            files.unshift(header);
+        }
+        if (footer) {
+            files.push(footer);
+        }
+    }
+    return {
+        files,
+        customCss: readFirstFileIfExists(basePath, CUSTOM_CSS_SUFFIXES, readSiteFile) ?? (typeof page.adx_customcss === "string" ? page.adx_customcss : undefined),
+        customJavaScript: readFirstFileIfExists(basePath, CUSTOM_JAVASCRIPT_SUFFIXES, readSiteFile)
+            ?? (typeof page.adx_customjavascript === "string" ? page.adx_customjavascript : undefined)
+    };
+};
+
+const readSiteRecords = (siteFolder: string): ISiteRecords => {
+    let records = siteRecords.get(siteFolder);
+    if (!records) {
+        records = {
+            webTemplates: readWebTemplates(siteFolder),
+            snippets: readSnippetFiles(siteFolder),
+            settings: readSettings(siteFolder),
+            pageTemplates: glob.sync(`page-templates/**/*${PAGE_TEMPLATE_METADATA_SUFFIX}`, { cwd: siteFolder, absolute: true, nodir: true })
+                .map(readYaml)
+                .filter((metadata): metadata is Record<string, unknown> => !!metadata),
+            website: readYaml(path.join(siteFolder, WEBSITE_FILE))
+        };
+        siteRecords.set(siteFolder, records);
+    }
+    return records;
+};
+
+/**
+ * Forgets the records read from the files of a site, e.g. when its metadata changes, so that they are read again
+ */
+export const invalidatePreviewSite = (siteFolder: string): void => {
+    siteRecords.delete(siteFolder);
+};
+
+/**
+ * Reads the web templates, content snippets and site settings of a site, and the web page the given file belongs to.
+ * Records are read from disk once per site, while the values of snippets and pages are read as they are in the editor.
+ */
+export const readPreviewSite = (siteFolder: string, file: string, readSiteFile: ReadSiteFile): IPreviewSite => {
+    const page = readPage(file, readSiteFile);
+    const language = page && LANGUAGE_SUFFIX_REGEX.exec(WEB_PAGE_FILE_REGEX.exec(file)?.[1] ?? "")?.[1];
+    const records = readSiteRecords(siteFolder);
+    return {
+        siteFolder,
+        webTemplates: new Map(records.webTemplates.map(webTemplate => [webTemplate.name.trim().toLowerCase(), webTemplate.sourceFile])),
+        snippets: readSnippets(records.snippets, language, readSiteFile),
+        settings: { ...records.settings },
+        page,
+        language,
+        layout: page && file.endsWith(WEB_PAGE_COPY_SUFFIX) ? readPageLayout(file, page, records, readSiteFile) : undefined
+    };
+};
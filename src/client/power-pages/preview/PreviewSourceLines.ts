@@ -0,0 +1,29 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+// The zero-based line of the source file an element of the preview comes from
+export const SOURCE_LINE_ATTRIBUTE = "data-pp-line";
+
+// Liquid, comments and the content of scripts and styles are left as they are; only the other start tags get a line
+const SOURCE_TOKEN_REGEX = /{%[\s\S]*?%}|{{[\s\S]*?}}|<!--[\s\S]*?-->|<(script|style)\b[\s\S]*?<\/\1\s*>|<([a-zA-Z][\w-]*)(?=[\s/>])/g;
+
+/**
+ * Adds the line of each start tag to the tag, e.g. <div data-pp-line="3">, so that the preview can scroll to a line
+ * of the file and tell which line an element comes from
+ */
+export const annotateSourceLines = (text: string): string => {
+    let line = 0;
+    let lineOffset = 0;
+    return text.replace(SOURCE_TOKEN_REGEX, (match: string, _rawTextTagName: string | undefined, tagName: string | undefined, offset: number) => {
+        if (!tagName) {
+            return match;
+        }
+        for (let index = text.indexOf("\n", lineOffset); index !== -1 && index < offset; index = text.indexOf("\n", index + 1)) {
+            line++;
+            lineOffset = index + 1;
+        }
+        return `${match} ${SOURCE_LINE_ATTRIBUTE}="${line}"`;
+    });
+};
@@ -30,6 +30,7 @@ interface IPowerPagesTelemetryData {
 export enum TriggerPoint {
     CONTEXT_MENU = "context-menu",
     COMMAND_PALETTE = "command-palette",
+    QUICK_FIX = "quick-fix",
 }
 
 export function sendTelemetryEvent(telemetry: ITelemetry, telemetryData: IPowerPagesTelemetryData): void {
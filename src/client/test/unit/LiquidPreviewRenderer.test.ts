@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ILiquidPreviewContext, renderLiquidPreview, renderPagePreview } from '../../power-pages/preview/LiquidPreviewRenderer';
+import { invalidatePreviewSite, readPreviewSite } from '../../power-pages/preview/PreviewSite';
+
+const siteFiles: Record<string, string> = {
+    'sitesetting.yml': '- adx_name: Search/Enabled\n  adx_value: true\n',
+    'website.yml': 'adx_headerwebtemplateid: 8e2b8a3c-1f4d-4b6a-9c1e-2d3f4a5b6c7d\nadx_footerwebtemplateid: 1a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c8d\n',
+    'web-templates/header/Header.webtemplate.yml': 'adx_name: Header\nadx_webtemplateid: 8e2b8a3c-1f4d-4b6a-9c1e-2d3f4a5b6c7d\n',
+    'web-templates/header/Header.webtemplate.source.html': '<header>{{ page.title }}</header>',
+    'web-templates/default-page/Default-Page.webtemplate.yml': 'adx_name: Default Page\nadx_webtemplateid: 5d6e7f8a-9b0c-4d1e-8f2a-3b4c5d6e7f8a\n',
+    'web-templates/default-page/Default-Page.webtemplate.source.html': '<article>{% editable page \'adx_copy\' %}</article>',
+    'page-templates/Default.pagetemplate.yml': 'adx_name: Default\nadx_pagetemplateid: 0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0\nadx_webtemplateid: 5D6E7F8A-9B0C-4D1E-8F2A-3B4C5D6E7F8A\nadx_usewebsiteheaderandfooter: true\n',
+    'page-templates/Bare.pagetemplate.yml': 'adx_name: Bare\nadx_pagetemplateid: 9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d\nadx_webtemplateid: 5d6e7f8a-9b0c-4d1e-8f2a-3b4c5d6e7f8a\nadx_usewebsiteheaderandfooter: false\n',
+    'web-pages/contact/Contact.webpage.yml': 'adx_name: Contact\nadx_partialurl: contact\nadx_pagetemplateid: 0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0\n',
+    'web-pages/contact/Contact.webpage.copy.html': '<p>Call us</p>',
+    'web-pages/contact/Contact.webpage.custom_css.css': 'p { color: red; }',
+    'web-pages/contact/Contact.webpage.custom_javascript.js': 'console.log("</script>");',
+    'web-pages/landing/Landing.webpage.yml': 'adx_name: Landing\nadx_partialurl: landing\nadx_pagetemplateid: 9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d\n',
+    'web-pages/landing/Landing.webpage.copy.html': '<p>Welcome</p>',
+    'web-templates/layout/Layout.webtemplate.yml': 'adx_name: Layout 1 Column\n',
+    'web-templates/layout/Layout.webtemplate.source.html': '<main>{% block main %}{% endblock %}</main>{% include "Footer" %}',
+    'web-templates/footer/Footer.webtemplate.yml': 'adx_name: Footer\nadx_webtemplateid: 1a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c8d\n',
+    'web-templates/footer/Footer.webtemplate.source.html': '<footer>{{ snippets["Copyright"] }}</footer>',
+    'content-snippets/copyright/Copyright.en-US.contentsnippet.yml': 'adx_name: Copyright\n',
+    'content-snippets/copyright/Copyright.en-US.contentsnippet.value.html': '(c) Contoso',
+    'content-snippets/copyright/Copyright.fr-FR.contentsnippet.yml': 'adx_name: Copyright\n',
+    'content-snippets/copyright/Copyright.fr-FR.contentsnippet.value.html': '(c) Contoso FR',
+    'web-pages/about/About.webpage.yml': 'adx_name: About\nadx_partialurl: about\n',
+    'web-pages/about/content-pages/About.en-US.webpage.yml': 'adx_name: About\nadx_title: About us\n',
+    'web-pages/about/content-pages/About.en-US.webpage.copy.html': '<p>We are {{ page.title }}</p>'
+};
+
+const anonymous: ILiquidPreviewContext = { request: { url: 'https://contoso.powerappsportals.com/about/?q=liquid', params: {} } };
+const signedIn: ILiquidPreviewContext = { ...anonymous, user: { fullname: 'Nancy Davolio', roles: ['Administrators'] } };
+
+describe('LiquidPreviewRenderer', () => {
+    let siteFolder: string;
+
+    const render = (file: string, text: string, previewContext: ILiquidPreviewContext = anonymous, openFiles: Record<string, string> = {}) => {
+        const readSiteFile = (siteFile: string) => openFiles[path.relative(siteFolder, siteFile)];
+        const filePath = path.join(siteFolder, file);
+        return renderLiquidPreview(text, readPreviewSite(siteFolder, filePath, readSiteFile), previewContext, readSiteFile);
+    };
+
+    before(() => {
+        siteFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'liquid-preview-')));
+        Object.entries(siteFiles).forEach(([file, content]) => {
+            fs.mkdirSync(path.dirname(path.join(siteFolder, file)), { recursive: true });
+            fs.writeFileSync(path.join(siteFolder, file), content);
+        });
+    });
+
+    after(() => {
+        fs.rmSync(siteFolder, { recursive: true, force: true });
+    });
+
+    it('resolves extends, blocks and includes to the web templates of the site by name', async () => {
+        const html = await render('web-templates/home/Home.webtemplate.source.html', `{% extends 'Layout 1 Column' %}{% block main %}<h1>Home</h1>{% endblock %}`);
+        expect(html).to.equal('<main><h1>Home</h1></main><footer>(c) Contoso</footer>');
+    });
+
+    it('renders web templates as they are in the editor', async () => {
+        const html = await render('web-templates/home/Home.webtemplate.source.html', `{% include 'Footer' %}`, anonymous,
+            { 'web-templates/footer/Footer.webtemplate.source.html': '<footer>Unsaved</footer>' });
+        expect(html).to.equal('<footer>Unsaved</footer>');
+    });
+
+    it('renders the page, snippets and settings of the web page being previewed', async () => {
+        const html = await render('web-pages/about/content-pages/About.en-US.webpage.copy.html',
+            `{{ page.title }} {{ page.url }} {% editable page 'adx_copy' %} {% include 'snippet' snippet_name:'Copyright' %} {{ settings['Search/Enabled'] }}`);
+        expect(html).to.equal('About us /about/ <p>We are About us</p> (c) Contoso true');
+    });
+
+    it('previews signed-in users and anonymous visitors', async () => {
+        const template = `{% if user %}Hello {{ user.fullname }}{% if user | has_role: 'administrators' %}, admin{% endif %}{% else %}Sign in{% endif %} ({{ request.params.q }})`;
+        expect(await render('web-templates/home/Home.webtemplate.source.html', template)).to.equal('Sign in (liquid)');
+        expect(await render('web-templates/home/Home.webtemplate.source.html', template, signedIn)).to.equal('Hello Nancy Davolio, admin (liquid)');
+    });
+
+    it('shows tags that need Dataverse records in place of their output', async () => {
+        const html = await render('web-templates/home/Home.webtemplate.source.html',
+            `{% entityform name:'Contact Us' %}{% fetchxml query %}<fetch />{% endfetchxml %}{{ query.results.entities.size }}{% entitylist name:'Cases' %}{{ entitylist.views }}{% endentitylist %}`);
+        expect(html).to.equal(`<div class="pp-liquid-placeholder" data-liquid-tag="entityform">{% entityform name:'Contact Us' %}</div>0`
+            + `<div class="pp-liquid-placeholder" data-liquid-tag="entitylist">{% entitylist name:'Cases' %}</div>`);
+    });
+
+    it('composes the page of a web page copy from its page template, the website header and footer, and its custom CSS and JavaScript', async () => {
+        const readSiteFile = (siteFile: string) => siteFile.endsWith('Contact.webpage.copy.html') ? '<p>Call us today</p>' : undefined;
+        const site = readPreviewSite(siteFolder, path.join(siteFolder, 'web-pages/contact/Contact.webpage.copy.html'), readSiteFile);
+        const html = await renderPagePreview(site, anonymous, readSiteFile);
+        expect(html).to.equal('<style>p { color: red; }</style><header>Contact</header><article><p>Call us today</p></article>'
+            + '<footer>(c) Contoso</footer><script>console.log("<\\/script>");</script>');
+    });
+
+    it('shows the copy in place of a missing page template, and leaves out the header and footer when the page template does', async () => {
+        const renderPage = (file: string) => {
+            const readSiteFile = () => undefined;
+            return renderPagePreview(readPreviewSite(siteFolder, path.join(siteFolder, file), readSiteFile), anonymous, readSiteFile);
+        };
+        expect(await renderPage('web-pages/about/content-pages/About.en-US.webpage.copy.html'))
+            .to.equal('<header>About us</header><p>We are About us</p><footer>(c) Contoso</footer>');
+        expect(await renderPage('web-pages/landing/Landing.webpage.copy.html')).to.equal('<article><p>Welcome</p></article>');
+    });
+
+    it('keeps the records of a site until they are invalidated', () => {
+        const file = path.join(siteFolder, 'web-templates/home/Home.webtemplate.source.html');
+        const settingsFile = path.join(siteFolder, 'sitesetting.yml');
+        const readSiteFile = () => undefined;
+        readPreviewSite(siteFolder, file, readSiteFile);
+        fs.writeFileSync(settingsFile, '- adx_name: Search/Enabled\n  adx_value: false\n');
+        try {
+            expect(readPreviewSite(siteFolder, file, readSiteFile).settings['Search/Enabled']).to.equal('true');
+            invalidatePreviewSite(siteFolder);
+            expect(readPreviewSite(siteFolder, file, readSiteFile).settings['Search/Enabled']).to.equal('false');
+        } finally {
+            fs.writeFileSync(settingsFile, siteFiles['sitesetting.yml']);
+            invalidatePreviewSite(siteFolder);
+        }
+    });
+
+    it('fails on web templates that do not exist', async () => {
+        let error: Error | undefined;
+        try {
+            await render('web-templates/home/Home.webtemplate.source.html', `{% include 'Missing' %}`);
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.contain('Missing');
+    });
+});
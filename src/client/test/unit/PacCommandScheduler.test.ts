@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import { PacCommandPriority, PacCommandScheduler } from "../../pac/PacCommandScheduler";
+import { IPacInterop, PacArguments } from "../../pac/PacWrapper";
+
+// Answers commands only when told to, so tests can observe what is running and what is queued
+class ControlledPacInterop implements IPacInterop {
+    public readonly started: string[] = [];
+    public running = 0;
+    public maxRunning = 0;
+    private readonly completions: (() => void)[] = [];
+
+    public executeCommand(args: PacArguments): Promise<string> {
+        const command = args.Arguments.join(" ");
+        this.started.push(command);
+        this.running++;
+        this.maxRunning = Math.max(this.maxRunning, this.running);
+        return new Promise(resolve => this.completions.push(() => {
+            this.running--;
+            resolve(JSON.stringify({ Status: "Success", Errors: [], Information: [command] }));
+        }));
+    }
+
+    public async completeNext(): Promise<void> {
+        this.completions.shift()?.();
+        // let the scheduler pick up the next queued command
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    public exit(): void {
+        // no-op
+    }
+}
+
+describe('PacCommandScheduler', () => {
+    it('runs one command at a time', async () => {
+        const interop = new ControlledPacInterop();
+        const scheduler = new PacCommandScheduler(interop);
+
+        const first = scheduler.schedule(new PacArguments("auth", "select"), { priority: PacCommandPriority.User });
+        const second = scheduler.schedule(new PacArguments("auth", "name"), { priority: PacCommandPriority.User });
+        expect(interop.started).to.deep.equal(["auth select"]);
+
+        await interop.completeNext();
+        expect(JSON.parse(await first).Information).to.deep.equal(["auth select"]);
+        await interop.completeNext();
+        expect(JSON.parse(await second).Information).to.deep.equal(["auth name"]);
+        expect(interop.maxRunning).to.equal(1);
+    });
+
+    it('runs user commands ahead of queued background commands', async () => {
+        const interop = new ControlledPacInterop();
+        const scheduler = new PacCommandScheduler(interop);
+
+        scheduler.schedule(new PacArguments("auth", "list"), { priority: PacCommandPriority.Background });
+        scheduler.schedule(new PacArguments("org", "list"), { priority: PacCommandPriority.Background });
+        scheduler.schedule(new PacArguments("solution", "export"), { priority: PacCommandPriority.User });
+
+        await interop.completeNext();
+        await interop.completeNext();
+        await interop.completeNext();
+        expect(interop.started).to.deep.equal(["auth list", "solution export", "org list"]);
+    });
+
+    it('shares an identical in-flight read and caches its result', async () => {
+        const interop = new ControlledPacInterop();
+        const scheduler = new PacCommandScheduler(interop);
+        const options = { priority: PacCommandPriority.Background, cacheable: true };
+
+        const first = scheduler.schedule(new PacArguments("auth", "list"), options);
+        const second = scheduler.schedule(new PacArguments("auth", "list"), options);
+        await interop.completeNext();
+        expect(await first).to.equal(await second);
+
+        await scheduler.schedule(new PacArguments("auth", "list"), options);
+        expect(interop.started).to.deep.equal(["auth list"]);
+    });
+
+    it('drops cached reads when invalidated or after a command that changes something', async () => {
+        const interop = new ControlledPacInterop();
+        const scheduler = new PacCommandScheduler(interop);
+        const options = { priority: PacCommandPriority.Background, cacheable: true };
+
+        const read = scheduler.schedule(new PacArguments("org", "list"), options);
+        await interop.completeNext();
+        await read;
+
+        scheduler.invalidateCache();
+        const reread = scheduler.schedule(new PacArguments("org", "list"), options);
+        await interop.completeNext();
+        await reread;
+
+        const write = scheduler.schedule(new PacArguments("auth", "select"), { priority: PacCommandPriority.User, invalidatesCache: true });
+        await interop.completeNext();
+        await write;
+
+        const readAfterWrite = scheduler.schedule(new PacArguments("org", "list"), options);
+        await interop.completeNext();
+        await readAfterWrite;
+        expect(interop.started).to.deep.equal(["org list", "org list", "auth select", "org list"]);
+    });
+
+    it('keeps cached reads after commands that only read', async () => {
+        const interop = new ControlledPacInterop();
+        const scheduler = new PacCommandScheduler(interop);
+        const options = { priority: PacCommandPriority.Background, cacheable: true };
+
+        const read = scheduler.schedule(new PacArguments("org", "list"), options);
+        await interop.completeNext();
+        await read;
+
+        const clone = scheduler.schedule(new PacArguments("solution", "clone"), { priority: PacCommandPriority.Background });
+        await interop.completeNext();
+        await clone;
+
+        await scheduler.schedule(new PacArguments("org", "list"), options);
+        expect(interop.started).to.deep.equal(["org list", "solution clone"]);
+    });
+
+    it('expires cached reads', async () => {
+        const interop = new ControlledPacInterop();
+        let now = 0;
+        const scheduler = new PacCommandScheduler(interop, 1000, () => now);
+        const options = { priority: PacCommandPriority.Background, cacheable: true };
+
+        const read = scheduler.schedule(new PacArguments("auth", "list"), options);
+        await interop.completeNext();
+        await read;
+
+        now = 1001;
+        const expired = scheduler.schedule(new PacArguments("auth", "list"), options);
+        await interop.completeNext();
+        await expired;
+        expect(interop.started).to.deep.equal(["auth list", "auth list"]);
+    });
+});
@@ -4,24 +4,39 @@
  */
 
 import { expect } from "chai";
-import { IPacInterop, IPacWrapperContext, PacArguments, PacWrapper } from "../../pac/PacWrapper";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { IPacCancellationToken, IPacInterop, IPacWrapperContext, PacArguments, PacInterop, PacWrapper } from "../../pac/PacWrapper";
+import { SolutionListing } from "../../pac/PacTypes";
 import { NoopTelemetryInstance } from "../../telemetry/NoopTelemetry";
 import { ITelemetry } from "../../telemetry/ITelemetry";
 
 class MockContext implements IPacWrapperContext {
-    public get globalStorageLocalPath(): string { return ""; }
+    public shownErrors: string[] = [];
+    public constructor(private readonly storagePath = "") {
+    }
+    public get globalStorageLocalPath(): string { return this.storagePath; }
     public get telemetry(): ITelemetry { return NoopTelemetryInstance; }
     public get automationAgent(): string { return "powerplatform-vscode-tests/0.1.0-dev"; }
     public IsTelemetryEnabled(): boolean {
         return true;
     }
+    public showPacCommandFailedError(err: string): void {
+        this.shownErrors.push(err);
+    }
 }
 
 class MockPacInterop implements IPacInterop {
     public executeReturnValue = "";
+    public executeError: Error | undefined;
+    public lastArguments: PacArguments | undefined;
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     public async executeCommand(args: PacArguments): Promise<string> {
+        this.lastArguments = args;
+        if (this.executeError) {
+            throw this.executeError;
+        }
         return this.executeReturnValue;
     }
 
@@ -31,6 +46,8 @@ class MockPacInterop implements IPacInterop {
 
 }
 
+const solution: SolutionListing = { SolutionUniqueName: "MySolution", FriendlyName: "My Solution", VersionNumber: "1.0.0.0" };
+
 describe('PacWrapper', () => {
     it('AuthList parses correctly', async () => {
         const interop = new MockPacInterop();
@@ -43,4 +60,294 @@ describe('PacWrapper', () => {
         expect(result.Information.length > 0);
         expect(result.Results && result.Results.length === 1 && result.Results[0].User === "bob@contoso.com").to.be.true;
     });
+
+    it('SolutionExport passes the managed flag and target path', async () => {
+        const interop = new MockPacInterop();
+        interop.executeReturnValue = "{\"Status\":\"Success\",\"Errors\":[],\"Information\":[]}";
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        const result = await wrapper.solutionExport("https://contoso.example.com", "MySolution", "/tmp/MySolution_managed.zip", true);
+        expect(result.Status).to.equal("Success");
+        expect(interop.lastArguments?.Arguments).to.deep.equal([
+            "solution", "export",
+            "--environment", "https://contoso.example.com",
+            "--name", "MySolution",
+            "--path", "/tmp/MySolution_managed.zip",
+            "--managed",
+            "--overwrite"]);
+    });
+
+    it('SolutionExport leaves out the managed flag for unmanaged exports', async () => {
+        const interop = new MockPacInterop();
+        interop.executeReturnValue = "{\"Status\":\"Success\",\"Errors\":[],\"Information\":[]}";
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        await wrapper.solutionExport("https://contoso.example.com", "MySolution", "/tmp/MySolution.zip", false);
+        expect(interop.lastArguments?.Arguments).to.deep.equal([
+            "solution", "export",
+            "--environment", "https://contoso.example.com",
+            "--name", "MySolution",
+            "--path", "/tmp/MySolution.zip",
+            "--overwrite"]);
+    });
+
+    it('AuthCreateNewAuthProfile passes the service principal arguments', async () => {
+        const interop = new MockPacInterop();
+        interop.executeReturnValue = "{\"Status\":\"Success\",\"Errors\":[],\"Information\":[]}";
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        await wrapper.authCreateNewAuthProfile({
+            Kind: "ClientSecret",
+            EnvironmentUrl: "https://contoso.example.com",
+            Cloud: "Public",
+            Tenant: "contoso.onmicrosoft.com",
+            ApplicationId: "00000000-0000-0000-0000-000000000001",
+            ClientSecret: "s3cr3t"
+        });
+        expect(interop.lastArguments?.Arguments).to.deep.equal([
+            "auth", "create",
+            "--environment", "https://contoso.example.com",
+            "--cloud", "Public",
+            "--tenant", "contoso.onmicrosoft.com",
+            "--applicationId", "00000000-0000-0000-0000-000000000001",
+            "--clientSecret", "s3cr3t"]);
+    });
+
+    it('SolutionComponentList reads the components and their managed state from their summaries', async () => {
+        const interop = new MockPacInterop();
+        const commands: string[][] = [];
+        interop.executeCommand = async (args: PacArguments) => {
+            commands.push(args.Arguments);
+            const fetchXml = args.Arguments[args.Arguments.indexOf("--xml") + 1];
+            const results = fetchXml.includes("msdyn_solutioncomponentsummary")
+                ? [{ msdyn_objectid: "{9b8a7c6d-0000-0000-0000-000000000001}", msdyn_componenttype: 1, msdyn_componenttypename: "Entity",
+                    msdyn_schemaname: "account", msdyn_displayname: "Account", msdyn_ismanaged: true }]
+                : [{ solutionid: "5d6e7f8a-0000-0000-0000-000000000000" }];
+            return JSON.stringify({ Status: "Success", Errors: [], Information: [], Results: results });
+        };
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        const result = await wrapper.solutionComponentList("https://contoso.example.com", solution);
+        expect(result.Results).to.deep.equal([{
+            ObjectId: "9b8a7c6d-0000-0000-0000-000000000001", ComponentType: 1, ComponentTypeName: "Entity",
+            SchemaName: "account", DisplayName: "Account", IsManaged: true
+        }]);
+        expect(commands.map(args => args.slice(0, 4))).to.deep.equal([
+            ["org", "fetch", "--environment", "https://contoso.example.com"],
+            ["org", "fetch", "--environment", "https://contoso.example.com"]]);
+        expect(commands[1][5]).to.contain("5d6e7f8a-0000-0000-0000-000000000000");
+    });
+
+    it('SolutionComponentList reads the components from the manifest of a clone when they cannot be fetched', async () => {
+        const interop = new MockPacInterop();
+        let cloneDirectory = "";
+        interop.executeCommand = async (args: PacArguments) => {
+            interop.lastArguments = args;
+            if (args.Arguments[1] === "fetch") {
+                return "{\"Status\":\"Failure\",\"Errors\":[\"Not a valid command.\"],\"Information\":[]}";
+            }
+            cloneDirectory = args.Arguments[args.Arguments.indexOf("--outputDirectory") + 1];
+            await fs.outputFile(path.join(cloneDirectory, "MySolution", "src", "Other", "Solution.xml"),
+                "<ImportExportXml><SolutionManifest><UniqueName>MySolution</UniqueName><Managed>0</Managed><RootComponents>"
+                + "<RootComponent type=\"1\" schemaName=\"cr123_project\" behavior=\"0\" /></RootComponents></SolutionManifest></ImportExportXml>");
+            return "{\"Status\":\"Success\",\"Errors\":[],\"Information\":[]}";
+        };
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        const result = await wrapper.solutionComponentList("https://contoso.example.com", solution);
+        expect(result.Status).to.equal("Success");
+        expect(result.Results).to.deep.equal([
+            { ObjectId: "", ComponentType: 1, ComponentTypeName: "Entity", SchemaName: "cr123_project", DisplayName: "cr123_project" }]);
+        expect(interop.lastArguments?.Arguments.slice(0, 6)).to.deep.equal(["solution", "clone", "--environment", "https://contoso.example.com", "--name", "MySolution"]);
+        expect(fs.existsSync(cloneDirectory)).to.be.false;
+    });
+
+    it('SolutionComponentList keeps the listing of each solution version until a command changes something', async () => {
+        const interop = new MockPacInterop();
+        const commands: string[] = [];
+        interop.executeCommand = async (args: PacArguments) => {
+            commands.push(args.Arguments.slice(0, 2).join(" "));
+            const results = args.Arguments[1] === "fetch" ? [{ solutionid: "5d6e7f8a-0000-0000-0000-000000000000" }] : undefined;
+            return JSON.stringify({ Status: "Success", Errors: [], Information: [], Results: results });
+        };
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        await wrapper.solutionComponentList("https://contoso.example.com", solution);
+        await wrapper.solutionComponentList("https://contoso.example.com", solution);
+        expect(commands).to.deep.equal(["org fetch", "org fetch"]);
+
+        await wrapper.solutionComponentList("https://contoso.example.com", { ...solution, VersionNumber: "1.0.0.1" });
+        expect(commands).to.have.length(4);
+
+        await wrapper.solutionImport("https://contoso.example.com", "/tmp/MySolution.zip");
+        await wrapper.solutionComponentList("https://contoso.example.com", solution);
+        expect(commands.slice(4)).to.deep.equal(["solution import", "org fetch", "org fetch"]);
+    });
+
+    it('SolutionComponentList lists no components of solutions that can neither be fetched nor cloned, and tries again later', async () => {
+        const interop = new MockPacInterop();
+        interop.executeReturnValue = "{\"Status\":\"Failure\",\"Errors\":[\"Managed solutions cannot be cloned.\"],\"Information\":[]}";
+        const context = new MockContext();
+        const wrapper = new PacWrapper(context, interop);
+
+        const result = await wrapper.solutionComponentList("https://contoso.example.com", { ...solution, SolutionUniqueName: "ManagedSolution" });
+        expect(result.Status).to.equal("Failure");
+        expect(result.Results).to.deep.equal([]);
+        expect(context.shownErrors).to.deep.equal([]);
+
+        interop.lastArguments = undefined;
+        await wrapper.solutionComponentList("https://contoso.example.com", { ...solution, SolutionUniqueName: "ManagedSolution" });
+        expect(interop.lastArguments).to.not.be.undefined;
+    });
+
+    it('only shows failures of commands the user asked for that are not reported by their caller', async () => {
+        const context = new MockContext();
+        const interop = new MockPacInterop();
+        interop.executeError = new Error("No profiles were found");
+        const wrapper = new PacWrapper(context, interop);
+
+        const listOutput = await wrapper.authList();
+        const exportOutput = await wrapper.solutionExport("https://contoso.example.com", "MySolution", "/tmp/MySolution.zip", false);
+        expect(listOutput.Status).to.equal("Failure");
+        expect(exportOutput.Errors).to.deep.equal(["No profiles were found"]);
+        expect(context.shownErrors).to.be.empty;
+
+        await wrapper.orgSelect("https://contoso.example.com");
+        expect(context.shownErrors).to.deep.equal(["No profiles were found"]);
+    });
+
+    it('AdminEnvironmentCreate only passes the domain when one is given', async () => {
+        const interop = new MockPacInterop();
+        interop.executeReturnValue = "{\"Status\":\"Success\",\"Errors\":[],\"Information\":[]}";
+        const wrapper = new PacWrapper(new MockContext, interop);
+
+        await wrapper.adminEnvironmentCreate({ Name: "Contoso Dev", Type: "Sandbox", Region: "europe", Domain: "" });
+        expect(interop.lastArguments?.Arguments).to.deep.equal([
+            "admin", "create",
+            "--name", "Contoso Dev",
+            "--type", "Sandbox",
+            "--region", "europe"]);
+
+        await wrapper.adminEnvironmentCreate({ Name: "Contoso Dev", Type: "Sandbox", Region: "europe", Domain: "contosodev" });
+        expect(interop.lastArguments?.Arguments.slice(-2)).to.deep.equal(["--domain", "contosodev"]);
+    });
+});
+
+// Stands in for the interactive pac: prints a version line, then answers every JSON command on its own line.
+// The first argument of a command steers misbehaviour: 'hang' never answers, 'crash' exits, 'noise' prints a stray line first,
+// 'warn' prints to stderr first.
+const fakePacScript = `#!/usr/bin/env node
+const readline = require("readline");
+console.log("Version: 9.9.9");
+readline.createInterface({ input: process.stdin }).on("line", line => {
+    const args = JSON.parse(line).Arguments;
+    if (args[0] === "exit") { process.exit(0); }
+    if (args[0] === "hang") { return; }
+    if (args[0] === "crash") { console.error("fatal: simulated crash"); process.exit(3); }
+    if (args[0] === "noise") { console.log("Warning: this is not JSON"); }
+    if (args[0] === "warn") { console.error("warning: simulated warning"); }
+    // Answers a little later, so that anything printed to stderr arrives first
+    setTimeout(() => console.log(JSON.stringify({ Status: "Success", Errors: [], Information: [args.join(" ")] })), 20);
+});
+`;
+
+class MockCancellationToken implements IPacCancellationToken {
+    public isCancellationRequested = false;
+    private listeners: (() => void)[] = [];
+    public onCancellationRequested(listener: () => void): { dispose(): void } {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+    }
+    public cancel(): void {
+        this.isCancellationRequested = true;
+        this.listeners.forEach(l => l());
+    }
+}
+
+describe('PacInterop', function () {
+    let storagePath: string;
+    let interop: PacInterop;
+
+    before(function () {
+        if (os.platform() === 'win32') {
+            this.skip();
+        }
+        storagePath = path.join(os.tmpdir(), `pacinterop-test-${Date.now()}`);
+        const pacPath = path.join(storagePath, "pac", "tools", "pac");
+        fs.ensureDirSync(path.dirname(pacPath));
+        fs.writeFileSync(pacPath, fakePacScript, { mode: 0o755 });
+    });
+
+    beforeEach(() => {
+        interop = new PacInterop(new MockContext(storagePath));
+    });
+
+    afterEach(async () => {
+        await interop?.exit();
+    });
+
+    after(() => {
+        if (storagePath) {
+            fs.removeSync(storagePath);
+        }
+    });
+
+    it('skips output lines that are not command responses', async () => {
+        const result = JSON.parse(await interop.executeCommand(new PacArguments("noise", "first")));
+        expect(result.Information).to.deep.equal(["noise first"]);
+
+        const next = JSON.parse(await interop.executeCommand(new PacArguments("auth", "list")));
+        expect(next.Information).to.deep.equal(["auth list"]);
+    });
+
+    it('hands output lines to the command that is waiting for its response', async () => {
+        const lines: string[] = [];
+        await interop.executeCommand(new PacArguments("noise", "device-code"), { onOutput: line => lines.push(line) });
+        expect(lines).to.deep.equal(["Warning: this is not JSON"]);
+    });
+
+    it('rejects a command that does not answer in time and recovers', async () => {
+        let error: Error | undefined;
+        await interop.executeCommand(new PacArguments("hang"), { timeoutMs: 200 }).catch(e => error = e);
+        expect(error?.message).to.contain("did not respond");
+
+        const result = JSON.parse(await interop.executeCommand(new PacArguments("org", "list")));
+        expect(result.Information).to.deep.equal(["org list"]);
+    });
+
+    it('keeps secrets out of error messages', async () => {
+        let error: Error | undefined;
+        await interop.executeCommand(new PacArguments("hang", "--clientSecret", "s3cr3t"), { timeoutMs: 200 }).catch(e => error = e);
+        expect(error?.message).to.contain("--clientSecret ***");
+        expect(error?.message).not.to.contain("s3cr3t");
+    });
+
+    it('rejects a cancelled command', async () => {
+        const token = new MockCancellationToken();
+        const pending = interop.executeCommand(new PacArguments("hang"), { cancellationToken: token });
+        setTimeout(() => token.cancel(), 50);
+
+        let error: Error | undefined;
+        await pending.catch(e => error = e);
+        expect(error?.message).to.contain("was cancelled");
+    });
+
+    it('does not add the stderr of earlier commands to errors', async () => {
+        await interop.executeCommand(new PacArguments("warn"));
+
+        let error: Error | undefined;
+        await interop.executeCommand(new PacArguments("hang"), { timeoutMs: 200 }).catch(e => error = e);
+        expect(error?.message).to.contain("did not respond");
+        expect(error?.message).not.to.contain("simulated warning");
+    });
+
+    it('surfaces a crash with its stderr and restarts on the next command', async () => {
+        let error: Error | undefined;
+        await interop.executeCommand(new PacArguments("crash")).catch(e => error = e);
+        expect(error?.message).to.contain("exited unexpectedly");
+        expect(error?.message).to.contain("simulated crash");
+
+        const result = JSON.parse(await interop.executeCommand(new PacArguments("auth", "list")));
+        expect(result.Status).to.equal("Success");
+    });
 });
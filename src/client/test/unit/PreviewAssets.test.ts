@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findWebFile, invalidateWebFiles, IWebFile, readWebFiles, rewriteAssetUrls } from '../../power-pages/preview/PreviewAssets';
+
+const HOME_PAGE_ID = '11111111-1111-1111-1111-111111111111';
+const PRODUCTS_PAGE_ID = '22222222-2222-2222-2222-222222222222';
+
+const siteFiles: Record<string, string> = {
+    'web-pages/home/Home.webpage.yml': `adx_name: Home\nadx_partialurl: /\nadx_webpageid: ${HOME_PAGE_ID}\n`,
+    'web-pages/products/Products.webpage.yml': `adx_name: Products\nadx_partialurl: products\nadx_webpageid: ${PRODUCTS_PAGE_ID}\nadx_parentpageid: ${HOME_PAGE_ID}\n`,
+    'web-files/logo.png': '',
+    'web-files/logo.png.webfile.yml': `adx_name: logo.png\nadx_partialurl: logo.png\nadx_parentpageid: ${HOME_PAGE_ID}\n`,
+    'web-files/Home-Hero.jpg': '',
+    'web-files/brand-2x.png': '',
+    'web-files/brand-2x.png.webfile.yml': `adx_name: Brand\nadx_partialurl: brand@2x.png\nadx_parentpageid: ${PRODUCTS_PAGE_ID}\n`,
+    'web-files/products-logo.png': '',
+    'web-files/products-logo.png.webfile.yml': `adx_name: Products logo\nadx_partialurl: logo.png\nadx_parentpageid: ${PRODUCTS_PAGE_ID}\n`,
+    'web-files/banner.png': '',
+    'web-files/banner.png.webfile.yml': 'adx_name: Banner\nadx_partialurl: banner.png\nadx_parentpageid: 99999999-9999-9999-9999-999999999999\n',
+    'web-files/theme.css': '',
+    'web-files/theme.css.webfile.yml': `adx_name: theme.css\nadx_partialurl: theme.css\nadx_parentpageid: ${HOME_PAGE_ID}\n`,
+    'web-files/site.js': '',
+    'web-files/site.js.webfile.yml': `adx_name: site.js\nadx_partialurl: site.js\nadx_parentpageid: ${HOME_PAGE_ID}\n`
+};
+
+describe('PreviewAssets', () => {
+    let siteFolder: string;
+    let webFiles: IWebFile[];
+    const resolveAsset = (url: string) => {
+        const files = findWebFile(url, siteFolder, webFiles);
+        return files.length === 1 ? `https://webview/${path.basename(files[0])}` : files;
+    };
+
+    before(() => {
+        siteFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'preview-assets-')));
+        Object.entries(siteFiles).forEach(([file, content]) => {
+            fs.mkdirSync(path.dirname(path.join(siteFolder, file)), { recursive: true });
+            fs.writeFileSync(path.join(siteFolder, file), content);
+        });
+        webFiles = readWebFiles(siteFolder);
+    });
+
+    after(() => {
+        fs.rmSync(siteFolder, { recursive: true, force: true });
+    });
+
+    it('finds web files by the path of their parent page and their partial URL', () => {
+        expect(findWebFile('/products/brand@2x.png?v=2', siteFolder, webFiles)).to.deep.equal([path.join(siteFolder, 'web-files/brand-2x.png')]);
+        expect(findWebFile('/Logo.png', siteFolder, webFiles)).to.deep.equal([path.join(siteFolder, 'web-files/logo.png')]);
+        expect(findWebFile('/products/logo.png', siteFolder, webFiles)).to.deep.equal([path.join(siteFolder, 'web-files/products-logo.png')]);
+        expect(findWebFile('/brand@2x.png', siteFolder, webFiles)).to.be.empty;
+        expect(findWebFile('https://contoso.com/logo.png', siteFolder, webFiles)).to.be.empty;
+        expect(findWebFile('/missing.png', siteFolder, webFiles)).to.be.empty;
+    });
+
+    it('finds web files whose parent page is missing, and those without metadata, by their name', () => {
+        expect(findWebFile('/images/banner.png', siteFolder, webFiles)).to.deep.equal([path.join(siteFolder, 'web-files/banner.png')]);
+        expect(findWebFile('/Home%20Hero.jpg', siteFolder, webFiles)).to.deep.equal([path.join(siteFolder, 'web-files/Home-Hero.jpg')]);
+    });
+
+    it('keeps the web files of a site until they are invalidated', () => {
+        const metadataFile = path.join(siteFolder, 'web-files/site.js.webfile.yml');
+        fs.writeFileSync(metadataFile, siteFiles['web-files/site.js.webfile.yml'].replace('site.js\nadx_parentpageid', 'main.js\nadx_parentpageid'));
+        try {
+            expect(readWebFiles(siteFolder)).to.equal(webFiles);
+            invalidateWebFiles(siteFolder);
+            expect(findWebFile('/main.js', siteFolder, readWebFiles(siteFolder))).to.deep.equal([path.join(siteFolder, 'web-files/site.js')]);
+        } finally {
+            fs.writeFileSync(metadataFile, siteFiles['web-files/site.js.webfile.yml']);
+            invalidateWebFiles(siteFolder);
+            webFiles = readWebFiles(siteFolder);
+        }
+    });
+
+    it('lists all the web files a relative URL may refer to', () => {
+        expect(findWebFile('logo.png', siteFolder, webFiles)).to.have.members([
+            path.join(siteFolder, 'web-files/logo.png'),
+            path.join(siteFolder, 'web-files/products-logo.png')
+        ]);
+    });
+
+    it('rewrites src, href, srcset, style and CSS references to web files', () => {
+        const html = `<link rel="stylesheet" href="/theme.css"><script src='/site.js'></script>`
+            + `<img src=/logo.png srcset="/logo.png 1x, /products/brand@2x.png 2x" style="background: url('/Home Hero.jpg')">`
+            + `<style>@import "/theme.css"; .hero { background: url(/Home%20Hero.jpg); } /* url(/logo.png) */ .x::after { content: "url(/logo.png)"; }</style>`
+            + `<a href="/about/">About</a><img src="data:image/png;base64,AAAA"><IMG SRC = "/logo.png">`;
+        expect(rewriteAssetUrls(html, resolveAsset)).to.deep.equal({
+            html: `<link rel="stylesheet" href="https://webview/theme.css"><script src='https://webview/site.js'></script>`
+                + `<img src="https://webview/logo.png" srcset="https://webview/logo.png 1x, https://webview/brand-2x.png 2x" style="background: url('https://webview/Home-Hero.jpg')">`
+                + `<style>@import "https://webview/theme.css"; .hero { background: url(https://webview/Home-Hero.jpg); } /* url(/logo.png) */ .x::after { content: "url(/logo.png)"; }</style>`
+                + `<a href="/about/">About</a><img src="data:image/png;base64,AAAA"><IMG SRC = "https://webview/logo.png">`,
+            unresolvedAssets: []
+        });
+    });
+
+    it('leaves scripts, comments and attributes that only look like tags alone', () => {
+        const html = `<!-- <img src="/logo.png"> --><div title="<img src='/logo.png'>"></div><script>const html = '<img src="/logo.png">';</script>`;
+        expect(rewriteAssetUrls(html, resolveAsset)).to.deep.equal({ html, unresolvedAssets: [] });
+    });
+
+    it('lists the assets that are not in web-files, or may be several web files, with the source line of their element', () => {
+        const html = `<img data-pp-line="4" src="/missing.png"><link rel="canonical" href="/home"><a href="/missing.pdf">PDF</a>`
+            + `<style data-pp-line="6">.x { background: url('/missing.jpg'); }</style><script src="/missing.js"></script>`
+            + `<img data-pp-line="8" srcset="logo.png 1x">`;
+        expect(rewriteAssetUrls(html, resolveAsset).unresolvedAssets).to.deep.equal([
+            { url: '/missing.png', line: 4 },
+            { url: '/missing.jpg', line: 6 },
+            { url: '/missing.js', line: undefined },
+            { url: 'logo.png', line: 8, matchingFiles: findWebFile('logo.png', siteFolder, webFiles) }
+        ]);
+    });
+});
@@ -0,0 +1,21 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from 'chai';
+import { annotateSourceLines } from '../../power-pages/preview/PreviewSourceLines';
+
+describe('PreviewSourceLines', () => {
+    it('adds the line of each start tag to the tag', () => {
+        const text = '<div class="row">\n  <p>One</p>\n\n  <img src="/logo.png"/><br>\n</div>';
+        expect(annotateSourceLines(text)).to.equal('<div data-pp-line="0" class="row">\n  <p data-pp-line="1">One</p>\n\n'
+            + '  <img data-pp-line="3" src="/logo.png"/><br data-pp-line="3">\n</div>');
+    });
+
+    it('leaves Liquid, comments, scripts and styles as they are', () => {
+        const text = `{% assign tag = '<b>' %}{{ '<i>' }}<!-- <p> -->\n<script>if (a <b) {}</script><style>a<b{}</style>\n<span>`;
+        expect(annotateSourceLines(text)).to.equal(`{% assign tag = '<b>' %}{{ '<i>' }}<!-- <p> -->\n<script>if (a <b) {}</script><style>a<b{}</style>\n`
+            + '<span data-pp-line="2">');
+    });
+});
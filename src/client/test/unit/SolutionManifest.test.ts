@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import { readSolutionManifestComponents } from "../../pac/SolutionManifest";
+
+const manifest = (managed: string) => `<?xml version="1.0" encoding="utf-8"?>
+<ImportExportXml version="9.2.24012.196" SolutionPackageVersion="9.2" languagecode="1033" generatedBy="CrmLive" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <SolutionManifest>
+    <UniqueName>ContosoProjects</UniqueName>
+    <LocalizedNames>
+      <LocalizedName description="Contoso Projects" languagecode="1033" />
+    </LocalizedNames>
+    <Descriptions />
+    <Version>1.0.0.0</Version>
+    <Managed>${managed}</Managed>
+    <Publisher>
+      <UniqueName>contoso</UniqueName>
+      <Addresses>
+        <Address>
+          <AddressNumber>1</AddressNumber>
+        </Address>
+      </Addresses>
+    </Publisher>
+    <RootComponents>
+      <RootComponent type="1" schemaName="cr123_project" behavior="0" />
+      <RootComponent type="61" id="{9b8a7c6d-0000-0000-0000-000000000061}" behavior="0" />
+      <RootComponent type="300" schemaName="cr123_projecttracker_8f2a1" behavior="0" />
+      <RootComponent type="10112" id="{0f1e2d3c-0000-0000-0000-000000010112}" behavior="0" />
+    </RootComponents>
+    <MissingDependencies />
+  </SolutionManifest>
+</ImportExportXml>`;
+
+describe("SolutionManifest", () => {
+    it("reads the root components of an unmanaged solution", () => {
+        expect(readSolutionManifestComponents(manifest("0"))).to.deep.equal([
+            { ObjectId: "", ComponentType: 1, ComponentTypeName: "Entity", SchemaName: "cr123_project", DisplayName: "cr123_project" },
+            { ObjectId: "9b8a7c6d-0000-0000-0000-000000000061", ComponentType: 61, ComponentTypeName: "WebResource", SchemaName: "", DisplayName: "9b8a7c6d-0000-0000-0000-000000000061" },
+            { ObjectId: "", ComponentType: 300, ComponentTypeName: "CanvasApp", SchemaName: "cr123_projecttracker_8f2a1", DisplayName: "cr123_projecttracker_8f2a1" },
+            { ObjectId: "0f1e2d3c-0000-0000-0000-000000010112", ComponentType: 10112, ComponentTypeName: "10112", SchemaName: "", DisplayName: "0f1e2d3c-0000-0000-0000-000000010112" }
+        ]);
+    });
+
+    it("reads no components from a manifest without root components", () => {
+        expect(readSolutionManifestComponents(manifest("1").replace(/<RootComponents>[\s\S]*<\/RootComponents>/, "<RootComponents />"))).to.deep.equal([]);
+        expect(readSolutionManifestComponents("<ImportExportXml />")).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,207 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from 'fs';
+import { glob } from 'glob';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import { fileURLToPath, URL } from 'url';
+import * as YAML from 'yaml';
+import { WorkspaceFolder } from 'vscode-languageserver/node';
+
+const portalConfigFolderName = '.portalconfig';
+const manifest = '-manifest';
+const websiteFile = 'website.yml';
+const LANGUAGE_IN_FILE_NAME_REGEX = /\.([a-z]{2,3}(?:-[a-z0-9]+)*)\.(?:contentsnippet|webpage)\.yml$/i;
+const RECORD_ID_REGEX = /^adx_(?:contentsnippetid|webpageid):\s*['"]?([0-9a-f-]{36})/mi;
+const LOCALIZED_RECORD_FOLDERS = ['content-snippets', 'web-pages'];
+const LOCALIZED_RECORD_FILE_REGEX = /\.(?:contentsnippet|webpage)\.yml$/i;
+
+export interface IManifestElement {
+    DisplayName: string;
+    RecordId: string;
+    // Filled in by the manifest index
+    SiteName?: string;
+    Language?: string;
+    Environment?: string;
+}
+
+export interface IManifestIndexBuildInfo {
+    buildTimeMs: number;
+    countOfRecords: number;
+    countOfEntities: number;
+    countOfManifests: number;
+}
+
+// The records of a site by entity name, e.g. adx_webtemplate
+export type SiteManifest = Record<string, IManifestElement[]>;
+
+// The index is built by the extension, which watches the files it is built from and sends the manifest of every site
+// to the HTML and the YAML server, so both complete and check the same records.
+
+// The manifest records of each site, keyed by the path of its .portalconfig folder
+const siteManifests = new Map<string, SiteManifest>();
+let onIndexBuilt: ((buildInfo: IManifestIndexBuildInfo) => void) | undefined;
+// Host of the environment of the active pac auth profile, e.g. contoso.crm.dynamics.com
+let activeEnvironment: string | undefined;
+
+/**
+ * Registers a listener that is told how long it took to index the manifest of a site, e.g. to send telemetry
+ */
+export function setManifestIndexListener(listener: (buildInfo: IManifestIndexBuildInfo) => void): void {
+    onIndexBuilt = listener;
+}
+
+/**
+ * Lists the folders of the sites downloaded into the workspace, i.e. those that hold a .portalconfig folder
+ */
+export function findSiteFolders(workspaceRootFolders: WorkspaceFolder[] | null): string[] {
+    return (workspaceRootFolders ?? [])
+        .flatMap(workspaceRootFolder => glob.sync(`**/${portalConfigFolderName}/`, { cwd: fileURLToPath(workspaceRootFolder.uri), absolute: true, dot: true, ignore: '**/node_modules/**' }))
+        .map(portalConfigFolder => path.dirname(path.normalize(portalConfigFolder)))
+        .sort();
+}
+
+/**
+ * Returns the records of the site with the given .portalconfig folder. The manifest is read once and kept until it changes on disk.
+ */
+export function getSiteManifest(portalConfigFolder: string): SiteManifest {
+    let siteManifest = siteManifests.get(portalConfigFolder);
+    if (!siteManifest) {
+        siteManifest = buildSiteManifest(portalConfigFolder);
+        siteManifests.set(portalConfigFolder, siteManifest);
+    }
+    return siteManifest;
+}
+
+// e.g. contoso.crm.dynamics.com-manifest.yml holds the records downloaded from https://contoso.crm.dynamics.com
+function getManifestEnvironment(manifestFile: string): string {
+    return manifestFile.slice(0, manifestFile.indexOf(manifest)).toLowerCase();
+}
+
+/**
+ * Reads the manifest downloaded from the active environment, or merges the manifests of all environments when there is none for it
+ */
+function buildSiteManifest(portalConfigFolder: string): SiteManifest {
+    const startTime = performance.now();
+    const manifestFiles = fs.readdirSync(portalConfigFolder).filter(configFile => configFile.includes(manifest));
+    const activeManifestFile = manifestFiles.find(manifestFile => getManifestEnvironment(manifestFile) === activeEnvironment);
+    const siteManifestFiles = activeManifestFile ? [activeManifestFile] : manifestFiles;
+
+    const siteFolder = path.dirname(portalConfigFolder);
+    const siteName = readSiteName(siteFolder);
+    const recordLanguages = readRecordLanguages(siteFolder);
+    const siteManifest: SiteManifest = {};
+    siteManifestFiles.forEach(manifestFile => {
+        let parsedManifestData: Record<string, unknown>;
+        try {
+            parsedManifestData = YAML.parse(fs.readFileSync(path.join(portalConfigFolder, manifestFile), 'utf8')) ?? {};
+        } catch (exception) {
+            // Add telemetry log. Failed parsing manifest file
+            return;
+        }
+        Object.entries(parsedManifestData).forEach(([entityName, records]) => {
+            if (!Array.isArray(records)) {
+                return;
+            }
+            const entityRecords = siteManifest[entityName] ?? (siteManifest[entityName] = []);
+            // The same record is in the manifest of every environment the site was downloaded from
+            const knownRecordIds = new Set(entityRecords.map(record => record.RecordId?.toLowerCase()));
+            (records as IManifestElement[])
+                .filter(record => !knownRecordIds.has(record.RecordId?.toLowerCase()))
+                .forEach(record => entityRecords.push({
+                    ...record,
+                    SiteName: siteName,
+                    Language: recordLanguages.get(record.RecordId?.toLowerCase()),
+                    Environment: getManifestEnvironment(manifestFile)
+                }));
+        });
+    });
+
+    const recordLists = Object.values(siteManifest);
+    onIndexBuilt?.({
+        buildTimeMs: performance.now() - startTime,
+        countOfRecords: recordLists.reduce((count, records) => count + records.length, 0),
+        countOfEntities: recordLists.length,
+        countOfManifests: siteManifestFiles.length
+    });
+    return siteManifest;
+}
+
+function readSiteName(siteFolder: string): string | undefined {
+    try {
+        return YAML.parse(fs.readFileSync(path.join(siteFolder, websiteFile), 'utf8'))?.adx_name;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Maps the IDs of records that exist once per language (content snippets and localized web pages) to their language code,
+ * which pac puts in their file names, e.g. Footer.en-US.contentsnippet.yml
+ */
+function readRecordLanguages(siteFolder: string): Map<string, string> {
+    const recordLanguages = new Map<string, string>();
+    const localizedFiles: string[] = glob.sync('{content-snippets/**/*.contentsnippet.yml,web-pages/**/*.webpage.yml}', { cwd: siteFolder, absolute: true, nodir: true });
+    localizedFiles.forEach(file => {
+        const language = LANGUAGE_IN_FILE_NAME_REGEX.exec(path.basename(file))?.[1];
+        if (!language) {
+            return;
+        }
+        try {
+            const recordId = RECORD_ID_REGEX.exec(fs.readFileSync(file, 'utf8'))?.[1];
+            if (recordId) {
+                recordLanguages.set(recordId.toLowerCase(), language);
+            }
+        } catch {
+            // The file was removed while indexing
+        }
+    });
+    return recordLanguages;
+}
+
+/**
+ * Selects the manifest of the given environment in all sites that were downloaded from it. Returns whether the index was dropped.
+ */
+export function setActiveEnvironment(environmentUrl: string | null): boolean {
+    let environment: string | undefined;
+    try {
+        environment = environmentUrl ? new URL(environmentUrl).host.toLowerCase() : undefined;
+    } catch {
+        environment = undefined;
+    }
+    if (environment === activeEnvironment) {
+        return false;
+    }
+    activeEnvironment = environment;
+    siteManifests.clear();
+    return true;
+}
+
+/**
+ * Keeps the index up to date with a file that was created, changed or deleted in the workspace. Returns the .portalconfig
+ * folder of the site whose manifest has to be read again, if any.
+ */
+export function onWatchedFileChanged(fileUri: string): string | undefined {
+    const fileUrl = new URL(fileUri);
+    const segments = fileUrl.pathname.split('/');
+    const portalConfigIndex = segments.indexOf(portalConfigFolderName);
+    if (portalConfigIndex >= 0) {
+        // A site may have been downloaded into or removed from the workspace
+        fileUrl.pathname = segments.slice(0, portalConfigIndex + 1).join('/');
+    } else {
+        // The languages of content snippets and web pages are read from their files. Only their metadata files and
+        // folders, which may hold such files, change them: not the copy of a page or the value of a snippet.
+        const localizedFolderIndex = segments.findIndex(segment => LOCALIZED_RECORD_FOLDERS.includes(segment));
+        const fileName = segments[segments.length - 1];
+        if (localizedFolderIndex <= 0 || !(LOCALIZED_RECORD_FILE_REGEX.test(fileName) || !fileName.includes('.'))) {
+            return undefined;
+        }
+        fileUrl.pathname = [...segments.slice(0, localizedFolderIndex), portalConfigFolderName].join('/');
+    }
+    const portalConfigFolder = fileURLToPath(fileUrl);
+    siteManifests.delete(portalConfigFolder);
+    return portalConfigFolder;
+}
@@ -0,0 +1,19 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { SiteManifest } from './ManifestIndex';
+
+/**
+ * Sent by the extension to the language servers with the manifest records of a site whenever they are read, e.g. when a
+ * server starts, a manifest changes on disk or the environment of the active pac auth profile changes.
+ */
+export const SITE_MANIFEST_NOTIFICATION = 'powerPages/siteManifestChanged';
+
+export interface ISiteManifestParams {
+    // Path of the .portalconfig folder of the site
+    portalConfigFolder: string;
+    // null when the site was removed from the workspace
+    manifest: SiteManifest | null;
+}
@@ -26,3 +26,13 @@ export interface IAutoCompleteTelemetryData extends ITelemetryData {
         'countOfAutoCompleteResults'?: number;
     };
 }
+
+export interface IManifestIndexTelemetryData extends ITelemetryData {
+    eventName: 'ManifestIndexBuilt';
+    measurements: {
+        'indexBuildTimeMs': number;
+        'countOfRecords': number;
+        'countOfEntities': number;
+        'countOfManifests': number;
+    };
+}
@@ -7,18 +7,56 @@ import {
     TextDocument
 } from 'vscode-languageserver-textdocument';
 import {
+    BulkRegistration,
+    BulkUnregistration,
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
     CompletionItem,
     createConnection,
+    DefinitionParams,
     DidChangeConfigurationNotification,
+    DidChangeWatchedFilesParams,
+    DocumentFormattingParams,
+    DocumentFormattingRequest,
+    DocumentRangeFormattingParams,
+    DocumentRangeFormattingRequest,
+    DocumentSymbol,
+    DocumentSymbolParams,
+    FormattingOptions,
+    Hover,
+    HoverParams,
     InitializeParams,
     InitializeResult,
+    Location,
+    PrepareRenameParams,
     ProposedFeatures,
+    Range,
+    ReferenceParams,
+    RenameParams,
+    SignatureHelp,
+    SignatureHelpParams,
+    SymbolInformation,
     TextDocumentPositionParams,
     TextDocuments,
     TextDocumentSyncKind,
-    WorkspaceFolder
+    TextEdit,
+    WorkspaceEdit,
+    WorkspaceFolder,
+    WorkspaceSymbolParams
 } from 'vscode-languageserver/node';
+import { findSiteFolders } from '../common/ManifestIndex';
+import { ISiteManifestParams, SITE_MANIFEST_NOTIFICATION } from '../common/SiteManifestNotification';
+import { getLiquidCodeActions } from './lib/LiquidCodeActions';
+import { getLiquidDiagnostics } from './lib/LiquidDiagnostics';
+import { DEFAULT_LIQUID_FORMAT_SETTINGS, formatLiquidDocument, ILiquidFormatSettings } from './lib/LiquidFormatter';
+import { getLiquidHover, initLiquidDocumentation } from './lib/LiquidHoverProvider';
+import { getLiquidDefinition, getLiquidReferenceLocations, getLiquidRenameEdit, onRecordFileChanged, prepareLiquidRename } from './lib/LiquidReferences';
+import { getLiquidSignatureHelp } from './lib/LiquidSignatureHelp';
+import { getLiquidDocumentSymbols, getLiquidWorkspaceSymbols } from './lib/LiquidSymbols';
 import { getSuggestions, initLiquidRuleEngine } from './lib/LiquidAutoCompleteRuleEngine';
+import { getCachedPortalConfigFolderUrl, setSiteManifest } from './lib/ManifestIndex';
+import { onTableMetadataFileChanged } from './lib/TableMetadata';
 
 
 // Create a connection for the server, using Node's IPC as a transport.
@@ -30,6 +68,7 @@ const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
+let hasFormattingDynamicRegistrationCapability = false;
 let workspaceRootFolders: WorkspaceFolder[] | null = null;
 let editedTextDocument: TextDocument;
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -46,6 +85,10 @@ connection.onInitialize((params: InitializeParams) => {
     hasWorkspaceFolderCapability = !!(
         capabilities.workspace && !!capabilities.workspace.workspaceFolders
     );
+    hasFormattingDynamicRegistrationCapability = !!(
+        capabilities.textDocument?.formatting?.dynamicRegistration &&
+        capabilities.textDocument?.rangeFormatting?.dynamicRegistration
+    );
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     hasDiagnosticRelatedInformationCapability = !!(
         capabilities.textDocument &&
@@ -53,6 +96,7 @@ connection.onInitialize((params: InitializeParams) => {
         capabilities.textDocument.publishDiagnostics.relatedInformation
     );
     initLiquidRuleEngine();
+    initLiquidDocumentation(params.initializationOptions?.l10nBundle);
 
     const result: InitializeResult = {
         capabilities: {
@@ -60,7 +104,25 @@ connection.onInitialize((params: InitializeParams) => {
             // Tell the client that this server supports code completion.
             completionProvider: {
                 resolveProvider: true
-            }
+            },
+            hoverProvider: true,
+            signatureHelpProvider: {
+                triggerCharacters: [' ', ':', ','],
+                retriggerCharacters: [' ', ',']
+            },
+            definitionProvider: true,
+            referencesProvider: true,
+            renameProvider: {
+                prepareProvider: true
+            },
+            // Clients that cannot register the formatters for the sites in the workspace only get them for all HTML
+            documentFormattingProvider: !hasFormattingDynamicRegistrationCapability,
+            documentRangeFormattingProvider: !hasFormattingDynamicRegistrationCapability,
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.RefactorRewrite]
+            },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true
         }
     };
     if (hasWorkspaceFolderCapability) {
@@ -83,6 +145,56 @@ connection.onInitialized(() => {
             // connection.console.log('Workspace folder change event received.');
         });
     }
+    updateFormattingRegistration();
+});
+
+connection.onDidChangeConfiguration(() => updateFormattingRegistration());
+
+// The formatters are registered for the HTML files of the sites in the workspace, and only while formatting is enabled
+let formattingRegistration: { siteFolders: string, unregistration?: BulkUnregistration } | undefined;
+let formattingRegistrationUpdate: Promise<void> = Promise.resolve();
+
+function updateFormattingRegistration(): void {
+    if (!hasFormattingDynamicRegistrationCapability) {
+        return;
+    }
+    formattingRegistrationUpdate = formattingRegistrationUpdate.then(async () => {
+        const settings: Partial<ILiquidFormatSettings> | null = hasConfigurationCapability
+            ? await connection.workspace.getConfiguration('powerPlatform.liquid.format')
+            : null;
+        const siteFolders = settings?.enable === false ? [] : findSiteFolders(workspaceRootFolders);
+        if (formattingRegistration?.siteFolders === siteFolders.join('\n')) {
+            return;
+        }
+        formattingRegistration?.unregistration?.dispose();
+        formattingRegistration = { siteFolders: siteFolders.join('\n') };
+        if (siteFolders.length === 0) {
+            return;
+        }
+        const documentSelector = siteFolders.map(siteFolder => ({ scheme: 'file', language: 'html', pattern: `${siteFolder.replace(/\\/g, '/')}/**` }));
+        const registrations = BulkRegistration.create();
+        registrations.add(DocumentFormattingRequest.type, { documentSelector });
+        registrations.add(DocumentRangeFormattingRequest.type, { documentSelector });
+        formattingRegistration.unregistration = await connection.client.register(registrations);
+    }).catch(() => {
+        // Formatting stays as it was registered last
+    });
+}
+
+connection.onNotification(SITE_MANIFEST_NOTIFICATION, (params: ISiteManifestParams) => {
+    setSiteManifest(params.portalConfigFolder, params.manifest);
+});
+
+// The client watches the .portalconfig, record and table folders, so record files and tables are re-read only after they change on disk
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+    params.changes.forEach(change => {
+        onRecordFileChanged(change.uri);
+        onTableMetadataFileChanged(change.uri);
+    });
+    // Sites may have been downloaded into or removed from the workspace
+    if (params.changes.some(change => change.uri.includes('/.portalconfig/'))) {
+        updateFormattingRegistration();
+    }
 });
 
 
@@ -90,15 +202,29 @@ connection.onInitialized(() => {
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent(change => {
     editedTextDocument = (change.document);
+    validateTextDocument(change.document);
 });
 
+documents.onDidClose(event => {
+    connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+});
+
+function validateTextDocument(textDocument: TextDocument): void {
+    // Only files of a downloaded site are Liquid; other html files may well use '{{' for something else
+    if (!getCachedPortalConfigFolderUrl(workspaceRootFolders, textDocument.uri)) {
+        return;
+    }
+    const diagnostics = getLiquidDiagnostics(textDocument, workspaceRootFolders);
+    connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+}
+
 // This handler provides the initial list of the completion items.
 connection.onCompletion(
     async (_textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> => {
         const pathOfFileBeingEdited = _textDocumentPosition.textDocument.uri;
         const rowIndex = _textDocumentPosition.position.line;
         const colIndex = _textDocumentPosition.position.character;
-        return getSuggestions(rowIndex, colIndex, pathOfFileBeingEdited, workspaceRootFolders, editedTextDocument, connection);
+        return getSuggestions(rowIndex, colIndex, pathOfFileBeingEdited, workspaceRootFolders, documents.get(pathOfFileBeingEdited) ?? editedTextDocument, connection);
     }
 );
 
@@ -111,6 +237,99 @@ connection.onCompletionResolve(
     }
 );
 
+connection.onHover(
+    (params: HoverParams): Hover | undefined => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document || !getCachedPortalConfigFolderUrl(workspaceRootFolders, document.uri)) {
+            return undefined;
+        }
+        return getLiquidHover(document, params.position);
+    }
+);
+
+connection.onSignatureHelp(
+    (params: SignatureHelpParams): SignatureHelp | undefined => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document || !getCachedPortalConfigFolderUrl(workspaceRootFolders, document.uri)) {
+            return undefined;
+        }
+        return getLiquidSignatureHelp(document, params.position);
+    }
+);
+
+connection.onDefinition(
+    (params: DefinitionParams): Location[] => {
+        const document = documents.get(params.textDocument.uri);
+        return document ? getLiquidDefinition(document, params.position, workspaceRootFolders) : [];
+    }
+);
+
+connection.onReferences(
+    (params: ReferenceParams): Location[] => {
+        const document = documents.get(params.textDocument.uri);
+        return document
+            ? getLiquidReferenceLocations(document, params.position, params.context.includeDeclaration, workspaceRootFolders, uri => documents.get(uri))
+            : [];
+    }
+);
+
+connection.onPrepareRename(
+    (params: PrepareRenameParams): { range: Range, placeholder: string } | undefined => {
+        const document = documents.get(params.textDocument.uri);
+        return document ? prepareLiquidRename(document, params.position, workspaceRootFolders) : undefined;
+    }
+);
+
+connection.onRenameRequest(
+    (params: RenameParams): WorkspaceEdit | undefined => {
+        const document = documents.get(params.textDocument.uri);
+        return document ? getLiquidRenameEdit(document, params.position, params.newName, workspaceRootFolders, uri => documents.get(uri)) : undefined;
+    }
+);
+
+connection.onDocumentSymbol(
+    (params: DocumentSymbolParams): DocumentSymbol[] => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document || !getCachedPortalConfigFolderUrl(workspaceRootFolders, document.uri)) {
+            return [];
+        }
+        return getLiquidDocumentSymbols(document);
+    }
+);
+
+connection.onWorkspaceSymbol(
+    (params: WorkspaceSymbolParams): SymbolInformation[] => getLiquidWorkspaceSymbols(params.query, workspaceRootFolders)
+);
+
+connection.onCodeAction(
+    (params: CodeActionParams): CodeAction[] => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document || !getCachedPortalConfigFolderUrl(workspaceRootFolders, document.uri)) {
+            return [];
+        }
+        return getLiquidCodeActions(document, params.range, params.context.diagnostics, workspaceRootFolders);
+    }
+);
+
+async function formatTextDocument(uri: string, options: FormattingOptions, range?: Range): Promise<TextEdit[]> {
+    const document = documents.get(uri);
+    if (!document || !getCachedPortalConfigFolderUrl(workspaceRootFolders, uri)) {
+        return [];
+    }
+    const settings: ILiquidFormatSettings = hasConfigurationCapability
+        ? { ...DEFAULT_LIQUID_FORMAT_SETTINGS, ...await connection.workspace.getConfiguration({ scopeUri: uri, section: 'powerPlatform.liquid.format' }) }
+        : DEFAULT_LIQUID_FORMAT_SETTINGS;
+    return formatLiquidDocument(document, options, settings, range);
+}
+
+connection.onDocumentFormatting(
+    (params: DocumentFormattingParams): Promise<TextEdit[]> => formatTextDocument(params.textDocument.uri, params.options)
+);
+
+connection.onDocumentRangeFormatting(
+    (params: DocumentRangeFormattingParams): Promise<TextEdit[]> => formatTextDocument(params.textDocument.uri, params.options, params.range)
+);
+
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -20,9 +20,12 @@ import {
     TextDocument
 } from 'vscode-languageserver-textdocument';
 import { IAutoCompleteTelemetryData } from '../common/TelemetryData';
+import { ISiteManifestParams, SITE_MANIFEST_NOTIFICATION } from '../common/SiteManifestNotification';
 import { sendTelemetryEvent } from './telemetry/ServerTelemetry';
 import { getEditedLineContent } from './lib/LineReader';
-import { getMatchedManifestRecords, IManifestElement } from './lib/PortalManifestReader';
+import { getMatchedManifestRecords, IManifestElement, withManifestRecordDetail } from './lib/PortalManifestReader';
+import { getMetadataCompletions, getMetadataDiagnostics } from './lib/MetadataValidation';
+import { getCachedPortalConfigFolderUrl, setSiteManifest } from './lib/ManifestIndex';
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -89,23 +92,58 @@ connection.onInitialized(() => {
     }
 });
 
+connection.onNotification(SITE_MANIFEST_NOTIFICATION, (params: ISiteManifestParams) => {
+    setSiteManifest(params.portalConfigFolder, params.manifest);
+});
 
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent(change => {
 	editedTextDocument = (change.document);
+    validateTextDocument(change.document);
 });
 
+documents.onDidClose(event => {
+    connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+});
+
+function validateTextDocument(textDocument: TextDocument): void {
+    if (!getCachedPortalConfigFolderUrl(workspaceRootFolders, textDocument.uri)) {
+        return;
+    }
+    const diagnostics = getMetadataDiagnostics(textDocument, workspaceRootFolders);
+    connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+}
+
 
 // This handler provides the initial list of the completion items.
 connection.onCompletion(
     async (_textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> => {
         const pathOfFileBeingEdited = _textDocumentPosition.textDocument.uri;
         const rowIndex = _textDocumentPosition.position.line;
+        // Record files with a known schema get attribute and value completion, other files and keys unknown to the
+        // schema fall back to record IDs
+        const metadataCompletionItems = getMetadataCompletions(editedTextDocument, _textDocumentPosition.position, workspaceRootFolders);
+        if (metadataCompletionItems) {
+            sendCompletionTelemetry('schema', metadataCompletionItems);
+            return metadataCompletionItems;
+        }
         return await getSuggestions(rowIndex, pathOfFileBeingEdited);
     }
 );
 
+function sendCompletionTelemetry(keyForCompletion: string, completionItems: CompletionItem[]) {
+    // we send telemetry data only in case of success, otherwise the logs will be bloated with unnecessary data
+    if (completionItems.length > 0) {
+        const telemetryData: IAutoCompleteTelemetryData = {
+            eventName: "AutoComplete",
+            properties: { server: 'yaml', keyForCompletion, success: 'true' },
+            measurements: { countOfAutoCompleteResults: completionItems.length },
+        };
+        sendTelemetryEvent(connection, telemetryData);
+    }
+}
+
 function getSuggestions(rowIndex: number, pathOfFileBeingEdited: string) {
     const telemetryData: IAutoCompleteTelemetryData = {
         eventName: "AutoComplete",
@@ -128,7 +166,8 @@ function getSuggestions(rowIndex: number, pathOfFileBeingEdited: string) {
                 const item: CompletionItem = {
                     label: element.DisplayName + " (" + element.RecordId + ")",
                     insertText: element.RecordId,
-                    kind: CompletionItemKind.Value
+                    kind: CompletionItemKind.Value,
+                    ...withManifestRecordDetail(element)
                 }
                 completionItems.push(item);
             });
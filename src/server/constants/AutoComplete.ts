@@ -6,10 +6,15 @@
 export const PORTAL_OBJECTS = ['ads', 'blogs', 'entities', 'entitylist', 'entityview', 'events', 'forloop', 'forums', 'knowledge', 'language', 'page', 'polls', 'request', 'searchindex', 'settings', 'sitemap', 'sitemarkers', 'snippets', 'tablerowloop', 'user', 'weblinks', 'website'];
 export const ENTITY_FORM_ATTRIBUTES = ['id', 'name', 'key', 'language_code'];
 export const ENTITY_LIST_ATTRIBUTES = ['id', 'name', 'key', 'language_code'];
+export const ENTITY_VIEW_ATTRIBUTES = ['id', 'logical_name', 'name', 'filter', 'metafilter', 'order', 'page', 'page_size', 'search', 'enable_entity_permissions', 'language_code'];
 export const WEB_FORM_ATTRIBUTES = ['id', 'name', 'key', 'language_code'];
 export const PAGE_ATTRIBUTES = ['adx_copy', 'adx_summary', 'adx_title', 'adx_partialurl'];
 export const EDITABLE_ATTRIBUTES = ['class', 'default', 'escape', 'liquid', 'tag', 'title', 'type'];
-export const PORTAL_FILTERS = ['concat', 'except', 'first', 'join', 'last', 'order_by', 'random'];
+export const CHART_ATTRIBUTES = ['id', 'viewid'];
+export const PORTAL_FILTERS = ['add_query', 'base', 'batch', 'boolean', 'concat', 'current_sort', 'date_add_days', 'date_add_hours', 'date_add_minutes', 'date_add_months', 'date_add_seconds', 'date_add_years', 'date_to_iso8601', 'date_to_rfc822', 'decimal', 'except', 'file_size', 'first', 'group_by', 'h', 'has_role', 'host', 'integer', 'join', 'last', 'liquid', 'metafilters', 'order_by', 'path', 'path_and_query', 'port', 'random', 'remove_query', 'reverse_sort', 'scheme', 'select', 'shuffle', 'skip', 'string', 'take', 'text_to_html', 'then_by', 'truncate_words', 'xml_escape'];
+export const STANDARD_FILTERS = ['abs', 'append', 'at_least', 'at_most', 'capitalize', 'ceil', 'compact', 'concat', 'date', 'default', 'divided_by', 'downcase', 'escape', 'escape_once', 'first', 'floor', 'join', 'last', 'lstrip', 'map', 'minus', 'modulo', 'newline_to_br', 'plus', 'prepend', 'remove', 'remove_first', 'remove_last', 'replace', 'replace_first', 'replace_last', 'reverse', 'round', 'rstrip', 'size', 'slice', 'sort', 'sort_natural', 'split', 'strip', 'strip_html', 'strip_newlines', 'sum', 'times', 'truncate', 'truncatewords', 'uniq', 'upcase', 'url_decode', 'url_encode', 'url_escape', 'where'];
+// Tags that must be closed by a matching `end<name>` tag
+export const BLOCK_TAGS = ['block', 'capture', 'case', 'comment', 'entitylist', 'entityview', 'fetchxml', 'for', 'if', 'raw', 'searchindex', 'substitution', 'tablerow', 'unless'];
 
 export const AUTO_COMPLETE_PLACEHOLDER = '_AUTO_COMPLETE_PLACEHOLDER_'
 
@@ -30,4 +35,14 @@ export const OBJECT_ATTRIBUTES_MAP = new Map([
     ['tablerowloop', ['Col', 'col0', 'col_first', 'col_last', 'First', 'Index', 'index0', 'Last', 'length', 'rindex', 'rindex0']],
     ['user', ['roles', 'basic_badges_url']],
     ['website', ['sign_in_url', 'sign_out_url']]
-]);
\ No newline at end of file
+]);
+
+// The named parameters of the Power Pages tags, e.g. name in {% entityform name:'Contact Us' %}
+export const TAG_PARAMETERS_MAP = new Map([
+    ['chart', CHART_ATTRIBUTES],
+    ['editable', EDITABLE_ATTRIBUTES],
+    ['entityform', ENTITY_FORM_ATTRIBUTES],
+    ['entitylist', ENTITY_LIST_ATTRIBUTES],
+    ['entityview', ENTITY_VIEW_ATTRIBUTES],
+    ['webform', WEB_FORM_ATTRIBUTES]
+]);
@@ -0,0 +1,284 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as l10n from '@vscode/l10n';
+
+// Documentation of the Power Pages Liquid language shown on hover. The descriptions are translated through the l10n
+// bundle of the extension, so the documentation is built once the server has loaded it.
+
+export interface ILiquidDocumentationEntry {
+    description: string;
+    type?: string;
+    example?: string;
+}
+
+export interface ILiquidDocumentation {
+    objects: Record<string, ILiquidDocumentationEntry>;
+    // Keyed by '<object>.<attribute>'
+    attributes: Record<string, ILiquidDocumentationEntry>;
+    tags: Record<string, ILiquidDocumentationEntry>;
+    // Keyed by '<tag>.<parameter>'
+    parameters: Record<string, ILiquidDocumentationEntry>;
+    filters: Record<string, ILiquidDocumentationEntry>;
+}
+
+export const createLiquidDocumentation = (): ILiquidDocumentation => ({
+    objects: {
+        ads: { type: 'object', description: l10n.t('Retrieves ads and ad placements configured for the site.'), example: "{% assign placement = ads.placements['Sidebar'] %}" },
+        blogs: { type: 'object', description: l10n.t('Retrieves the blogs of the site and their posts.'), example: "{% for post in blogs.posts %}{{ post.title }}{% endfor %}" },
+        entities: { type: 'object', description: l10n.t('Loads any Microsoft Dataverse table row by logical name and ID, subject to table permissions.'), example: "{% assign account = entities.account['936DA01F-9ABD-4d9d-80C7-02AF85C822A8'] %}" },
+        entitylist: { type: 'object', description: l10n.t('Attributes of the list that is loaded by an enclosing entitylist tag.'), example: "{% entitylist name:'Cases' %}{{ entitylist.page_size }}{% endentitylist %}" },
+        entityview: { type: 'object', description: l10n.t('A view of a list, available inside an entityview tag.'), example: "{% entityview logical_name:'contact', name:'Active Contacts' %}{{ entityview.total_records }}{% endentityview %}" },
+        events: { type: 'object', description: l10n.t('Retrieves events and their occurrences.'), example: "{% for occurrence in events.occurences %}{{ occurrence.start_time }}{% endfor %}" },
+        forloop: { type: 'object', description: l10n.t('Information about the enclosing for loop, such as the current index.'), example: "{% for item in items %}{{ forloop.index }}{% endfor %}" },
+        forums: { type: 'object', description: l10n.t('Retrieves the forums of the site, their threads and posts.'), example: "{% for forum in forums %}{{ forum.name }}{% endfor %}" },
+        knowledge: { type: 'object', description: l10n.t('Retrieves knowledge articles and categories.'), example: "{% assign articles = knowledge.articles | top: 5 %}" },
+        language: { type: 'object', description: l10n.t('The current language of the site, when multiple languages are enabled.'), example: "{{ language.code }}" },
+        page: { type: 'object', description: l10n.t('The web page that is currently being rendered.'), example: "<h1>{{ page.title }}</h1>" },
+        polls: { type: 'object', description: l10n.t('Retrieves polls and poll placements.'), example: "{% assign poll = polls.placements['Home'] %}" },
+        request: { type: 'object', description: l10n.t('Information about the current HTTP request.'), example: "{{ request.params['id'] }}" },
+        searchindex: { type: 'object', description: l10n.t('Search results, available inside a searchindex tag.'), example: "{% searchindex query: request.params.q %}{{ searchindex.approximate_total_hits }}{% endsearchindex %}" },
+        settings: { type: 'object', description: l10n.t('Loads any site setting by name.'), example: "{{ settings['Search/Enabled'] }}" },
+        sitemap: { type: 'object', description: l10n.t('The site map of the site, starting at the home page.'), example: "{% for child in sitemap.root.children %}{{ child.title }}{% endfor %}" },
+        sitemarkers: { type: 'object', description: l10n.t('Loads any site marker by name.'), example: "<a href=\"{{ sitemarkers['Login'].url }}\">Sign in</a>" },
+        snippets: { type: 'object', description: l10n.t('Loads any content snippet by name.'), example: "{{ snippets['Footer/Copyright'] }}" },
+        tablerowloop: { type: 'object', description: l10n.t('Information about the enclosing tablerow loop.'), example: "{% tablerow item in items %}{{ tablerowloop.col }}{% endtablerow %}" },
+        user: { type: 'object', description: l10n.t('The signed-in contact. Returns null for anonymous users.'), example: "{% if user %}Hello, {{ user.fullname }}{% endif %}" },
+        weblinks: { type: 'object', description: l10n.t('Loads any web link set by name or ID.'), example: "{% assign nav = weblinks['Primary Navigation'] %}" },
+        website: { type: 'object', description: l10n.t('The website record of the site.'), example: "{{ website.name }}" }
+    },
+    attributes: {
+        'ads.placements': { type: 'dictionary', description: l10n.t('Ad placements, indexed by name or ID.') },
+        'blogs.posts': { type: 'array', description: l10n.t('The most recent posts of all blogs.') },
+        'entitylist.create_enabled': { type: 'boolean', description: l10n.t('Whether creating new records from the list is enabled.') },
+        'entitylist.create_url': { type: 'string', description: l10n.t('The URL of the page used to create new records.') },
+        'entitylist.detail_enabled': { type: 'boolean', description: l10n.t('Whether a details view is configured for the list.') },
+        'entitylist.detail_id_parameter': { type: 'string', description: l10n.t('The query string parameter that carries the record ID to the details page.') },
+        'entitylist.detail_label': { type: 'string', description: l10n.t('The label of the details link.') },
+        'entitylist.detail_url': { type: 'string', description: l10n.t('The URL of the details page.') },
+        'entitylist.empty_list_text': { type: 'string', description: l10n.t('The text shown when the list has no records.') },
+        'entitylist.enable_entity_permissions': { type: 'boolean', description: l10n.t('Whether table permissions are applied to the list.') },
+        'entitylist.entity_logical_name': { type: 'string', description: l10n.t('The logical name of the table the list displays.') },
+        'entitylist.filter_account_attribute_name': { type: 'string', description: l10n.t('The column that relates records to the account of the signed-in user.') },
+        'entitylist.filter_apply_label': { type: 'string', description: l10n.t('The label of the button that applies metadata filters.') },
+        'entitylist.filter_definition': { type: 'string', description: l10n.t('The FetchXML definition of the metadata filters.') },
+        'entitylist.filter_enabled': { type: 'boolean', description: l10n.t('Whether metadata filtering is enabled.') },
+        'entitylist.filter_portal_user_attribute_name': { type: 'string', description: l10n.t('The column that relates records to the signed-in contact.') },
+        'entitylist.filter_website_attribute_name': { type: 'string', description: l10n.t('The column that relates records to the current website.') },
+        'entitylist.language_code': { type: 'integer', description: l10n.t('The Dataverse language code used for labels.') },
+        'entitylist.page_size': { type: 'integer', description: l10n.t('The number of records per page.') },
+        'entitylist.primary_key_name': { type: 'string', description: l10n.t('The logical name of the primary key column.') },
+        'entitylist.search_enabled': { type: 'boolean', description: l10n.t('Whether search is enabled for the list.') },
+        'entitylist.search_placeholder': { type: 'string', description: l10n.t('The placeholder text of the search box.') },
+        'entitylist.search_tooltip': { type: 'string', description: l10n.t('The tooltip of the search box.') },
+        'entitylist.views': { type: 'array', description: l10n.t('The views available for the list.') },
+        'entityview.columns': { type: 'array', description: l10n.t('The columns of the view.') },
+        'entityview.entity_permission_denied': { type: 'boolean', description: l10n.t('Whether access to the view was denied by table permissions.') },
+        'entityview.entity_logical_name': { type: 'string', description: l10n.t('The logical name of the table of the view.') },
+        'entityview.first_page': { type: 'integer', description: l10n.t('The number of the first page.') },
+        'entityview.language_code': { type: 'integer', description: l10n.t('The Dataverse language code used for labels.') },
+        'entityview.last_page': { type: 'integer', description: l10n.t('The number of the last page.') },
+        'entityview.name': { type: 'string', description: l10n.t('The name of the view.') },
+        'entityview.next_page': { type: 'integer', description: l10n.t('The number of the next page, or null on the last page.') },
+        'entityview.pages': { type: 'array', description: l10n.t('The numbers of all pages.') },
+        'entityview.page_size': { type: 'integer', description: l10n.t('The number of records per page.') },
+        'entityview.previous_page': { type: 'integer', description: l10n.t('The number of the previous page, or null on the first page.') },
+        'entityview.primary_key_logical_name': { type: 'string', description: l10n.t('The logical name of the primary key column.') },
+        'entityview.records': { type: 'array', description: l10n.t('The records of the current page.') },
+        'entityview.sort_expression': { type: 'string', description: l10n.t('The sort expression of the view.') },
+        'entityview.total_pages': { type: 'integer', description: l10n.t('The total number of pages.') },
+        'entityview.total_records': { type: 'integer', description: l10n.t('The total number of records.') },
+        'events.occurences': { type: 'array', description: l10n.t('The occurrences of the events.') },
+        'forloop.first': { type: 'boolean', description: l10n.t('True on the first iteration.') },
+        'forloop.index': { type: 'integer', description: l10n.t('The current iteration, starting at 1.') },
+        'forloop.index0': { type: 'integer', description: l10n.t('The current iteration, starting at 0.') },
+        'forloop.length': { type: 'integer', description: l10n.t('The number of iterations.') },
+        'forloop.rindex': { type: 'integer', description: l10n.t('The number of remaining iterations, ending at 1.') },
+        'forloop.rindex0': { type: 'integer', description: l10n.t('The number of remaining iterations, ending at 0.') },
+        'forums.threads': { type: 'array', description: l10n.t('The most recent threads of all forums.') },
+        'forums.thread_count': { type: 'integer', description: l10n.t('The number of threads in all forums.') },
+        'forums.post_count': { type: 'integer', description: l10n.t('The number of posts in all forums.') },
+        'knowledge.articles': { type: 'object', description: l10n.t('Gives access to popular, recent and top knowledge articles.') },
+        'knowledge.categories': { type: 'object', description: l10n.t('Gives access to knowledge article categories.') },
+        'language.url': { type: 'string', description: l10n.t('The URL of the current request in this language.') },
+        'language.url_substitution': { type: 'string', description: l10n.t('The URL of the current request in this language, bypassing the output cache.') },
+        'language.name': { type: 'string', description: l10n.t('The name of the language.') },
+        'language.code': { type: 'string', description: l10n.t('The language code, e.g. en-US.') },
+        'page.breadcrumbs': { type: 'array', description: l10n.t('The site map nodes from the home page to the parent of this page.') },
+        'page.children': { type: 'array', description: l10n.t('The child site map nodes of this page.') },
+        'page.parent': { type: 'object', description: l10n.t('The parent site map node of this page.') },
+        'page.title': { type: 'string', description: l10n.t('The title of the page.') },
+        'page.url': { type: 'string', description: l10n.t('The URL of the page.') },
+        'page.adx_copy': { type: 'string', description: l10n.t('The copy (HTML content) of the page.') },
+        'page.adx_summary': { type: 'string', description: l10n.t('The summary of the page.') },
+        'page.adx_title': { type: 'string', description: l10n.t('The title column of the web page record.') },
+        'page.adx_partialurl': { type: 'string', description: l10n.t('The partial URL of the page.') },
+        'polls.placements': { type: 'dictionary', description: l10n.t('Poll placements, indexed by name or ID.') },
+        'request.params': { type: 'dictionary', description: l10n.t('The query string, form and cookie values of the request.') },
+        'request.path': { type: 'string', description: l10n.t('The path of the request URL.') },
+        'request.path_and_query': { type: 'string', description: l10n.t('The path and query string of the request URL.') },
+        'request.query': { type: 'string', description: l10n.t('The query string of the request URL.') },
+        'request.url': { type: 'string', description: l10n.t('The full URL of the request.') },
+        'searchindex.approximate_total_hits': { type: 'integer', description: l10n.t('The approximate number of results.') },
+        'searchindex.page': { type: 'integer', description: l10n.t('The current page number.') },
+        'searchindex.page_size': { type: 'integer', description: l10n.t('The number of results per page.') },
+        'searchindex.results': { type: 'array', description: l10n.t('The results of the current page.') },
+        'tablerowloop.col': { type: 'integer', description: l10n.t('The current column, starting at 1.') },
+        'tablerowloop.col0': { type: 'integer', description: l10n.t('The current column, starting at 0.') },
+        'tablerowloop.col_first': { type: 'boolean', description: l10n.t('True in the first column.') },
+        'tablerowloop.col_last': { type: 'boolean', description: l10n.t('True in the last column.') },
+        'tablerowloop.first': { type: 'boolean', description: l10n.t('True on the first iteration.') },
+        'tablerowloop.index': { type: 'integer', description: l10n.t('The current iteration, starting at 1.') },
+        'tablerowloop.index0': { type: 'integer', description: l10n.t('The current iteration, starting at 0.') },
+        'tablerowloop.last': { type: 'boolean', description: l10n.t('True on the last iteration.') },
+        'tablerowloop.length': { type: 'integer', description: l10n.t('The number of iterations.') },
+        'tablerowloop.rindex': { type: 'integer', description: l10n.t('The number of remaining iterations, ending at 1.') },
+        'tablerowloop.rindex0': { type: 'integer', description: l10n.t('The number of remaining iterations, ending at 0.') },
+        'user.roles': { type: 'array', description: l10n.t('The names of the web roles of the signed-in contact.') },
+        'user.basic_badges_url': { type: 'string', description: l10n.t('The URL of the badges of the signed-in contact.') },
+        'website.sign_in_url': { type: 'string', description: l10n.t('The URL of the sign-in page.') },
+        'website.sign_out_url': { type: 'string', description: l10n.t('The URL that signs the user out.') }
+    },
+    tags: {
+        chart: { description: l10n.t('Renders a Dataverse chart.'), example: "{% chart id:'EE3C733D-7F7C-4B86-A1D9-4C97C8A97E8F' viewid:'00000000-0000-0000-00AA-000010001006' %}" },
+        editable: { description: l10n.t('Renders an object, such as a page or content snippet, so that it can be edited in place by content editors.'), example: "{% editable snippets 'Footer/Copyright' type: 'html' %}" },
+        entityform: { description: l10n.t('Renders a basic form by name or ID.'), example: "{% entityform name:'Contact Us' %}" },
+        entitylist: { description: l10n.t('Loads a list by name or ID and makes its attributes available in the entitylist object.'), example: "{% entitylist name:'Cases' %}...{% endentitylist %}" },
+        entityview: { description: l10n.t('Loads a view of a list and makes its records available in the entityview object.'), example: "{% entityview logical_name:'contact', name:'Active Contacts' %}...{% endentityview %}" },
+        fetchxml: { description: l10n.t('Runs a FetchXML query against Dataverse, subject to table permissions.'), example: "{% fetchxml query %}<fetch>...</fetch>{% endfetchxml %}" },
+        include: { description: l10n.t('Renders a web template by name.'), example: "{% include 'Breadcrumbs' %}" },
+        searchindex: { description: l10n.t('Runs a search query and makes the results available in the searchindex object.'), example: "{% searchindex query: request.params.q, page: 1 %}...{% endsearchindex %}" },
+        substitution: { description: l10n.t('Renders its contents on every request, bypassing the output cache.'), example: "{% substitution %}{{ user.fullname }}{% endsubstitution %}" },
+        webform: { description: l10n.t('Renders a multistep form by name or ID.'), example: "{% webform name:'Registration' %}" }
+    },
+    parameters: {
+        'chart.id': { type: 'string', description: l10n.t('The ID of the chart.') },
+        'chart.viewid': { type: 'string', description: l10n.t('The ID of the view whose records the chart displays.') },
+        'editable.class': { type: 'string', description: l10n.t('The CSS class of the element that wraps the content.') },
+        'editable.default': { type: 'string', description: l10n.t('The content shown when the value is empty.') },
+        'editable.escape': { type: 'boolean', description: l10n.t('Whether the value is HTML-encoded.') },
+        'editable.liquid': { type: 'boolean', description: l10n.t('Whether Liquid in the value is rendered.') },
+        'editable.tag': { type: 'string', description: l10n.t('The HTML element that wraps the content, div by default.') },
+        'editable.title': { type: 'string', description: l10n.t('The label of the content in the editing interface.') },
+        'editable.type': { type: 'string', description: l10n.t("The editor used to edit the content, 'html' or 'text'.") },
+        'entityform.id': { type: 'string', description: l10n.t('The ID of the basic form.') },
+        'entityform.name': { type: 'string', description: l10n.t('The name of the basic form.') },
+        'entityform.key': { type: 'string', description: l10n.t('The ID or name of the basic form.') },
+        'entityform.language_code': { type: 'integer', description: l10n.t('The Dataverse language code of the labels, e.g. 1033.') },
+        'entitylist.id': { type: 'string', description: l10n.t('The ID of the list.') },
+        'entitylist.name': { type: 'string', description: l10n.t('The name of the list.') },
+        'entitylist.key': { type: 'string', description: l10n.t('The ID or name of the list.') },
+        'entitylist.language_code': { type: 'integer', description: l10n.t('The Dataverse language code of the labels, e.g. 1033.') },
+        'entityview.id': { type: 'string', description: l10n.t('The ID of the view.') },
+        'entityview.logical_name': { type: 'string', description: l10n.t('The logical name of the table of the view.') },
+        'entityview.name': { type: 'string', description: l10n.t('The name of the view.') },
+        'entityview.filter': { type: 'string', description: l10n.t("Filters the records by owner, 'user' or 'account'.") },
+        'entityview.metafilter': { type: 'string', description: l10n.t('The filter options selected on the list, as passed in the query string.') },
+        'entityview.order': { type: 'string', description: l10n.t("The sort expression, e.g. 'fullname ASC'.") },
+        'entityview.page': { type: 'integer', description: l10n.t('The page of records to load, starting at 1.') },
+        'entityview.page_size': { type: 'integer', description: l10n.t('The number of records per page.') },
+        'entityview.search': { type: 'string', description: l10n.t('Filters the records by a search query.') },
+        'entityview.enable_entity_permissions': { type: 'boolean', description: l10n.t('Whether table permissions are applied to the records.') },
+        'entityview.language_code': { type: 'integer', description: l10n.t('The Dataverse language code of the labels, e.g. 1033.') },
+        'webform.id': { type: 'string', description: l10n.t('The ID of the multistep form.') },
+        'webform.name': { type: 'string', description: l10n.t('The name of the multistep form.') },
+        'webform.key': { type: 'string', description: l10n.t('The ID or name of the multistep form.') },
+        'webform.language_code': { type: 'integer', description: l10n.t('The Dataverse language code of the labels, e.g. 1033.') }
+    },
+    filters: {
+        add_query: { description: l10n.t('Adds a query string parameter to a URL.'), example: "{{ request.url | add_query: 'page', 2 }}" },
+        base: { description: l10n.t('Returns the base URL, i.e. the scheme and host, of a URL.'), example: "{{ request.url | base }}" },
+        batch: { description: l10n.t('Divides an array into arrays of the given size.'), example: "{% assign rows = items | batch: 3 %}" },
+        boolean: { description: l10n.t('Converts a string to a boolean.'), example: "{% assign enabled = settings['Search/Enabled'] | boolean %}" },
+        concat: { description: l10n.t('Concatenates two arrays.'), example: "{% assign all = first | concat: second %}" },
+        current_sort: { description: l10n.t('Returns the sort direction of a column in a sort expression.'), example: "{{ params.sort | current_sort: 'createdon' }}" },
+        date_add_days: { description: l10n.t('Adds days to a date. The number may be negative.'), example: "{{ now | date_add_days: 7 }}" },
+        date_add_hours: { description: l10n.t('Adds hours to a date.'), example: "{{ now | date_add_hours: 1 }}" },
+        date_add_minutes: { description: l10n.t('Adds minutes to a date.'), example: "{{ now | date_add_minutes: 30 }}" },
+        date_add_months: { description: l10n.t('Adds months to a date.'), example: "{{ now | date_add_months: 1 }}" },
+        date_add_seconds: { description: l10n.t('Adds seconds to a date.'), example: "{{ now | date_add_seconds: 90 }}" },
+        date_add_years: { description: l10n.t('Adds years to a date.'), example: "{{ now | date_add_years: 1 }}" },
+        date_to_iso8601: { description: l10n.t('Formats a date according to ISO 8601.'), example: "{{ now | date_to_iso8601 }}" },
+        date_to_rfc822: { description: l10n.t('Formats a date according to RFC 822.'), example: "{{ now | date_to_rfc822 }}" },
+        decimal: { description: l10n.t('Converts a value to a decimal number.'), example: "{{ '10.5' | decimal }}" },
+        except: { description: l10n.t('Removes the objects whose attribute has the given value from an array.'), example: "{% assign others = contacts | except: 'lastname', 'Smith' %}" },
+        file_size: { description: l10n.t('Formats a number of bytes as a human readable size.'), example: "{{ 10000 | file_size }}" },
+        first: { description: l10n.t('Returns the first element of an array.'), example: "{{ page.children | first }}" },
+        group_by: { description: l10n.t('Groups the objects of an array by an attribute.'), example: "{% assign groups = contacts | group_by: 'parentcustomerid.name' %}" },
+        h: { description: l10n.t('HTML-encodes a string.'), example: "{{ request.params.q | h }}" },
+        has_role: { description: l10n.t('Returns whether a user has the given web role.'), example: "{% if user | has_role: 'Administrators' %}...{% endif %}" },
+        host: { description: l10n.t('Returns the host of a URL.'), example: "{{ request.url | host }}" },
+        integer: { description: l10n.t('Converts a value to an integer.'), example: "{{ '10' | integer }}" },
+        join: { description: l10n.t('Joins the elements of an array with a separator.'), example: "{{ user.roles | join: ', ' }}" },
+        last: { description: l10n.t('Returns the last element of an array.'), example: "{{ page.breadcrumbs | last }}" },
+        liquid: { description: l10n.t('Renders a string as a Liquid template.'), example: "{{ page.adx_copy | liquid }}" },
+        metafilters: { description: l10n.t('Parses the filter definition of a list into filter option groups.'), example: "{% assign filters = entitylist | metafilters: params.mf %}" },
+        order_by: { description: l10n.t('Sorts the objects of an array by an attribute.'), example: "{% assign sorted = contacts | order_by: 'fullname', 'desc' %}" },
+        path: { description: l10n.t('Returns the path of a URL.'), example: "{{ request.url | path }}" },
+        path_and_query: { description: l10n.t('Returns the path and query string of a URL.'), example: "{{ request.url | path_and_query }}" },
+        port: { description: l10n.t('Returns the port of a URL.'), example: "{{ request.url | port }}" },
+        random: { description: l10n.t('Returns a random element of an array.'), example: "{{ quotes | random }}" },
+        remove_query: { description: l10n.t('Removes a query string parameter from a URL.'), example: "{{ request.url | remove_query: 'page' }}" },
+        reverse_sort: { description: l10n.t('Returns the opposite direction of a sort direction.'), example: "{{ 'ASC' | reverse_sort }}" },
+        scheme: { description: l10n.t('Returns the scheme of a URL.'), example: "{{ request.url | scheme }}" },
+        select: { description: l10n.t('Returns the value of an attribute for every object of an array.'), example: "{% assign names = contacts | select: 'fullname' %}" },
+        shuffle: { description: l10n.t('Returns the elements of an array in random order.'), example: "{% assign shuffled = items | shuffle %}" },
+        skip: { description: l10n.t('Skips the given number of elements of an array.'), example: "{% assign rest = items | skip: 10 %}" },
+        string: { description: l10n.t('Converts a value to a string.'), example: "{{ 1234 | string }}" },
+        take: { description: l10n.t('Takes the given number of elements of an array.'), example: "{% assign top = items | take: 5 %}" },
+        text_to_html: { description: l10n.t('Formats plain text as HTML, encoding it and converting line breaks and URLs.'), example: "{{ comment.text | text_to_html }}" },
+        then_by: { description: l10n.t('Adds a secondary sort to an array sorted by order_by.'), example: "{% assign sorted = contacts | order_by: 'lastname' | then_by: 'firstname' %}" },
+        truncate_words: { description: l10n.t('Truncates a string to the given number of words.'), example: "{{ page.adx_summary | truncate_words: 20 }}" },
+        xml_escape: { description: l10n.t('XML-encodes a string, e.g. for use in FetchXML.'), example: "{{ request.params.q | xml_escape }}" },
+        abs: { description: l10n.t('Returns the absolute value of a number.'), example: "{{ -5 | abs }}" },
+        append: { description: l10n.t('Appends a string to the end of another.'), example: "{{ page.url | append: '?print=1' }}" },
+        at_least: { description: l10n.t('Limits a number to a minimum value.'), example: "{{ count | at_least: 1 }}" },
+        at_most: { description: l10n.t('Limits a number to a maximum value.'), example: "{{ count | at_most: 10 }}" },
+        capitalize: { description: l10n.t('Capitalizes the first character of a string.'), example: "{{ 'title' | capitalize }}" },
+        ceil: { description: l10n.t('Rounds a number up to the nearest integer.'), example: "{{ 4.2 | ceil }}" },
+        compact: { description: l10n.t('Removes null values from an array.'), example: "{% assign names = names | compact %}" },
+        date: { description: l10n.t('Formats a date using a .NET format string.'), example: "{{ now | date: 'yyyy-MM-dd' }}" },
+        default: { description: l10n.t('Returns the given value when the input is null, false or empty.'), example: "{{ user.fullname | default: 'Guest' }}" },
+        divided_by: { description: l10n.t('Divides a number by another.'), example: "{{ total | divided_by: 2 }}" },
+        downcase: { description: l10n.t('Converts a string to lowercase.'), example: "{{ page.title | downcase }}" },
+        escape: { description: l10n.t('HTML-escapes a string.'), example: "{{ request.params.q | escape }}" },
+        escape_once: { description: l10n.t('HTML-escapes a string without escaping existing entities again.'), example: "{{ text | escape_once }}" },
+        floor: { description: l10n.t('Rounds a number down to the nearest integer.'), example: "{{ 4.8 | floor }}" },
+        lstrip: { description: l10n.t('Removes whitespace from the start of a string.'), example: "{{ text | lstrip }}" },
+        map: { description: l10n.t('Returns the value of an attribute for every object of an array.'), example: "{% assign titles = pages | map: 'title' %}" },
+        minus: { description: l10n.t('Subtracts a number from another.'), example: "{{ total | minus: 1 }}" },
+        modulo: { description: l10n.t('Returns the remainder of a division.'), example: "{{ forloop.index | modulo: 2 }}" },
+        newline_to_br: { description: l10n.t('Replaces line breaks with <br> tags.'), example: "{{ text | newline_to_br }}" },
+        plus: { description: l10n.t('Adds a number to another.'), example: "{{ forloop.index | plus: 1 }}" },
+        prepend: { description: l10n.t('Prepends a string to the start of another.'), example: "{{ page.title | prepend: 'Contoso - ' }}" },
+        remove: { description: l10n.t('Removes every occurrence of a string.'), example: "{{ text | remove: 'foo' }}" },
+        remove_first: { description: l10n.t('Removes the first occurrence of a string.'), example: "{{ text | remove_first: 'foo' }}" },
+        remove_last: { description: l10n.t('Removes the last occurrence of a string.'), example: "{{ text | remove_last: 'foo' }}" },
+        replace: { description: l10n.t('Replaces every occurrence of a string.'), example: "{{ text | replace: 'foo', 'bar' }}" },
+        replace_first: { description: l10n.t('Replaces the first occurrence of a string.'), example: "{{ text | replace_first: 'foo', 'bar' }}" },
+        replace_last: { description: l10n.t('Replaces the last occurrence of a string.'), example: "{{ text | replace_last: 'foo', 'bar' }}" },
+        reverse: { description: l10n.t('Reverses the order of an array.'), example: "{% assign reversed = items | reverse %}" },
+        round: { description: l10n.t('Rounds a number to the given number of decimals.'), example: "{{ 4.567 | round: 2 }}" },
+        rstrip: { description: l10n.t('Removes whitespace from the end of a string.'), example: "{{ text | rstrip }}" },
+        size: { description: l10n.t('Returns the number of characters of a string or elements of an array.'), example: "{{ user.roles | size }}" },
+        slice: { description: l10n.t('Returns a substring or a subset of an array.'), example: "{{ text | slice: 0, 10 }}" },
+        sort: { description: l10n.t('Sorts an array, optionally by an attribute.'), example: "{% assign sorted = names | sort %}" },
+        sort_natural: { description: l10n.t('Sorts an array case-insensitively.'), example: "{% assign sorted = names | sort_natural %}" },
+        split: { description: l10n.t('Splits a string into an array by a separator.'), example: "{% assign parts = text | split: ',' %}" },
+        strip: { description: l10n.t('Removes whitespace from both ends of a string.'), example: "{{ text | strip }}" },
+        strip_html: { description: l10n.t('Removes HTML tags from a string.'), example: "{{ page.adx_copy | strip_html }}" },
+        strip_newlines: { description: l10n.t('Removes line breaks from a string.'), example: "{{ text | strip_newlines }}" },
+        sum: { description: l10n.t('Adds up the numbers of an array.'), example: "{{ amounts | sum }}" },
+        times: { description: l10n.t('Multiplies a number by another.'), example: "{{ price | times: 2 }}" },
+        truncate: { description: l10n.t('Truncates a string to the given number of characters.'), example: "{{ page.title | truncate: 20 }}" },
+        truncatewords: { description: l10n.t('Truncates a string to the given number of words.'), example: "{{ page.adx_summary | truncatewords: 20 }}" },
+        uniq: { description: l10n.t('Removes duplicate elements from an array.'), example: "{% assign roles = roles | uniq %}" },
+        upcase: { description: l10n.t('Converts a string to uppercase.'), example: "{{ page.title | upcase }}" },
+        url_decode: { description: l10n.t('Decodes a URL-encoded string.'), example: "{{ request.params.q | url_decode }}" },
+        url_encode: { description: l10n.t('URL-encodes a string.'), example: "{{ page.title | url_encode }}" },
+        url_escape: { description: l10n.t('URL-escapes a string, e.g. to use it as a query string value.'), example: "{{ page.title | url_escape }}" },
+        where: { description: l10n.t('Returns the objects of an array whose attribute has the given value.'), example: "{% assign active = contacts | where: 'statecode', 0 %}" }
+    }
+});
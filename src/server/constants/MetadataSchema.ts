@@ -0,0 +1,229 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+// Schemas of the YAML files that pac writes for the records of a downloaded site, by file type
+
+export type MetadataAttributeType = 'string' | 'boolean' | 'integer' | 'datetime' | 'guid' | 'lookup' | 'lookups' | 'optionset';
+
+export interface IMetadataAttribute {
+    type: MetadataAttributeType;
+    required?: boolean;
+    // Option-set values and their labels
+    options?: Record<number, string>;
+    // Entity whose records a lookup refers to, as named in the manifest
+    lookupEntity?: string;
+}
+
+export interface IMetadataSchema {
+    entityName: string;
+    displayName: string;
+    attributes: Record<string, IMetadataAttribute>;
+}
+
+const PUBLISHING_STATE: IMetadataAttribute = { type: 'lookup', lookupEntity: 'adx_publishingstate' };
+const WEB_PAGE: IMetadataAttribute = { type: 'lookup', lookupEntity: 'adx_webpage' };
+
+// Keyed by the file name suffix, e.g. Home.en-US.webpage.yml
+export const METADATA_SCHEMAS: Record<string, IMetadataSchema> = {
+    '.webpage.yml': {
+        entityName: 'adx_webpage',
+        displayName: 'web page',
+        attributes: {
+            adx_webpageid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_partialurl: { type: 'string', required: true },
+            adx_pagetemplateid: { type: 'lookup', required: true, lookupEntity: 'adx_pagetemplate' },
+            adx_parentpageid: WEB_PAGE,
+            adx_rootwebpageid: WEB_PAGE,
+            adx_webpagelanguageid: { type: 'lookup', lookupEntity: 'adx_websitelanguage' },
+            adx_publishingstateid: PUBLISHING_STATE,
+            adx_entityform: { type: 'lookup', lookupEntity: 'adx_entityform' },
+            adx_entitylist: { type: 'lookup', lookupEntity: 'adx_entitylist' },
+            adx_webform: { type: 'lookup', lookupEntity: 'adx_webform' },
+            adx_isroot: { type: 'boolean' },
+            adx_title: { type: 'string' },
+            adx_summary: { type: 'string' },
+            adx_copy: { type: 'string' },
+            adx_customcss: { type: 'string' },
+            adx_customjavascript: { type: 'string' },
+            adx_meta_description: { type: 'string' },
+            adx_displayorder: { type: 'integer' },
+            adx_displaydate: { type: 'datetime' },
+            adx_releasedate: { type: 'datetime' },
+            adx_expirationdate: { type: 'datetime' },
+            adx_hiddenfromsitemap: { type: 'boolean' },
+            adx_excludefromsearch: { type: 'boolean' },
+            adx_enablerating: { type: 'boolean' },
+            adx_enabletracking: { type: 'boolean' },
+            adx_sharedpageconfiguration: { type: 'boolean' },
+            adx_editorialcomments: { type: 'string' },
+            adx_navigation: { type: 'lookup', lookupEntity: 'adx_weblinkset' },
+            adx_subjectid: { type: 'guid' },
+            adx_feedbackpolicy: { type: 'optionset', options: { 756150000: 'Inherit', 756150001: 'Open', 756150002: 'Open to authenticated users', 756150003: 'Moderated', 756150004: 'Closed', 756150005: 'Disabled' } }
+        }
+    },
+    '.webtemplate.yml': {
+        entityName: 'adx_webtemplate',
+        displayName: 'web template',
+        attributes: {
+            adx_webtemplateid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_mimetype: { type: 'string' },
+            adx_source: { type: 'string' }
+        }
+    },
+    '.pagetemplate.yml': {
+        entityName: 'adx_pagetemplate',
+        displayName: 'page template',
+        attributes: {
+            adx_pagetemplateid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_type: { type: 'optionset', required: true, options: { 756150000: 'Rewrite', 756150001: 'Web Template' } },
+            adx_webtemplateid: { type: 'lookup', lookupEntity: 'adx_webtemplate' },
+            adx_rewriteurl: { type: 'string' },
+            adx_entityname: { type: 'string' },
+            adx_description: { type: 'string' },
+            adx_isdefault: { type: 'boolean' },
+            adx_usewebsiteheaderandfooter: { type: 'boolean' }
+        }
+    },
+    '.contentsnippet.yml': {
+        entityName: 'adx_contentsnippet',
+        displayName: 'content snippet',
+        attributes: {
+            adx_contentsnippetid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_display_name: { type: 'string' },
+            adx_contentsnippetlanguageid: { type: 'lookup', lookupEntity: 'adx_websitelanguage' },
+            adx_type: { type: 'optionset', options: { 756150000: 'Text', 756150001: 'HTML' } },
+            adx_value: { type: 'string' }
+        }
+    },
+    '.basicform.yml': {
+        entityName: 'adx_entityform',
+        displayName: 'basic form',
+        attributes: {
+            adx_entityformid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_entityname: { type: 'string', required: true },
+            adx_formname: { type: 'string', required: true },
+            adx_mode: { type: 'optionset', options: { 100000000: 'Insert', 100000001: 'Edit', 100000002: 'Read Only' } },
+            adx_entitysourcetype: { type: 'optionset', options: { 756150000: 'Query String', 756150001: 'Current Portal User', 756150002: 'Record Associated to Current Portal User' } },
+            adx_recordidquerystringparametername: { type: 'string' },
+            adx_onsuccess: { type: 'optionset', options: { 756150000: 'Display Success Message', 756150001: 'Redirect' } },
+            adx_successmessage: { type: 'string' },
+            adx_redirecturl: { type: 'string' },
+            adx_redirectwebpage: WEB_PAGE,
+            adx_submitbuttonlabel: { type: 'string' },
+            adx_hideformonsuccess: { type: 'boolean' },
+            adx_instructions: { type: 'string' },
+            adx_setentityreference: { type: 'boolean' },
+            adx_validationgroup: { type: 'string' },
+            adx_captcharequired: { type: 'boolean' },
+            adx_attachfile: { type: 'boolean' },
+            adx_tooltipenabled: { type: 'boolean' },
+            adx_entitypermissionsenabled: { type: 'boolean' },
+            adx_registerstartupscript: { type: 'string' },
+            adx_settings: { type: 'string' }
+        }
+    },
+    '.list.yml': {
+        entityName: 'adx_entitylist',
+        displayName: 'list',
+        attributes: {
+            adx_entitylistid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_entityname: { type: 'string', required: true },
+            adx_views: { type: 'string' },
+            adx_pagesize: { type: 'integer' },
+            adx_key: { type: 'string' },
+            adx_searchenabled: { type: 'boolean' },
+            adx_entitypermissionsenabled: { type: 'boolean' },
+            adx_filter_enabled: { type: 'boolean' },
+            adx_filter_definition: { type: 'string' },
+            adx_emptylisttext: { type: 'string' },
+            adx_createbuttonlabel: { type: 'string' },
+            adx_idquerystringparametername: { type: 'string' },
+            adx_webpagefordetailsview: WEB_PAGE,
+            adx_webpageforcreate: WEB_PAGE,
+            adx_calendar_enabled: { type: 'boolean' },
+            adx_map_enabled: { type: 'boolean' },
+            adx_odata_enabled: { type: 'boolean' },
+            adx_registerstartupscript: { type: 'string' },
+            adx_settings: { type: 'string' }
+        }
+    },
+    '.advancedform.yml': {
+        entityName: 'adx_webform',
+        displayName: 'multistep form',
+        attributes: {
+            adx_webformid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_startstep: { type: 'lookup', lookupEntity: 'adx_webformstep' },
+            adx_authenticationrequired: { type: 'boolean' },
+            adx_multiplerecordsperuserpermitted: { type: 'boolean' },
+            adx_startnewsessiononload: { type: 'boolean' },
+            adx_editexistingrecordpermitted: { type: 'boolean' },
+            adx_editnotpermittedmessage: { type: 'string' },
+            adx_progressindicatorenabled: { type: 'boolean' },
+            adx_progressindicatorignorelaststep: { type: 'boolean' },
+            adx_progressindicatortype: { type: 'optionset', options: { 756150000: 'Title', 756150001: 'Numeric', 756150002: 'Progress Bar' } },
+            adx_progressindicatorposition: { type: 'optionset', options: { 756150000: 'Top', 756150001: 'Bottom', 756150002: 'Left', 756150003: 'Right' } }
+        }
+    },
+    '.webfile.yml': {
+        entityName: 'adx_webfile',
+        displayName: 'web file',
+        attributes: {
+            adx_webfileid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_partialurl: { type: 'string', required: true },
+            adx_parentpageid: WEB_PAGE,
+            adx_publishingstateid: PUBLISHING_STATE,
+            adx_summary: { type: 'string' },
+            adx_displaydate: { type: 'datetime' },
+            adx_releasedate: { type: 'datetime' },
+            adx_expirationdate: { type: 'datetime' },
+            adx_hiddenfromsitemap: { type: 'boolean' },
+            adx_excludefromsearch: { type: 'boolean' },
+            adx_enabletracking: { type: 'boolean' },
+            adx_alloworigin: { type: 'string' },
+            adx_cloudblobaddress: { type: 'string' },
+            adx_contentdisposition: { type: 'optionset', options: { 756150000: 'Inline', 756150001: 'Attachment' } }
+        }
+    },
+    '.webrole.yml': {
+        entityName: 'adx_webrole',
+        displayName: 'web role',
+        attributes: {
+            adx_webroleid: { type: 'guid', required: true },
+            adx_name: { type: 'string', required: true },
+            adx_description: { type: 'string' },
+            adx_authenticatedusersrole: { type: 'boolean' },
+            adx_anonymoususersrole: { type: 'boolean' }
+        }
+    },
+    '.tablepermission.yml': {
+        entityName: 'adx_entitypermission',
+        displayName: 'table permission',
+        attributes: {
+            adx_entitypermissionid: { type: 'guid', required: true },
+            adx_entityname: { type: 'string', required: true },
+            adx_entitylogicalname: { type: 'string', required: true },
+            adx_scope: { type: 'optionset', required: true, options: { 756150000: 'Global', 756150001: 'Contact', 756150002: 'Account', 756150003: 'Parent', 756150004: 'Self' } },
+            adx_read: { type: 'boolean' },
+            adx_write: { type: 'boolean' },
+            adx_create: { type: 'boolean' },
+            adx_delete: { type: 'boolean' },
+            adx_append: { type: 'boolean' },
+            adx_appendto: { type: 'boolean' },
+            adx_parententitypermission: { type: 'lookup', lookupEntity: 'adx_entitypermission' },
+            adx_parentrelationship: { type: 'string' },
+            adx_contactrelationship: { type: 'string' },
+            adx_accountrelationship: { type: 'string' },
+            adx_entitypermission_webrole: { type: 'lookups', lookupEntity: 'adx_webrole' }
+        }
+    }
+};
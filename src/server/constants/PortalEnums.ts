@@ -16,17 +16,21 @@ export enum PortalEntityNames {
 
 export enum PortalTags {
     INCLUDE = 'include',
+    EXTENDS = 'extends',
     EDITABLE = 'editable',
     ENTITYFORM = 'entityform',
     WEBFORM = 'webform',
-    ENTITYLIST = 'entitylist'
+    ENTITYLIST = 'entitylist',
+    ENTITYVIEW = 'entityview',
+    CHART = 'chart'
 }
 
 export enum PortalObjects {
     SNIPPETS = 'snippets',
     SETTINGS = 'settings',
     WEBLINKS = 'weblinks',
-    SITEMARKER = 'sitemarker'
+    SITEMARKER = 'sitemarker',
+    ENTITIES = 'entities'
 }
 
 export enum PortalAttributeNames {
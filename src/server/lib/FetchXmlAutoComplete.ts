@@ -0,0 +1,86 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CompletionItem, CompletionItemKind, WorkspaceFolder } from "vscode-languageserver/node";
+import { getSiteTables, SiteTables } from "./TableMetadata";
+
+const FETCHXML_START_REGEX = /{%-?\s*fetchxml\b[\s\S]*?-?%}/g;
+const FETCHXML_END_REGEX = /{%-?\s*endfetchxml\s*-?%}/;
+const ENTITY_ELEMENT_REGEX = /<(\/?)(entity|link-entity)\b([^<>]*?)(\/?)>/g;
+// An XML attribute whose value is being typed, e.g. <attribute name="first
+const ATTRIBUTE_VALUE_REGEX = /<([\w-]+)\b[^<>]*?\b([\w-]+)\s*=\s*(['"])([^'"<>]*)$/;
+const NAME_ATTRIBUTE_REGEX = /\bname\s*=\s*(['"])(.*?)\1/;
+
+// Returns the FetchXML typed so far when the cursor is inside a fetchxml block
+const getFetchXmlBeforeCursor = (textBeforeCursor: string): string | undefined => {
+    const startRegex = new RegExp(FETCHXML_START_REGEX);
+    let startMatch: RegExpExecArray | null;
+    let fetchXmlBegin: number | undefined;
+    while ((startMatch = startRegex.exec(textBeforeCursor)) !== null) {
+        fetchXmlBegin = startMatch.index + startMatch[0].length;
+    }
+    if (fetchXmlBegin === undefined) {
+        return undefined;
+    }
+    const fetchXml = textBeforeCursor.slice(fetchXmlBegin);
+    return FETCHXML_END_REGEX.test(fetchXml) ? undefined : fetchXml;
+}
+
+// The tables of the entity and link-entity elements that enclose the cursor, innermost last
+const getEnclosingTables = (fetchXml: string): string[] => {
+    const tables: string[] = [];
+    const elementRegex = new RegExp(ENTITY_ELEMENT_REGEX);
+    let match: RegExpExecArray | null;
+    while ((match = elementRegex.exec(fetchXml)) !== null) {
+        const [, closing, , attributes, selfClosing] = match;
+        if (closing) {
+            tables.pop();
+        } else if (!selfClosing) {
+            tables.push(NAME_ATTRIBUTE_REGEX.exec(attributes)?.[2] ?? '');
+        }
+    }
+    return tables;
+}
+
+const toCompletionItems = (names: string[], partialMatch: string): CompletionItem[] =>
+    names.filter(name => name.includes(partialMatch.toLowerCase()))
+        .map(name => ({ label: name, insertText: name, kind: CompletionItemKind.Value }));
+
+const getColumns = (tables: SiteTables, tableName: string | undefined): string[] =>
+    tables.get(tableName?.toLowerCase() ?? '') ?? [];
+
+/**
+ * Completes table names in entity and link-entity elements, and column names in attribute, condition and order elements,
+ * of the FetchXML in a fetchxml block
+ */
+export const getFetchXmlSuggestions = (document: TextDocument, offset: number, workspaceRootFolders: WorkspaceFolder[] | null, pathOfFileBeingEdited: string): CompletionItem[] => {
+    const fetchXml = getFetchXmlBeforeCursor(document.getText().slice(0, offset));
+    const valueMatch = fetchXml !== undefined ? ATTRIBUTE_VALUE_REGEX.exec(fetchXml) : null;
+    if (fetchXml === undefined || !valueMatch) {
+        return [];
+    }
+
+    const [elementBeforeCursor, element, attribute, , partialMatch] = valueMatch;
+    const tables = getSiteTables(workspaceRootFolders, pathOfFileBeingEdited);
+    const enclosingTables = getEnclosingTables(fetchXml);
+    const enclosingTable = enclosingTables[enclosingTables.length - 1];
+    switch (`${element}.${attribute}`) {
+        case 'entity.name':
+        case 'link-entity.name':
+            return toCompletionItems(Array.from(tables.keys()), partialMatch);
+        case 'attribute.name':
+        case 'condition.attribute':
+        case 'order.attribute':
+            return toCompletionItems(getColumns(tables, enclosingTable), partialMatch);
+        case 'link-entity.from':
+            // The column of the linked table, named in the same element
+            return toCompletionItems(getColumns(tables, NAME_ATTRIBUTE_REGEX.exec(elementBeforeCursor)?.[2]), partialMatch);
+        case 'link-entity.to':
+            return toCompletionItems(getColumns(tables, enclosingTable), partialMatch);
+        default:
+            return [];
+    }
+}
@@ -5,14 +5,28 @@
 
 import { TagToken, Tokenizer, TokenKind } from "liquidjs";
 import { FilterToken, IdentifierToken, OutputToken, PropertyAccessToken } from "liquidjs/dist/tokens";
-import { CompletionItem, CompletionItemKind } from "vscode-languageserver/node";
-import { AUTO_COMPLETE_PLACEHOLDER, EDITABLE_ATTRIBUTES, ENTITY_FORM_ATTRIBUTES, ENTITY_LIST_ATTRIBUTES, PAGE_ATTRIBUTES, PORTAL_FILTERS, PORTAL_OBJECTS, WEB_FORM_ATTRIBUTES, OBJECT_ATTRIBUTES_MAP } from "../constants/AutoComplete";
+import { CompletionItem, CompletionItemKind, MarkupKind } from "vscode-languageserver/node";
+import { AUTO_COMPLETE_PLACEHOLDER, PAGE_ATTRIBUTES, PORTAL_FILTERS, PORTAL_OBJECTS, OBJECT_ATTRIBUTES_MAP, TAG_PARAMETERS_MAP } from "../constants/AutoComplete";
 import { PortalAttributeNames, PortalEntityNames, PortalObjects, PortalTags } from "../constants/PortalEnums";
 import { ILiquidRuleEngineContext } from "./LiquidAutoCompleteRuleEngine";
-import { getMatchedManifestRecords, IManifestElement } from "./PortalManifestReader";
+import { getLiquidDocumentation } from "./LiquidHoverProvider";
+import { getMatchedManifestRecords, IManifestElement, withManifestRecordDetail } from "./PortalManifestReader";
+import { getSiteTables } from "./TableMetadata";
 
 const DEFAULT_TAG_PRIORITY = 0;
 const QUOTES_REGEX = /['"]/g;
+// entities['contact'] or entities.contact, up to the cursor
+const ENTITIES_TABLE_REGEX = /\bentities\s*(\[\s*(['"])?|\.)(\w*)$/;
+// entities['contact'][id].firstname or entities.contact[id].firstname, up to the cursor
+const ENTITIES_COLUMN_REGEX = /\bentities\s*(?:\[\s*(['"])(\w+)\1\s*\]|\.(\w+))\s*\[[^\]]*\]\s*\.(\w*)$/;
+// An object and a property up to the cursor, e.g. user.full or settings['Footer
+const OBJECT_PROPERTY_REGEX = /(?:^|[^\w.\]'"])([A-Za-z_][\w-]*)\s*(?:\.|\[\s*['"]?)\w*$/;
+// A name up to the cursor at the start of an expression, e.g. after 'if', '==', 'and' or a filter argument
+const OBJECT_NAME_REGEX = /(?:^|[\s(=,:<>!])[A-Za-z_]?[\w-]*$/;
+// A filter name up to the cursor after a pipe, e.g. page.title | down
+const FILTER_NAME_REGEX = /\|\s*[\w-]*$/;
+// Tags whose arguments are expressions that can refer to objects and variables
+const EXPRESSION_TAGS = ['if', 'elsif', 'unless', 'case', 'when', 'assign', 'for', 'tablerow', 'echo', 'cycle'];
 
 
 export interface ILiquidAutoCompleteRule {
@@ -32,10 +46,51 @@ const getSuggestionsForEntity = (entityName: PortalEntityNames, ctx: ILiquidRule
             return {
                 label: record.DisplayName,
                 insertText: /["'].*['"]/.test(textForAutoComplete || '') ? toInsert : `'${toInsert}'`,
+                kind: CompletionItemKind.Value,
+                ...withManifestRecordDetail(record)
+            } as CompletionItem
+        });
+
+}
+
+const getTableSuggestions = (ctx: ILiquidRuleEngineContext, textForAutoComplete: string, addQuotes: boolean): CompletionItem[] => {
+    const partialMatch = textForAutoComplete.replace(QUOTES_REGEX, '').replace(AUTO_COMPLETE_PLACEHOLDER, '').toLowerCase()
+    return Array.from(getSiteTables(ctx.workspaceRootFolders, ctx.pathOfFileBeingEdited).keys())
+        .filter(tableName => tableName.includes(partialMatch))
+        .map(tableName => {
+            return {
+                label: tableName,
+                insertText: addQuotes ? `'${tableName}'` : tableName,
                 kind: CompletionItemKind.Value
             } as CompletionItem
         });
+}
 
+const getColumnSuggestions = (ctx: ILiquidRuleEngineContext, tableName: string, textForAutoComplete: string): CompletionItem[] => {
+    const partialMatch = textForAutoComplete.replace(QUOTES_REGEX, '').replace(AUTO_COMPLETE_PLACEHOLDER, '').toLowerCase()
+    return (getSiteTables(ctx.workspaceRootFolders, ctx.pathOfFileBeingEdited).get(tableName.toLowerCase()) ?? [])
+        .filter(columnName => columnName.includes(partialMatch))
+        .map(columnName => {
+            return {
+                label: columnName,
+                insertText: columnName,
+                kind: CompletionItemKind.Value
+            } as CompletionItem
+        });
+}
+
+// The named parameters of a tag, with their type and description
+const getTagParameterSuggestions = (tagName: PortalTags): CompletionItem[] => {
+    const documentation = getLiquidDocumentation()
+    return (TAG_PARAMETERS_MAP.get(tagName) ?? []).map(key => {
+        const entry = documentation.parameters[`${tagName}.${key}`]
+        return {
+            label: key,
+            insertText: `${key}:`,
+            kind: CompletionItemKind.Value,
+            ...(entry && { detail: entry.type, documentation: { kind: MarkupKind.Markdown, value: entry.description } })
+        } as CompletionItem
+    })
 }
 
 const portalObjectBaseRule = (liquidToken: OutputToken, entityName: PortalEntityNames, ctx: ILiquidRuleEngineContext) => {
@@ -85,21 +140,63 @@ const sitemakerObjectRule: ILiquidAutoCompleteRule = {
     }
 }
 
+const entitiesObjectRule: ILiquidAutoCompleteRule = {
+    name: 'entitiesObject',
+    isValid: (liquidToken) => liquidToken.content.includes(PortalObjects.ENTITIES) && liquidToken.content.includes(AUTO_COMPLETE_PLACEHOLDER),
+    priority: DEFAULT_TAG_PRIORITY,
+    apply: (liquidToken, ctx) => {
+        const contentBeforeCursor = liquidToken.content.substring(0, liquidToken.content.indexOf(AUTO_COMPLETE_PLACEHOLDER))
+        const columnMatch = ENTITIES_COLUMN_REGEX.exec(contentBeforeCursor)
+        if (columnMatch) {
+            return getColumnSuggestions(ctx, columnMatch[2] ?? columnMatch[3], columnMatch[4])
+        }
+        const tableMatch = ENTITIES_TABLE_REGEX.exec(contentBeforeCursor)
+        if (tableMatch) {
+            // entities[ needs a quoted name, entities[' and entities. do not
+            return getTableSuggestions(ctx, tableMatch[3], tableMatch[1].startsWith('[') && !tableMatch[2])
+        }
+        return []
+    }
+}
+
+const getObjectSuggestions = (ctx: ILiquidRuleEngineContext): CompletionItem[] => {
+    return [
+        ...PORTAL_OBJECTS.map(key => {
+            return {
+                label: key,
+                insertText: key,
+                kind: CompletionItemKind.Value
+            } as CompletionItem
+        }),
+        ...ctx.variablesInScope.filter(variable => !PORTAL_OBJECTS.includes(variable)).map(variable => {
+            return {
+                label: variable,
+                insertText: variable,
+                kind: CompletionItemKind.Variable
+            } as CompletionItem
+        })
+    ]
+}
+
+const getObjectAttributeSuggestions = (portalObject: string): CompletionItem[] => {
+    return (OBJECT_ATTRIBUTES_MAP.get(portalObject) ?? []).map(key => {
+        return {
+            label: key,
+            insertText: key,
+            kind: CompletionItemKind.Value
+        } as CompletionItem
+    })
+}
+
 const rootObjectRule: ILiquidAutoCompleteRule = {
     name: 'rootObject',
     isValid: (liquidToken) => liquidToken.kind === TokenKind.Output && !liquidToken.content.includes('.') && !liquidToken.content.includes('['),
     priority: DEFAULT_TAG_PRIORITY,
-    apply: (liquidToken) => {
+    apply: (liquidToken, ctx) => {
         const suggestions: CompletionItem[] = []
         const property = liquidToken.content
         if (property.includes(AUTO_COMPLETE_PLACEHOLDER)) {
-            suggestions.push(...PORTAL_OBJECTS.map(key => {
-                return {
-                    label: key,
-                    insertText: key,
-                    kind: CompletionItemKind.Value
-                } as CompletionItem
-            }))
+            suggestions.push(...getObjectSuggestions(ctx))
         }
         return suggestions
     }
@@ -112,20 +209,43 @@ const rootObjectAttributesRule: ILiquidAutoCompleteRule = {
     apply: (liquidToken) => {
         const suggestions: CompletionItem[] = []
         const property = liquidToken.content
-        const portalObject = property.includes('.') ? property.split(".")[0] : property.includes("[") ? property.split("[")[0] : null;
+        // The object right before the cursor, e.g. user in {{ page.title | default: user.fullname }}
+        const portalObject = OBJECT_PROPERTY_REGEX.exec(property.substring(0, property.indexOf(AUTO_COMPLETE_PLACEHOLDER)))?.[1];
         if (property.includes(AUTO_COMPLETE_PLACEHOLDER) && portalObject && PORTAL_OBJECTS.includes(portalObject)) {
-            suggestions.push(...(OBJECT_ATTRIBUTES_MAP.get(portalObject) ?? []).map(key => {
-                return {
-                    label: key,
-                    insertText: key,
-                    kind: CompletionItemKind.Value
-                } as CompletionItem
-            }))
+            suggestions.push(...getObjectAttributeSuggestions(portalObject))
         }
         return suggestions
     }
 }
 
+const tagExpressionRule: ILiquidAutoCompleteRule = {
+    name: 'tagExpression',
+    isValid: (liquidToken) => liquidToken.kind === TokenKind.Tag && EXPRESSION_TAGS.includes((liquidToken as TagToken).name.toLowerCase()),
+    priority: DEFAULT_TAG_PRIORITY,
+    apply: (liquidToken, ctx) => {
+        const args = (liquidToken as TagToken).args
+        if (!args.includes(AUTO_COMPLETE_PLACEHOLDER)) {
+            return []
+        }
+        const argsBeforeCursor = args.substring(0, args.indexOf(AUTO_COMPLETE_PLACEHOLDER))
+        const tagName = (liquidToken as TagToken).name.toLowerCase()
+        const isInString = (argsBeforeCursor.match(QUOTES_REGEX) ?? []).length % 2 === 1
+        const isFilterName = FILTER_NAME_REGEX.test(argsBeforeCursor)
+        // assign and loop tags only take an expression after the variable they introduce
+        const isExpression = tagName === 'assign' ? argsBeforeCursor.includes('=')
+            : ['for', 'tablerow'].includes(tagName) ? /\bin\s/.test(argsBeforeCursor)
+            : true
+        if (isInString || isFilterName || !isExpression) {
+            return []
+        }
+        const portalObject = OBJECT_PROPERTY_REGEX.exec(argsBeforeCursor)?.[1]
+        if (portalObject) {
+            return PORTAL_OBJECTS.includes(portalObject) ? getObjectAttributeSuggestions(portalObject) : []
+        }
+        return OBJECT_NAME_REGEX.test(argsBeforeCursor) ? getObjectSuggestions(ctx) : []
+    }
+}
+
 const entityFormTagRule: ILiquidAutoCompleteRule = {
     name: 'entityFormTag',
     isValid: (liquidToken) => liquidToken.kind === TokenKind.Tag && (liquidToken as TagToken).name.toLowerCase() === PortalTags.ENTITYFORM,
@@ -137,13 +257,7 @@ const entityFormTagRule: ILiquidAutoCompleteRule = {
         hashes.forEach(hash => {
             const hashName = hash.name.getText()
             if (hashName?.includes(AUTO_COMPLETE_PLACEHOLDER)) {
-                suggestions.push(...ENTITY_FORM_ATTRIBUTES.map(key => {
-                    return {
-                        label: key,
-                        insertText: `${key}:`,
-                        kind: CompletionItemKind.Value
-                    } as CompletionItem
-                }))
+                suggestions.push(...getTagParameterSuggestions(PortalTags.ENTITYFORM))
                 return;
             }
             const hashValue = hash.value?.getText()
@@ -167,13 +281,7 @@ const entityListTagRule: ILiquidAutoCompleteRule = {
         hashes.forEach(hash => {
             const hashName = hash.name.getText()
             if (hashName?.includes(AUTO_COMPLETE_PLACEHOLDER)) {
-                suggestions.push(...ENTITY_LIST_ATTRIBUTES.map(key => {
-                    return {
-                        label: key,
-                        insertText: `${key}:`,
-                        kind: CompletionItemKind.Value
-                    } as CompletionItem
-                }))
+                suggestions.push(...getTagParameterSuggestions(PortalTags.ENTITYLIST))
                 return;
             }
             const hashValue = hash.value?.getText()
@@ -186,6 +294,35 @@ const entityListTagRule: ILiquidAutoCompleteRule = {
     }
 }
 
+const entityViewTagRule: ILiquidAutoCompleteRule = {
+    name: 'entityViewTag',
+    isValid: (liquidToken) => liquidToken.kind === TokenKind.Tag && (liquidToken as TagToken).name.toLowerCase() === PortalTags.ENTITYVIEW,
+    priority: DEFAULT_TAG_PRIORITY,
+    apply: (liquidToken, ctx) => {
+        const suggestions: CompletionItem[] = []
+        const tokenizer = new Tokenizer((liquidToken as TagToken).args)
+        const hashes = tokenizer.readHashes();
+        const tableName = hashes.find(hash => hash.name.getText() === 'logical_name')?.value?.getText().replace(QUOTES_REGEX, '')
+        hashes.forEach(hash => {
+            const hashName = hash.name.getText()
+            if (hashName?.includes(AUTO_COMPLETE_PLACEHOLDER)) {
+                suggestions.push(...getTagParameterSuggestions(PortalTags.ENTITYVIEW))
+                return;
+            }
+            const hashValue = hash.value?.getText()
+            if (hashValue?.includes(AUTO_COMPLETE_PLACEHOLDER) && hashName === 'logical_name') {
+                suggestions.push(...getTableSuggestions(ctx, hashValue, !/["'].*['"]/.test(hashValue)))
+                return;
+            } else if (hashValue?.includes(AUTO_COMPLETE_PLACEHOLDER) && hashName === 'order' && tableName) {
+                // order:'fullname ASC' sorts by a column of the table of the view
+                suggestions.push(...getColumnSuggestions(ctx, tableName, hashValue).map(item => /["'].*['"]/.test(hashValue) ? item : { ...item, insertText: `'${item.insertText}'` }))
+                return;
+            }
+        })
+        return suggestions
+    }
+}
+
 const webFormTagRule: ILiquidAutoCompleteRule = {
     name: 'webFormTag',
     isValid: (liquidToken) => liquidToken.kind === TokenKind.Tag && (liquidToken as TagToken).name.toLowerCase() === PortalTags.WEBFORM,
@@ -197,13 +334,7 @@ const webFormTagRule: ILiquidAutoCompleteRule = {
         hashes.forEach(hash => {
             const hashName = hash.name.getText()
             if (hashName?.includes(AUTO_COMPLETE_PLACEHOLDER)) {
-                suggestions.push(...WEB_FORM_ATTRIBUTES.map(key => {
-                    return {
-                        label: key,
-                        insertText: `${key}:`,
-                        kind: CompletionItemKind.Value
-                    } as CompletionItem
-                }))
+                suggestions.push(...getTagParameterSuggestions(PortalTags.WEBFORM))
                 return;
             }
             const hashValue = hash.value?.getText()
@@ -216,6 +347,17 @@ const webFormTagRule: ILiquidAutoCompleteRule = {
     }
 }
 
+const chartTagRule: ILiquidAutoCompleteRule = {
+    name: 'chartTag',
+    isValid: (liquidToken) => liquidToken.kind === TokenKind.Tag && (liquidToken as TagToken).name.toLowerCase() === PortalTags.CHART,
+    priority: DEFAULT_TAG_PRIORITY,
+    apply: (liquidToken) => {
+        const tokenizer = new Tokenizer((liquidToken as TagToken).args)
+        const hashes = tokenizer.readHashes();
+        return hashes.some(hash => hash.name.getText()?.includes(AUTO_COMPLETE_PLACEHOLDER)) ? getTagParameterSuggestions(PortalTags.CHART) : []
+    }
+}
+
 const includeTagRule: ILiquidAutoCompleteRule = {
     name: 'includeTag',
     isValid: (liquidToken) => liquidToken.kind === TokenKind.Tag && (liquidToken as TagToken).name.toLowerCase() === PortalTags.INCLUDE,
@@ -280,13 +422,7 @@ const editableTagRule: ILiquidAutoCompleteRule = {
         hashes.forEach(hash => {
             const hashName = hash.name.getText()
             if (hashName?.includes(AUTO_COMPLETE_PLACEHOLDER)) {
-                suggestions.push(...EDITABLE_ATTRIBUTES.map(key => {
-                    return {
-                        label: key,
-                        insertText: `${key}:`,
-                        kind: CompletionItemKind.Value
-                    } as CompletionItem
-                }))
+                suggestions.push(...getTagParameterSuggestions(PortalTags.EDITABLE))
                 return
             }
         })
@@ -331,8 +467,12 @@ export const ruleDefinitions = [
     entityFormTagRule,
     webFormTagRule,
     entityListTagRule,
+    entityViewTagRule,
+    chartTagRule,
+    entitiesObjectRule,
     rootObjectRule,
     rootObjectAttributesRule,
+    tagExpressionRule,
     snippetObjectRule,
     settingsObjectRule,
     weblinksObjectRule,
@@ -11,12 +11,15 @@ import { CompletionItem, Connection, WorkspaceFolder } from "vscode-languageserv
 import { IAutoCompleteTelemetryData } from "../../common/TelemetryData";
 import { AUTO_COMPLETE_PLACEHOLDER } from "../constants/AutoComplete";
 import { sendTelemetryEvent } from '../telemetry/ServerTelemetry';
-import { getEditedLineContent } from "./LineReader";
+import { getFetchXmlSuggestions } from "./FetchXmlAutoComplete";
 import { ILiquidAutoCompleteRule, ruleDefinitions } from "./LiquidAutoCompleteRule";
+import { getVariablesInScope } from "./LiquidVariables";
 export interface ILiquidRuleEngineContext {
     workspaceRootFolders: WorkspaceFolder[] | null
     pathOfFileBeingEdited: string
     connection: Connection
+    // Variables introduced by assign, capture, for and the like before the edited expression
+    variablesInScope: string[]
 }
 
 interface ILiquidAutoComplete {
@@ -62,10 +65,12 @@ const getSuggestionsFromRules = (liquidToken: TagToken | OutputToken, context: I
 }
 
 export const getSuggestions = (rowIndex: number, colIndex: number, pathOfFileBeingEdited: string, workspaceRootFolders: WorkspaceFolder[] | null, editedTextDocument: TextDocument, connection: Connection) => {
-    const editedLine = getEditedLineContent(rowIndex, editedTextDocument);
-    const liquidForAutocomplete = getEditedLiquidExpression(colIndex, editedLine);
+    const text = editedTextDocument.getText();
+    const offset = editedTextDocument.offsetAt({ line: rowIndex, character: colIndex });
+    const liquidForAutocomplete = getEditedLiquidExpression(text, offset);
     if (!liquidForAutocomplete) {
-        return []
+        // Outside of Liquid expressions, the cursor may still be in the FetchXML of a fetchxml block
+        return getFetchXmlSuggestions(editedTextDocument, offset, workspaceRootFolders, pathOfFileBeingEdited)
     }
     try {
         const startTime = performance.now()
@@ -78,7 +83,8 @@ export const getSuggestions = (rowIndex: number, colIndex: number, pathOfFileBei
         if (liquidTokens[0].kind === TokenKind.HTML) {
             return []
         }
-        const suggestions = getSuggestionsFromRules(liquidTokens[0] as TagToken | OutputToken, { workspaceRootFolders, pathOfFileBeingEdited, connection })
+        const variablesInScope = getVariablesInScope(text.slice(0, offset - liquidForAutocomplete.AutoCompleteAtIndex))
+        const suggestions = getSuggestionsFromRules(liquidTokens[0] as TagToken | OutputToken, { workspaceRootFolders, pathOfFileBeingEdited, connection, variablesInScope })
         sendTelemetryEvent(connection, { ...telemetryData, measurements:{liquidAutoCompleteTimeMs : performance.now() - startTime} } as IAutoCompleteTelemetryData)
         return suggestions
     } catch (e) {
@@ -87,27 +93,31 @@ export const getSuggestions = (rowIndex: number, colIndex: number, pathOfFileBei
     return []
 }
 
-const getEditedLiquidExpression = (colIndex: number, editedLine: string) => {
-    try {
-        return getLiquidExpression(editedLine, colIndex, liquidTagStartExpression, liquidTagEndExpression) || getLiquidExpression(editedLine, colIndex, liquidOutputStartExpression, liquidOutputEndExpression)
-    } catch (e) {
-        // Add Telemetry for index out of bounds...not a proper liquid expression. This may again bloat up the logs (since the autocomplete events can be fired even for non-portal html files)
+/**
+ * Finds the tag or output around the cursor, which may span several lines. An expression that is still being typed
+ * and has no end delimiter yet is closed at the cursor.
+ */
+const getEditedLiquidExpression = (text: string, offset: number): ILiquidAutoComplete | undefined => {
+    const textBeforeCursor = text.substring(0, offset);
+    const startIndex = Math.max(textBeforeCursor.lastIndexOf(liquidTagStartExpression), textBeforeCursor.lastIndexOf(liquidOutputStartExpression));
+    if (startIndex < 0) {
+        return;
     }
-}
-
-const getLiquidExpression = (editedLine: string, colIndex: number, startDelimiter: string, endDelimiter: string) => {
-    const contentOnLeftOfCursor = editedLine.substring(0, colIndex);
-    const startIndexOfEditedLiquidExpression = contentOnLeftOfCursor.lastIndexOf(startDelimiter)
-    const editedLiquidExpressionOnLeftOfCursor = contentOnLeftOfCursor.substring(startIndexOfEditedLiquidExpression, contentOnLeftOfCursor.length);
-    const contentOnRightOfCursor = editedLine.substring(colIndex, editedLine.length);
-    const endIndexOfEditedLiquidExpression = contentOnRightOfCursor.indexOf(endDelimiter);
-    const editedLiquidExpressionOnRightOfCursor = contentOnRightOfCursor.substring(0, endIndexOfEditedLiquidExpression + liquidTagEndExpression.length);
-    if (startIndexOfEditedLiquidExpression >= 0 && endIndexOfEditedLiquidExpression >= 0) {
-        return {
-            LiquidExpression: editedLiquidExpressionOnLeftOfCursor + editedLiquidExpressionOnRightOfCursor,
-            AutoCompleteAtIndex: colIndex - startIndexOfEditedLiquidExpression,
-        } as ILiquidAutoComplete
-    } else {
+    const endDelimiter = text.startsWith(liquidTagStartExpression, startIndex) ? liquidTagEndExpression : liquidOutputEndExpression;
+    if (textBeforeCursor.indexOf(endDelimiter, startIndex + endDelimiter.length) >= 0) {
+        // The expression ended before the cursor
         return;
     }
+    const endIndex = text.indexOf(endDelimiter, offset);
+    const nextStartIndexes = [text.indexOf(liquidTagStartExpression, offset), text.indexOf(liquidOutputStartExpression, offset)].filter(index => index >= 0);
+    if (endIndex < 0 || nextStartIndexes.some(index => index < endIndex)) {
+        return {
+            LiquidExpression: textBeforeCursor.substring(startIndex) + endDelimiter,
+            AutoCompleteAtIndex: offset - startIndex,
+        }
+    }
+    return {
+        LiquidExpression: text.substring(startIndex, endIndex + endDelimiter.length),
+        AutoCompleteAtIndex: offset - startIndex,
+    }
 }
@@ -0,0 +1,149 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TagToken, TokenKind } from "liquidjs";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CodeAction, CodeActionKind, Diagnostic, Range, WorkspaceFolder } from "vscode-languageserver/node";
+import { PortalEntityNames, PortalTags } from "../constants/PortalEnums";
+import { DIAGNOSTIC_SOURCE, IUnclosedBlockData, IUnknownReferenceData, LiquidDiagnosticCode } from "./LiquidDiagnostics";
+import { findLiquidTokenAt, getContentOffset, readLiquidTokens } from "./LiquidTokens";
+import { getMatchedManifestRecords } from "./PortalManifestReader";
+
+// Commands of the extension that walk the user through creating a record of a site
+export const CREATE_WEB_TEMPLATE_COMMAND = 'microsoft-powerapps-portals.webtemplate';
+export const CREATE_CONTENT_SNIPPET_COMMAND = 'microsoft-powerapps-portals.contentsnippet';
+
+const RECORD_ID_ARGUMENT_REGEX = /\bid\s*:\s*(['"])([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\1/i;
+// Tags that refer to a record either by its ID or by its name
+const RECORD_TAG_ENTITIES: Record<string, PortalEntityNames> = {
+    [PortalTags.ENTITYFORM]: PortalEntityNames.ENTITY_FORM,
+    [PortalTags.WEBFORM]: PortalEntityNames.WEBFORM,
+    [PortalTags.ENTITYLIST]: PortalEntityNames.ENTITY_LIST
+};
+
+const getEditDistance = (text1: string, text2: string): number => {
+    let previousRow = Array.from({ length: text2.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= text1.length; i++) {
+        const row = [i];
+        for (let j = 1; j <= text2.length; j++) {
+            const substitutionCost = text1[i - 1] === text2[j - 1] ? 0 : 1;
+            row.push(Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + substitutionCost));
+        }
+        previousRow = row;
+    }
+    return previousRow[text2.length];
+}
+
+/**
+ * Returns the name that is most likely meant by a misspelled one, if any is close enough
+ */
+export const getClosestName = (name: string, candidates: string[]): string | undefined => {
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+    let closestName: string | undefined;
+    let closestDistance = Number.MAX_SAFE_INTEGER;
+    candidates.forEach(candidate => {
+        const distance = getEditDistance(name.trim().toLowerCase(), candidate.trim().toLowerCase());
+        if (distance <= maxDistance && distance < closestDistance) {
+            closestName = candidate;
+            closestDistance = distance;
+        }
+    });
+    return closestName;
+}
+
+const getUnclosedBlockActions = (document: TextDocument, diagnostic: Diagnostic): CodeAction[] => {
+    const { blockName, endTagOffset } = diagnostic.data as IUnclosedBlockData;
+    const endTag = `{% end${blockName} %}`;
+    const text = document.getText();
+    // At the end of the document the end tag goes on a line of its own
+    const newText = endTagOffset < text.length ? endTag : text.endsWith('\n') || !text ? `${endTag}\n` : `\n${endTag}`;
+    const position = document.positionAt(endTagOffset);
+    return [{
+        title: `Add '${endTag}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: { changes: { [document.uri]: [{ range: { start: position, end: position }, newText }] } }
+    }];
+}
+
+const getUnknownReferenceActions = (document: TextDocument, diagnostic: Diagnostic, workspaceRootFolders: WorkspaceFolder[] | null): CodeAction[] => {
+    const { name } = diagnostic.data as IUnknownReferenceData;
+    const isWebTemplate = diagnostic.code === LiquidDiagnosticCode.UNKNOWN_WEB_TEMPLATE;
+    const entityName = isWebTemplate ? PortalEntityNames.WEB_TEMPLATE : PortalEntityNames.CONTENT_SNIPPET;
+    const actions: CodeAction[] = [];
+
+    const recordNames = getMatchedManifestRecords(workspaceRootFolders, entityName, document.uri).map(record => record.DisplayName);
+    const closestName = getClosestName(name, recordNames);
+    if (closestName) {
+        // The range of the diagnostic is the quoted name, so keep the quotes that were used
+        const quote = document.getText(diagnostic.range).charAt(0);
+        actions.push({
+            title: `Change to '${closestName}'`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred: true,
+            edit: { changes: { [document.uri]: [{ range: diagnostic.range, newText: `${quote}${closestName}${quote}` }] } }
+        });
+    }
+
+    const title = isWebTemplate ? `Create web template '${name}'` : `Create content snippet '${name}'`;
+    actions.push({
+        title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        command: { title, command: isWebTemplate ? CREATE_WEB_TEMPLATE_COMMAND : CREATE_CONTENT_SNIPPET_COMMAND, arguments: [document.uri, name] }
+    });
+    return actions;
+}
+
+// {% entityform id:'<GUID>' %} only works in the environment the record was created in, {% entityform name:'Contact' %} in all of them
+const getRecordIdActions = (document: TextDocument, range: Range, workspaceRootFolders: WorkspaceFolder[] | null): CodeAction[] => {
+    const token = findLiquidTokenAt(readLiquidTokens(document.getText()), document.offsetAt(range.start));
+    const entityName = token?.kind === TokenKind.Tag ? RECORD_TAG_ENTITIES[(token as TagToken).name.toLowerCase()] : undefined;
+    const match = token && RECORD_ID_ARGUMENT_REGEX.exec(token.content);
+    if (!token || !entityName || !match) {
+        return [];
+    }
+    const recordId = match[2].toLowerCase();
+    const record = getMatchedManifestRecords(workspaceRootFolders, entityName, document.uri)
+        .find(record => record.RecordId?.toLowerCase() === recordId);
+    if (!record) {
+        return [];
+    }
+    const argumentBegin = getContentOffset(token) + match.index;
+    return [{
+        title: `Refer to '${record.DisplayName}' by name`,
+        kind: CodeActionKind.RefactorRewrite,
+        edit: {
+            changes: {
+                [document.uri]: [{
+                    range: { start: document.positionAt(argumentBegin), end: document.positionAt(argumentBegin + match[0].length) },
+                    newText: `name:${match[1]}${record.DisplayName}${match[1]}`
+                }]
+            }
+        }
+    }];
+}
+
+/**
+ * Returns the quick fixes for the Liquid diagnostics in the given range, and the refactorings that apply to the tag at its start
+ */
+export const getLiquidCodeActions = (document: TextDocument, range: Range, diagnostics: Diagnostic[], workspaceRootFolders: WorkspaceFolder[] | null): CodeAction[] => {
+    const actions: CodeAction[] = [];
+    diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE && diagnostic.data).forEach(diagnostic => {
+        switch (diagnostic.code) {
+            case LiquidDiagnosticCode.UNCLOSED_BLOCK:
+                actions.push(...getUnclosedBlockActions(document, diagnostic));
+                break;
+            case LiquidDiagnosticCode.UNKNOWN_WEB_TEMPLATE:
+            case LiquidDiagnosticCode.UNKNOWN_CONTENT_SNIPPET:
+                actions.push(...getUnknownReferenceActions(document, diagnostic, workspaceRootFolders));
+                break;
+        }
+    });
+    actions.push(...getRecordIdActions(document, range, workspaceRootFolders));
+    return actions;
+}
@@ -0,0 +1,166 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TagToken, Tokenizer, TokenKind } from "liquidjs";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Diagnostic, DiagnosticSeverity, WorkspaceFolder } from "vscode-languageserver/node";
+import { BLOCK_TAGS, PORTAL_FILTERS, STANDARD_FILTERS } from "../constants/AutoComplete";
+import { PortalEntityNames } from "../constants/PortalEnums";
+import { getLiquidReferences, isSameName } from "./LiquidReferences";
+import { getContentOffset, LiquidToken, tokenizeLiquid } from "./LiquidTokens";
+import { getMatchedManifestRecords } from "./PortalManifestReader";
+
+export const DIAGNOSTIC_SOURCE = 'Power Pages';
+// The contents of these blocks are not Liquid that will be rendered
+const UNPARSED_BLOCK_TAGS = ['comment', 'raw'];
+
+/**
+ * Codes of the diagnostics that come with quick fixes
+ */
+export enum LiquidDiagnosticCode {
+    UNCLOSED_BLOCK = 'unclosed-block',
+    UNKNOWN_WEB_TEMPLATE = 'unknown-web-template',
+    UNKNOWN_CONTENT_SNIPPET = 'unknown-content-snippet'
+}
+
+export interface IUnclosedBlockData {
+    blockName: string;
+    // Where the end tag of the block belongs
+    endTagOffset: number;
+}
+
+export interface IUnknownReferenceData {
+    name: string;
+}
+
+interface ILiquidDiagnosticsContext {
+    document: TextDocument;
+    workspaceRootFolders: WorkspaceFolder[] | null;
+    diagnostics: Diagnostic[];
+}
+
+export const getLiquidDiagnostics = (document: TextDocument, workspaceRootFolders: WorkspaceFolder[] | null): Diagnostic[] => {
+    const ctx: ILiquidDiagnosticsContext = { document, workspaceRootFolders, diagnostics: [] };
+    // Nothing after an unclosed '{%' or '{{' can be tokenized, but everything before it still can
+    const { tokens, error } = tokenizeLiquid(document.getText());
+    if (error) {
+        addDiagnostic(ctx, error.begin, error.end, DiagnosticSeverity.Error, error.message);
+    }
+
+    const renderedTokens = validateBlocks(ctx, tokens, !!error);
+    renderedTokens.forEach(token => validateFilters(ctx, token));
+    validateReferences(ctx, renderedTokens);
+    return ctx.diagnostics;
+}
+
+const addDiagnostic = (ctx: ILiquidDiagnosticsContext, begin: number, end: number, severity: DiagnosticSeverity, message: string,
+    code?: LiquidDiagnosticCode, data?: IUnclosedBlockData | IUnknownReferenceData) => {
+    ctx.diagnostics.push({
+        severity,
+        range: {
+            start: ctx.document.positionAt(begin),
+            end: ctx.document.positionAt(end)
+        },
+        message,
+        source: DIAGNOSTIC_SOURCE,
+        ...(code ? { code, data } : {})
+    });
+}
+
+/**
+ * Reports unclosed and unmatched block tags, and returns the tokens that are rendered (i.e. not inside a comment or raw block)
+ */
+const validateBlocks = (ctx: ILiquidDiagnosticsContext, liquidTokens: LiquidToken[], tokenizationFailed: boolean): LiquidToken[] => {
+    const openBlocks: TagToken[] = [];
+    const renderedTokens: LiquidToken[] = [];
+
+    liquidTokens.forEach(token => {
+        const innermostBlock = openBlocks[openBlocks.length - 1];
+        if (innermostBlock && UNPARSED_BLOCK_TAGS.includes(innermostBlock.name)) {
+            if (token.kind === TokenKind.Tag && (token as TagToken).name === `end${innermostBlock.name}`) {
+                openBlocks.pop();
+            }
+            return;
+        }
+
+        renderedTokens.push(token);
+        if (token.kind !== TokenKind.Tag) {
+            return;
+        }
+        const tagName = (token as TagToken).name;
+        if (BLOCK_TAGS.includes(tagName)) {
+            openBlocks.push(token as TagToken);
+        } else if (tagName.startsWith('end') && BLOCK_TAGS.includes(tagName.slice(3))) {
+            const blockName = tagName.slice(3);
+            const openBlockIndex = openBlocks.map(block => block.name).lastIndexOf(blockName);
+            if (openBlockIndex < 0) {
+                addDiagnostic(ctx, token.begin, token.end, DiagnosticSeverity.Error, `'${tagName}' has no matching '${blockName}' tag.`);
+                return;
+            }
+            openBlocks.splice(openBlockIndex + 1).forEach(block =>
+                addDiagnostic(ctx, block.begin, block.end, DiagnosticSeverity.Error, `'${block.name}' tag is not closed before '${tagName}'.`,
+                    LiquidDiagnosticCode.UNCLOSED_BLOCK, { blockName: block.name, endTagOffset: token.begin }));
+            openBlocks.pop();
+        }
+    });
+
+    // When tokenization stopped early the closing tags may well be in the part that could not be read
+    if (!tokenizationFailed) {
+        openBlocks.forEach(block =>
+            addDiagnostic(ctx, block.begin, block.end, DiagnosticSeverity.Error, `'${block.name}' tag is not closed. Expected '{% end${block.name} %}'.`,
+                LiquidDiagnosticCode.UNCLOSED_BLOCK, { blockName: block.name, endTagOffset: ctx.document.getText().length }));
+    }
+    return renderedTokens;
+}
+
+const validateFilters = (ctx: ILiquidDiagnosticsContext, token: LiquidToken) => {
+    let expression: string;
+    let expressionOffset = getContentOffset(token);
+    if (token.kind === TokenKind.Output) {
+        expression = token.content;
+    } else if ((token as TagToken).name === 'assign' && token.content.includes('=')) {
+        const valueIndex = token.content.indexOf('=') + 1;
+        expression = token.content.slice(valueIndex);
+        expressionOffset += valueIndex;
+    } else if ((token as TagToken).name === 'echo') {
+        const argsIndex = token.content.indexOf((token as TagToken).args);
+        expression = (token as TagToken).args;
+        expressionOffset += argsIndex;
+    } else {
+        return;
+    }
+
+    try {
+        const tokenizer = new Tokenizer(expression);
+        tokenizer.readExpression();
+        tokenizer.readFilters().forEach(filter => {
+            if (!PORTAL_FILTERS.includes(filter.name) && !STANDARD_FILTERS.includes(filter.name)) {
+                const filterBegin = expressionOffset + filter.begin;
+                addDiagnostic(ctx, filterBegin, filterBegin + filter.name.length, DiagnosticSeverity.Warning, `Unknown filter '${filter.name}'.`);
+            }
+        });
+    } catch (e) {
+        // The expression is incomplete (e.g. still being typed), nothing to report on its filters yet
+    }
+}
+
+// Without any records of a kind in the manifest (e.g. no manifest at all) there is nothing to check references against
+const isMissingFromManifest = (ctx: ILiquidDiagnosticsContext, entityName: PortalEntityNames, displayName: string): boolean => {
+    const records = getMatchedManifestRecords(ctx.workspaceRootFolders, entityName, ctx.document.uri);
+    return records.length > 0 && !records.some(record => isSameName(record.DisplayName, displayName));
+}
+
+const validateReferences = (ctx: ILiquidDiagnosticsContext, tokens: LiquidToken[]) => {
+    getLiquidReferences(tokens).forEach(reference => {
+        if (isMissingFromManifest(ctx, reference.entityName, reference.name)) {
+            const isWebTemplate = reference.entityName === PortalEntityNames.WEB_TEMPLATE;
+            const message = isWebTemplate
+                ? `Web template '${reference.name}' was not found in this site.`
+                : `Content snippet '${reference.name}' was not found in this site.`;
+            addDiagnostic(ctx, reference.begin, reference.end, DiagnosticSeverity.Warning, message,
+                isWebTemplate ? LiquidDiagnosticCode.UNKNOWN_WEB_TEMPLATE : LiquidDiagnosticCode.UNKNOWN_CONTENT_SNIPPET, { name: reference.name });
+        }
+    });
+}
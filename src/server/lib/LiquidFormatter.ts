@@ -0,0 +1,209 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { FormattingOptions, Range, TextEdit } from "vscode-languageserver/node";
+import { BLOCK_TAGS } from "../constants/AutoComplete";
+
+/**
+ * The powerPlatform.liquid.format settings of the extension
+ */
+export interface ILiquidFormatSettings {
+    enable: boolean;
+    // Whether HTML elements are indented along with Liquid blocks
+    indentHtml: boolean;
+    // Whether whitespace-control markers, e.g. {%- and -%}, are kept or removed
+    whitespaceControl: 'preserve' | 'remove';
+}
+
+export const DEFAULT_LIQUID_FORMAT_SETTINGS: ILiquidFormatSettings = {
+    enable: true,
+    indentHtml: true,
+    whitespaceControl: 'preserve'
+};
+
+type FormatTokenKind = 'open' | 'close' | 'middle' | 'other';
+
+interface IFormatToken {
+    kind: FormatTokenKind;
+    begin: number;
+    end: number;
+}
+
+// Parts of the document whose lines are kept as they are, e.g. the body of a script element or a raw block
+interface IVerbatimRegion {
+    begin: number;
+    end: number;
+}
+
+const TOKEN_REGEX = /<!--[\s\S]*?-->|{%-?\s*(\w+)[\s\S]*?-?%}|{{[\s\S]*?}}|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+const LIQUID_DELIMITERS_REGEX = /^({[%{])(-?)[ \t]*([\s\S]*?)[ \t]*(-?)([%}]})$/;
+const MIDDLE_TAGS = ['else', 'elsif', 'when'];
+const VERBATIM_TAGS = ['raw', 'comment'];
+const VERBATIM_ELEMENTS = ['pre', 'script', 'style', 'textarea'];
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+/**
+ * Finds the blocks and elements of a document. The body of raw and comment blocks and of elements like script is skipped,
+ * and returned as verbatim regions instead. Only elements whose end tag is written out are indented, so elements whose
+ * end tag may be left out, e.g. li or p, and stray end tags don't shift the lines after them.
+ */
+const readFormatTokens = (text: string, settings: ILiquidFormatSettings): { tokens: IFormatToken[], verbatimRegions: IVerbatimRegion[] } => {
+    const tokens: IFormatToken[] = [];
+    const verbatimRegions: IVerbatimRegion[] = [];
+    const tokenRegex = new RegExp(TOKEN_REGEX);
+    // The start tags that wait for their end tag, innermost last
+    const openElements: { name: string, token: IFormatToken }[] = [];
+    // Skips to the end tag of a verbatim block or element, which closes the block
+    const skipToEndTag = (endTagRegex: RegExp, bodyBegin: number, openToken: IFormatToken, kind: FormatTokenKind) => {
+        endTagRegex.lastIndex = bodyBegin;
+        const endTag = endTagRegex.exec(text);
+        const bodyEnd = endTag ? endTag.index : text.length;
+        verbatimRegions.push({ begin: bodyBegin, end: bodyEnd });
+        if (endTag) {
+            if (kind === 'close') {
+                openToken.kind = 'open';
+            }
+            tokens.push({ kind, begin: endTag.index, end: endTag.index + endTag[0].length });
+        }
+        tokenRegex.lastIndex = endTag ? endTag.index + endTag[0].length : text.length;
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(text)) !== null) {
+        const [token, tagName, closingSlash, elementName, elementAttributes] = match;
+        const begin = match.index;
+        const end = begin + token.length;
+        let kind: FormatTokenKind = 'other';
+        if (tagName) {
+            const name = tagName.toLowerCase();
+            if (BLOCK_TAGS.includes(name)) {
+                kind = 'open';
+            } else if (name.startsWith('end') && BLOCK_TAGS.includes(name.slice(3))) {
+                kind = 'close';
+            } else if (MIDDLE_TAGS.includes(name)) {
+                kind = 'middle';
+            }
+            const token: IFormatToken = { kind, begin, end };
+            tokens.push(token);
+            if (VERBATIM_TAGS.includes(name)) {
+                skipToEndTag(new RegExp(`{%-?\\s*end${name}\\s*-?%}`, 'gi'), end, token, 'close');
+            }
+        } else if (elementName) {
+            const name = elementName.toLowerCase();
+            const isSelfClosing = elementAttributes.trim().endsWith('/') || VOID_ELEMENTS.includes(name);
+            const isIndented = settings.indentHtml && !isSelfClosing;
+            const token: IFormatToken = { kind, begin, end };
+            tokens.push(token);
+            // Start tags count as open once their end tag is found, which closes the elements left open inside them
+            if (isIndented && closingSlash) {
+                const openIndex = openElements.map(element => element.name).lastIndexOf(name);
+                if (openIndex >= 0) {
+                    openElements[openIndex].token.kind = 'open';
+                    token.kind = 'close';
+                    openElements.length = openIndex;
+                }
+            } else if (isIndented && !VERBATIM_ELEMENTS.includes(name)) {
+                openElements.push({ name, token });
+            }
+            if (!closingSlash && VERBATIM_ELEMENTS.includes(name)) {
+                skipToEndTag(new RegExp(`</${name}\\s*>`, 'gi'), end, token, isIndented ? 'close' : 'other');
+            }
+        } else {
+            tokens.push({ kind, begin, end });
+        }
+    }
+    return { tokens, verbatimRegions };
+}
+
+// Puts exactly one space between the delimiters of tags and outputs and their content, e.g. {%-if x-%} becomes {%- if x -%}
+const normalizeWhitespaceControl = (text: string, settings: ILiquidFormatSettings): string => {
+    const { tokens, verbatimRegions } = readFormatTokens(text, { ...settings, indentHtml: false });
+    let normalizedText = '';
+    let copiedUntil = 0;
+    tokens.filter(token => text.startsWith('{%', token.begin) || text.startsWith('{{', token.begin))
+        .filter(token => !verbatimRegions.some(region => region.begin <= token.begin && token.begin < region.end))
+        .forEach(token => {
+            const match = LIQUID_DELIMITERS_REGEX.exec(text.slice(token.begin, token.end));
+            if (!match) {
+                return;
+            }
+            const [, openDelimiter, openDash, content, closeDash, closeDelimiter] = match;
+            const keepDashes = settings.whitespaceControl === 'preserve';
+            const normalizedToken = content
+                ? `${openDelimiter}${keepDashes ? openDash : ''} ${content} ${keepDashes ? closeDash : ''}${closeDelimiter}`
+                : `${openDelimiter}${keepDashes ? openDash : ''}${keepDashes ? closeDash : ''}${closeDelimiter}`;
+            normalizedText += text.slice(copiedUntil, token.begin) + normalizedToken;
+            copiedUntil = token.end;
+        });
+    return normalizedText + text.slice(copiedUntil);
+}
+
+/**
+ * Indents Liquid blocks, and HTML elements unless turned off, and normalizes the whitespace-control markers of a document.
+ * Only lines that intersect the given range are changed, but the whole document is taken into account for their indentation.
+ */
+export const formatLiquidDocument = (document: TextDocument, options: FormattingOptions, settings: ILiquidFormatSettings, range?: Range): TextEdit[] => {
+    if (!settings.enable) {
+        return [];
+    }
+    const text = normalizeWhitespaceControl(document.getText(), settings);
+    const { tokens, verbatimRegions } = readFormatTokens(text, settings);
+    const indentUnit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+    const originalLines = document.getText().split(/\r?\n/);
+    const lines = text.split(/\r?\n/);
+    const lineIndents: number[] = [];
+
+    let level = 0;
+    let tokenIndex = 0;
+    let lineBegin = 0;
+    const edits: TextEdit[] = [];
+    lines.forEach((line, lineNumber) => {
+        const lineEnd = lineBegin + line.length;
+        const contentBegin = lineBegin + (line.length - line.trimStart().length);
+        const enclosingToken = tokens.find(token => token.begin < contentBegin && contentBegin < token.end);
+        let formattedLine: string;
+        if (verbatimRegions.some(region => region.begin < contentBegin && contentBegin < region.end)) {
+            formattedLine = line;
+            lineIndents.push(level);
+        } else if (enclosingToken) {
+            // A line in the middle of a tag or output that spans lines
+            const tokenLine = text.slice(0, enclosingToken.begin).split(/\r?\n/).length - 1;
+            lineIndents.push(lineIndents[tokenLine] + 1);
+            formattedLine = line.trim() ? indentUnit.repeat(lineIndents[lineNumber]) + line.trim() : '';
+        } else {
+            // Lines that start with end tags, else or when are outdented
+            let indent = level;
+            let leadingTokensEnd: number | undefined = contentBegin;
+            while (tokenIndex < tokens.length && tokens[tokenIndex].begin < lineEnd) {
+                const token = tokens[tokenIndex++];
+                const isLeading = leadingTokensEnd !== undefined && !text.slice(leadingTokensEnd, token.begin).trim();
+                if (isLeading && (token.kind === 'close' || token.kind === 'middle')) {
+                    indent--;
+                    leadingTokensEnd = token.end;
+                } else {
+                    leadingTokensEnd = undefined;
+                }
+                level = Math.max(0, level + (token.kind === 'open' ? 1 : token.kind === 'close' ? -1 : 0));
+            }
+            lineIndents.push(Math.max(0, indent));
+            formattedLine = line.trim() ? indentUnit.repeat(Math.max(0, indent)) + line.trim() : '';
+        }
+        while (tokenIndex < tokens.length && tokens[tokenIndex].begin < lineEnd) {
+            const token = tokens[tokenIndex++];
+            level = Math.max(0, level + (token.kind === 'open' ? 1 : token.kind === 'close' ? -1 : 0));
+        }
+
+        const isInRange = !range || (range.start.line <= lineNumber && lineNumber <= range.end.line);
+        if (isInRange && formattedLine !== originalLines[lineNumber]) {
+            edits.push({
+                range: { start: { line: lineNumber, character: 0 }, end: { line: lineNumber, character: originalLines[lineNumber].length } },
+                newText: formattedLine
+            });
+        }
+        lineBegin = lineEnd + (text.startsWith('\r\n', lineEnd) ? 2 : 1);
+    });
+    return edits;
+}
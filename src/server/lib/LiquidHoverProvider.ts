@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as l10n from '@vscode/l10n';
+import { TagToken, TokenKind } from "liquidjs";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Hover, MarkupKind, Position } from "vscode-languageserver/node";
+import { OBJECT_ATTRIBUTES_MAP } from "../constants/AutoComplete";
+import { createLiquidDocumentation, ILiquidDocumentation, ILiquidDocumentationEntry } from "../constants/LiquidDocumentation";
+import { findLiquidTokenAt, getContentOffset, readLiquidTokens } from "./LiquidTokens";
+
+const WORD_CHARACTER_REGEX = /\w/;
+const OBJECT_BEFORE_DOT_REGEX = /(\w+)\s*\.\s*$/;
+
+let documentation: ILiquidDocumentation | undefined;
+
+/**
+ * Loads the translations of the display language from the l10n bundle the client passes, i.e. vscode.l10n.uri.
+ * There is no bundle for English, and a bundle that cannot be read leaves the documentation in English too.
+ */
+export const initLiquidDocumentation = (l10nBundlePath: string | undefined) => {
+    l10n.config({ contents: {} });
+    if (l10nBundlePath) {
+        try {
+            l10n.config({ fsPath: l10nBundlePath });
+        } catch (e) {
+            l10n.config({ contents: {} });
+        }
+    }
+    documentation = undefined;
+}
+
+/**
+ * Returns the documentation in the language of the user, for features other than hovers that show it
+ */
+export const getLiquidDocumentation = (): ILiquidDocumentation => {
+    if (!documentation) {
+        documentation = createLiquidDocumentation();
+    }
+    return documentation;
+}
+
+const toMarkdown = (title: string, entry: ILiquidDocumentationEntry): string => {
+    const lines = [entry.type ? `${title} *${entry.type}*` : title, '', entry.description];
+    if (entry.example) {
+        lines.push('', '```liquid', entry.example, '```');
+    }
+    return lines.join('\n');
+}
+
+// Odd numbers of quotes before the word mean it is inside a string literal, e.g. a template name
+const isInsideString = (text: string) => (text.split("'").length - 1) % 2 === 1 || (text.split('"').length - 1) % 2 === 1;
+
+export const getLiquidHover = (document: TextDocument, position: Position): Hover | undefined => {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const token = findLiquidTokenAt(readLiquidTokens(text), offset);
+    if (!token || !WORD_CHARACTER_REGEX.test(text.charAt(offset))) {
+        return undefined;
+    }
+
+    let wordBegin = offset;
+    while (wordBegin > 0 && WORD_CHARACTER_REGEX.test(text.charAt(wordBegin - 1))) {
+        wordBegin--;
+    }
+    let wordEnd = offset;
+    while (wordEnd < token.end && WORD_CHARACTER_REGEX.test(text.charAt(wordEnd))) {
+        wordEnd++;
+    }
+    const word = text.slice(wordBegin, wordEnd);
+    const contentOffset = getContentOffset(token);
+    const textBefore = text.slice(contentOffset, wordBegin);
+    if (isInsideString(textBefore)) {
+        return undefined;
+    }
+
+    let markdown: string | undefined;
+    if (token.kind === TokenKind.Tag && wordBegin === contentOffset) {
+        // 'endentitylist' is documented by its 'entitylist' block
+        const tagName = (token as TagToken).name.replace(/^end(?=.)/, '');
+        const entry = getLiquidDocumentation().tags[tagName];
+        markdown = entry && toMarkdown(`\`{% ${tagName} %}\``, entry);
+    } else if (token.kind === TokenKind.Tag && /^\s*:/.test(text.slice(wordEnd, token.end))) {
+        // A named parameter, e.g. name in {% entityform name:'Contact Us' %}
+        const entry = getLiquidDocumentation().parameters[`${(token as TagToken).name}.${word}`];
+        markdown = entry && toMarkdown(`**${word}**`, entry);
+    } else if (textBefore.trimEnd().endsWith('|')) {
+        const entry = getLiquidDocumentation().filters[word];
+        markdown = entry && toMarkdown(`\`| ${word}\``, entry);
+    } else if (OBJECT_BEFORE_DOT_REGEX.test(textBefore)) {
+        const objectName = (OBJECT_BEFORE_DOT_REGEX.exec(textBefore) as RegExpExecArray)[1];
+        markdown = getAttributeMarkdown(objectName, word);
+    } else if (getLiquidDocumentation().objects[word]) {
+        markdown = toMarkdown(`**${word}**`, getLiquidDocumentation().objects[word]);
+    }
+
+    if (!markdown) {
+        return undefined;
+    }
+    return {
+        contents: { kind: MarkupKind.Markdown, value: markdown },
+        range: { start: document.positionAt(wordBegin), end: document.positionAt(wordEnd) }
+    };
+}
+
+const getAttributeMarkdown = (objectName: string, attributeName: string): string | undefined => {
+    const title = `**${objectName}.${attributeName}**`;
+    const entry = getLiquidDocumentation().attributes[`${objectName}.${attributeName}`.toLowerCase()];
+    if (entry) {
+        return toMarkdown(title, entry);
+    }
+    // Attributes offered by completion that are not documented yet still get a pointer to their object
+    const knownAttributes = OBJECT_ATTRIBUTES_MAP.get(objectName)?.map(attribute => attribute.toLowerCase()) ?? [];
+    if (knownAttributes.includes(attributeName.toLowerCase())) {
+        return toMarkdown(title, { description: getLiquidDocumentation().objects[objectName]?.description ?? '' });
+    }
+    return undefined;
+}
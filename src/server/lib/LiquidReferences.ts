@@ -0,0 +1,448 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from 'fs';
+import { glob } from 'glob';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import * as YAML from 'yaml';
+import { TagToken, Tokenizer, TokenKind } from "liquidjs";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { AnnotatedTextEdit, ErrorCodes, Location, Position, Range, ResponseError, TextDocumentEdit, WorkspaceEdit, WorkspaceFolder } from "vscode-languageserver/node";
+import { PortalAttributeNames, PortalEntityNames, PortalTags } from "../constants/PortalEnums";
+import { getContentOffset, LiquidToken, readLiquidTokens } from "./LiquidTokens";
+import { getCachedPortalConfigFolderUrl } from "./ManifestIndex";
+import { getMatchedManifestRecords } from "./PortalManifestReader";
+
+const SNIPPET_REFERENCE_REGEX = /\bsnippets\s*\[\s*(['"])(.*?)\1\s*\]/g;
+const SNIPPET_NAME_ARGUMENT_REGEX = /\bsnippet_name\s*:\s*(['"])(.*?)\1/;
+const EDITABLE_SNIPPET_REGEX = /^(\s*snippets\s+)(['"])(.*?)\2/;
+const NAME_ATTRIBUTE_LINE_REGEX = /^adx_name[ \t]*:.*$/m;
+const MANIFEST_RECORD_ID_REGEX = /^\s*(?:-\s+)?RecordId\s*:\s*['"]?([\w-]+)/;
+const MANIFEST_DISPLAY_NAME_REGEX = /^(\s*(?:-\s+)?DisplayName\s*:).*$/;
+const RENAME_ANNOTATION_ID = 'renameRecord';
+// Templates that ship with every site and therefore never show up in the manifest
+export const BUILT_IN_TEMPLATES: string[] = [PortalAttributeNames.SNIPPET, PortalAttributeNames.ENTITY_LIST];
+
+export type ReferencedEntityName = PortalEntityNames.WEB_TEMPLATE | PortalEntityNames.CONTENT_SNIPPET;
+
+export interface ILiquidReference {
+    entityName: ReferencedEntityName;
+    name: string;
+    // Offsets of the quoted name in the document, including its quotes
+    begin: number;
+    end: number;
+}
+
+interface IRecordFileLayout {
+    folder: string;
+    metadataSuffix: string;
+    contentSuffix: string;
+    idAttribute: string;
+}
+
+// How pac lays out the records of a downloaded site, e.g. web-templates/header/Header.webtemplate.yml next to Header.webtemplate.source.html
+const RECORD_FILE_LAYOUTS: Record<ReferencedEntityName, IRecordFileLayout> = {
+    [PortalEntityNames.WEB_TEMPLATE]: {
+        folder: 'web-templates',
+        metadataSuffix: '.webtemplate.yml',
+        contentSuffix: '.webtemplate.source.html',
+        idAttribute: 'adx_webtemplateid'
+    },
+    [PortalEntityNames.CONTENT_SNIPPET]: {
+        folder: 'content-snippets',
+        metadataSuffix: '.contentsnippet.yml',
+        contentSuffix: '.contentsnippet.value.html',
+        idAttribute: 'adx_contentsnippetid'
+    }
+};
+
+// Records are referred to by name regardless of case and surrounding whitespace
+export const isSameName = (name1: string | undefined, name2: string) => name1?.trim().toLowerCase() === name2.trim().toLowerCase();
+
+/**
+ * Returns the web templates and content snippets that the given tags and outputs refer to by name
+ */
+export const getLiquidReferences = (tokens: LiquidToken[]): ILiquidReference[] => {
+    const references: ILiquidReference[] = [];
+    tokens.forEach(token => {
+        const contentOffset = getContentOffset(token);
+        if (token.kind === TokenKind.Tag && ((token as TagToken).name === PortalTags.INCLUDE || (token as TagToken).name === PortalTags.EXTENDS)) {
+            references.push(...getIncludeReferences(token as TagToken, contentOffset));
+        } else if (token.kind === TokenKind.Tag && (token as TagToken).name === PortalTags.EDITABLE) {
+            const args = (token as TagToken).args;
+            const match = EDITABLE_SNIPPET_REGEX.exec(args);
+            if (match) {
+                const nameBegin = contentOffset + token.content.indexOf(args) + match[1].length;
+                references.push({ entityName: PortalEntityNames.CONTENT_SNIPPET, name: match[3], begin: nameBegin, end: nameBegin + match[3].length + 2 });
+            }
+        }
+
+        const snippetReferenceRegex = new RegExp(SNIPPET_REFERENCE_REGEX);
+        let match: RegExpExecArray | null;
+        while ((match = snippetReferenceRegex.exec(token.content)) !== null) {
+            const nameBegin = contentOffset + match.index + match[0].indexOf(match[1] + match[2]);
+            references.push({ entityName: PortalEntityNames.CONTENT_SNIPPET, name: match[2], begin: nameBegin, end: nameBegin + match[2].length + 2 });
+        }
+    });
+    return references;
+}
+
+const getIncludeReferences = (token: TagToken, contentOffset: number): ILiquidReference[] => {
+    try {
+        const argsOffset = contentOffset + token.content.indexOf(token.args);
+        const templateToken = new Tokenizer(token.args).readValue();
+        if (!templateToken || templateToken.kind !== TokenKind.Quoted) {
+            // Dynamic template names can only be resolved at render time
+            return [];
+        }
+        const templateName = templateToken.getText().slice(1, -1);
+        if (templateName.toLowerCase() === PortalAttributeNames.SNIPPET) {
+            // {% include 'snippet' snippet_name:'Footer' %} renders a content snippet
+            const match = SNIPPET_NAME_ARGUMENT_REGEX.exec(token.args);
+            if (!match) {
+                return [];
+            }
+            const nameBegin = argsOffset + match.index + match[0].indexOf(match[1] + match[2]);
+            return [{ entityName: PortalEntityNames.CONTENT_SNIPPET, name: match[2], begin: nameBegin, end: nameBegin + match[2].length + 2 }];
+        }
+        if (BUILT_IN_TEMPLATES.includes(templateName.toLowerCase())) {
+            return [];
+        }
+        const templateBegin = argsOffset + templateToken.begin;
+        return [{ entityName: PortalEntityNames.WEB_TEMPLATE, name: templateName, begin: templateBegin, end: templateBegin + templateToken.getText().length }];
+    } catch (e) {
+        // Incomplete include tag, nothing to refer to yet
+        return [];
+    }
+}
+
+const getSiteFolder = (workspaceRootFolders: WorkspaceFolder[] | null, uri: string): string | undefined => {
+    const portalConfigFolderUrl = getCachedPortalConfigFolderUrl(workspaceRootFolders, uri);
+    return portalConfigFolderUrl ? path.dirname(fileURLToPath(portalConfigFolderUrl)) : undefined;
+}
+
+const readRecordMetadata = (metadataFile: string): { id?: string, name?: string } => {
+    try {
+        const metadata = YAML.parse(fs.readFileSync(metadataFile, 'utf8'));
+        return { id: metadata?.[getLayoutOfMetadataFile(metadataFile)?.idAttribute ?? ''], name: metadata?.adx_name };
+    } catch (e) {
+        return {};
+    }
+}
+
+const getLayoutOfMetadataFile = (metadataFile: string) =>
+    Object.values(RECORD_FILE_LAYOUTS).find(layout => metadataFile.endsWith(layout.metadataSuffix));
+
+/**
+ * Returns the metadata files of the records with the given name, one per language for content snippets.
+ * The name is resolved to a record ID through the manifest; sites without a manifest are matched on the names in the metadata files.
+ */
+const findRecordMetadataFiles = (siteFolder: string, entityName: ReferencedEntityName, name: string, recordId: string | undefined): string[] => {
+    const layout = RECORD_FILE_LAYOUTS[entityName];
+    const metadataFiles: string[] = glob.sync(`${layout.folder}/**/*${layout.metadataSuffix}`, { cwd: siteFolder, absolute: true, nodir: true });
+    return metadataFiles.filter(metadataFile => {
+        const metadata = readRecordMetadata(metadataFile);
+        return recordId ? isSameName(metadata.id, recordId) : isSameName(metadata.name, name);
+    });
+}
+
+// The content file of a record where there is one, otherwise its metadata file
+const toRecordFile = (metadataFile: string, entityName: ReferencedEntityName): string => {
+    const layout = RECORD_FILE_LAYOUTS[entityName];
+    const contentFile = metadataFile.slice(0, -layout.metadataSuffix.length) + layout.contentSuffix;
+    return fs.existsSync(contentFile) ? contentFile : metadataFile;
+}
+
+export interface IRecordFile {
+    entityName: ReferencedEntityName;
+    name: string;
+    file: string;
+}
+
+/**
+ * Lists the web templates and content snippets under the given folder, e.g. a workspace folder with one or more sites,
+ * with their content file where there is one, otherwise their metadata file
+ */
+export const listRecordFiles = (folder: string): IRecordFile[] => {
+    const recordFiles: IRecordFile[] = [];
+    Object.entries(RECORD_FILE_LAYOUTS).forEach(([entityName, layout]) => {
+        const metadataFiles: string[] = glob.sync(`**/${layout.folder}/**/*${layout.metadataSuffix}`, { cwd: folder, absolute: true, nodir: true, ignore: '**/node_modules/**' });
+        metadataFiles.forEach(metadataFile => {
+            const name = readRecordMetadata(metadataFile).name;
+            if (name) {
+                recordFiles.push({ entityName: entityName as ReferencedEntityName, name, file: toRecordFile(metadataFile, entityName as ReferencedEntityName) });
+            }
+        });
+    });
+    return recordFiles;
+}
+
+// The record files of each site, by the folder they were listed for and then by the folder of the site. The sites whose
+// files changed on disk map to undefined until they are listed again.
+const siteRecordFiles = new Map<string, Map<string, IRecordFile[] | undefined>>();
+
+// e.g. /sites/contoso for /sites/contoso/web-templates/header/Header.webtemplate.yml
+const getSiteFolderOfRecordFile = (file: string): string | undefined => {
+    const segments = file.split(path.sep);
+    const recordFolderIndex = segments.findIndex(segment => Object.values(RECORD_FILE_LAYOUTS).some(layout => layout.folder === segment));
+    return recordFolderIndex > 0 ? segments.slice(0, recordFolderIndex).join(path.sep) : undefined;
+}
+
+/**
+ * Same as listRecordFiles, but searches the folder only once and lists a site again only after onRecordFileChanged
+ * was told that one of its files changed
+ */
+export const listCachedRecordFiles = (folder: string): IRecordFile[] => {
+    const sites = siteRecordFiles.get(folder) ?? new Map<string, IRecordFile[] | undefined>();
+    if (!siteRecordFiles.has(folder)) {
+        listRecordFiles(folder).forEach(recordFile => {
+            const siteFolder = getSiteFolderOfRecordFile(recordFile.file) ?? folder;
+            sites.set(siteFolder, [...sites.get(siteFolder) ?? [], recordFile]);
+        });
+        siteRecordFiles.set(folder, sites);
+    }
+    return [...sites.entries()].flatMap(([siteFolder, recordFiles]) => {
+        if (!recordFiles) {
+            recordFiles = listRecordFiles(siteFolder);
+            sites.set(siteFolder, recordFiles);
+        }
+        return recordFiles;
+    });
+}
+
+/**
+ * Keeps the cached record files up to date with a file that was created, changed or deleted in the workspace
+ */
+export const onRecordFileChanged = (fileUri: string): void => {
+    const siteFolder = getSiteFolderOfRecordFile(fileURLToPath(fileUri));
+    if (!siteFolder) {
+        return;
+    }
+    siteRecordFiles.forEach((sites, folder) => {
+        // A site that is new to the folder is listed too
+        if (siteFolder === folder || siteFolder.startsWith(folder + path.sep)) {
+            sites.set(siteFolder, undefined);
+        }
+    });
+}
+
+const toFileLocation = (file: string): Location => ({
+    uri: pathToFileURL(file).href,
+    range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+});
+
+const getReferenceAt = (document: TextDocument, position: Position): ILiquidReference | undefined => {
+    const offset = document.offsetAt(position);
+    return getLiquidReferences(readLiquidTokens(document.getText()))
+        .find(reference => reference.begin <= offset && offset <= reference.end);
+}
+
+const getDeclarationMetadataFiles = (workspaceRootFolders: WorkspaceFolder[] | null, siteFolder: string, documentUri: string, entityName: ReferencedEntityName, name: string): string[] => {
+    const record = (getMatchedManifestRecords(workspaceRootFolders, entityName, documentUri) ?? [])
+        .find(record => isSameName(record.DisplayName, name));
+    const files = record ? findRecordMetadataFiles(siteFolder, entityName, name, record.RecordId) : [];
+    // The manifest may be out of date with the files on disk, e.g. for records created since the download
+    return files.length > 0 ? files : findRecordMetadataFiles(siteFolder, entityName, name, undefined);
+}
+
+const getDeclarationFiles = (workspaceRootFolders: WorkspaceFolder[] | null, siteFolder: string, documentUri: string, entityName: ReferencedEntityName, name: string): string[] =>
+    getDeclarationMetadataFiles(workspaceRootFolders, siteFolder, documentUri, entityName, name).map(metadataFile => toRecordFile(metadataFile, entityName));
+
+/**
+ * Resolves the web template or content snippet referenced at the given position to its files in the site
+ */
+export const getLiquidDefinition = (document: TextDocument, position: Position, workspaceRootFolders: WorkspaceFolder[] | null): Location[] => {
+    const reference = getReferenceAt(document, position);
+    const siteFolder = getSiteFolder(workspaceRootFolders, document.uri);
+    if (!reference || !siteFolder) {
+        return [];
+    }
+    return getDeclarationFiles(workspaceRootFolders, siteFolder, document.uri, reference.entityName, reference.name).map(toFileLocation);
+}
+
+// A web template or content snippet file stands for its own record when references are asked for outside of any reference
+const getRecordOfFile = (uri: string): { entityName: ReferencedEntityName, name: string } | undefined => {
+    const file = fileURLToPath(uri);
+    for (const [entityName, layout] of Object.entries(RECORD_FILE_LAYOUTS)) {
+        if (file.endsWith(layout.contentSuffix)) {
+            const name = readRecordMetadata(file.slice(0, -layout.contentSuffix.length) + layout.metadataSuffix).name;
+            return name ? { entityName: entityName as ReferencedEntityName, name } : undefined;
+        }
+    }
+    return undefined;
+}
+
+// Open documents are read as they are in the editor, and the others from disk with version 0
+const readSiteDocument = (file: string, getOpenDocument: (uri: string) => TextDocument | undefined): TextDocument => {
+    const uri = pathToFileURL(file).href;
+    return getOpenDocument(uri) ?? TextDocument.create(uri, path.extname(file) === '.yml' ? 'yaml' : 'html', 0, fs.readFileSync(file, 'utf8'));
+}
+
+const findSiteReferences = (siteFolder: string, record: { entityName: ReferencedEntityName, name: string },
+    getOpenDocument: (uri: string) => TextDocument | undefined): { document: TextDocument, reference: ILiquidReference }[] => {
+    const liquidFiles: string[] = glob.sync('**/*.html', { cwd: siteFolder, absolute: true, nodir: true });
+    return liquidFiles.flatMap(file => {
+        const fileDocument = readSiteDocument(file, getOpenDocument);
+        return getLiquidReferences(readLiquidTokens(fileDocument.getText()))
+            .filter(reference => reference.entityName === record.entityName && isSameName(reference.name, record.name))
+            .map(reference => ({ document: fileDocument, reference }));
+    });
+}
+
+/**
+ * Lists every place in the site that refers to the web template or content snippet at the given position.
+ * Open documents are searched as they are in the editor, so unsaved changes are taken into account.
+ */
+export const getLiquidReferenceLocations = (document: TextDocument, position: Position, includeDeclaration: boolean,
+    workspaceRootFolders: WorkspaceFolder[] | null, getOpenDocument: (uri: string) => TextDocument | undefined): Location[] => {
+    const siteFolder = getSiteFolder(workspaceRootFolders, document.uri);
+    const record = getReferenceAt(document, position) ?? getRecordOfFile(document.uri);
+    if (!siteFolder || !record) {
+        return [];
+    }
+
+    const locations: Location[] = findSiteReferences(siteFolder, record, getOpenDocument).map(({ document: fileDocument, reference }) => ({
+        uri: fileDocument.uri,
+        range: { start: fileDocument.positionAt(reference.begin), end: fileDocument.positionAt(reference.end) }
+    }));
+    if (includeDeclaration) {
+        locations.push(...getDeclarationFiles(workspaceRootFolders, siteFolder, document.uri, record.entityName, record.name).map(toFileLocation));
+    }
+    return locations;
+}
+
+/**
+ * Returns the name of the web template or content snippet referenced at the given position, without its quotes,
+ * if it can be renamed, i.e. it is a record of the site
+ */
+export const prepareLiquidRename = (document: TextDocument, position: Position, workspaceRootFolders: WorkspaceFolder[] | null): { range: Range, placeholder: string } | undefined => {
+    const reference = getReferenceAt(document, position);
+    const siteFolder = getSiteFolder(workspaceRootFolders, document.uri);
+    if (!reference || !siteFolder || getDeclarationMetadataFiles(workspaceRootFolders, siteFolder, document.uri, reference.entityName, reference.name).length === 0) {
+        return undefined;
+    }
+    return {
+        range: { start: document.positionAt(reference.begin + 1), end: document.positionAt(reference.end - 1) },
+        placeholder: reference.name
+    };
+}
+
+// Rewrites the display names of the records in the manifests of the site, which completion and diagnostics read names from
+const getManifestRenameEdits = (siteFolder: string, recordIds: string[], newName: string,
+    getOpenDocument: (uri: string) => TextDocument | undefined): { document: TextDocument, edit: AnnotatedTextEdit }[] => {
+    const manifestFiles: string[] = glob.sync('.portalconfig/*-manifest.yml', { cwd: siteFolder, absolute: true, nodir: true, dot: true });
+    return manifestFiles.flatMap(manifestFile => {
+        const manifestDocument = readSiteDocument(manifestFile, getOpenDocument);
+        const lines = manifestDocument.getText().split(/\r?\n/);
+        const edits: { document: TextDocument, edit: AnnotatedTextEdit }[] = [];
+        // A record is a list item, whose RecordId may come before or after its DisplayName
+        let itemBegin = 0;
+        lines.forEach((line, lineNumber) => {
+            if (/^\s*-\s/.test(line)) {
+                itemBegin = lineNumber;
+            }
+            const recordId = MANIFEST_RECORD_ID_REGEX.exec(line)?.[1];
+            if (!recordId || !recordIds.some(id => isSameName(id, recordId))) {
+                return;
+            }
+            let itemEnd = lineNumber + 1;
+            while (itemEnd < lines.length && !/^\s*-\s|^\S/.test(lines[itemEnd])) {
+                itemEnd++;
+            }
+            for (let itemLine = itemBegin; itemLine < itemEnd; itemLine++) {
+                const match = MANIFEST_DISPLAY_NAME_REGEX.exec(lines[itemLine]);
+                if (match) {
+                    edits.push({
+                        document: manifestDocument,
+                        edit: {
+                            range: { start: { line: itemLine, character: match[1].length }, end: { line: itemLine, character: lines[itemLine].length } },
+                            newText: ` ${YAML.stringify(newName).trim()}`,
+                            annotationId: RENAME_ANNOTATION_ID
+                        }
+                    });
+                }
+            }
+        });
+        return edits;
+    });
+}
+
+/**
+ * Renames the web template or content snippet referenced at the given position: its adx_name, its name in the manifests,
+ * and every reference to it in the site, as one workspace edit that is previewed before it is applied
+ */
+export const getLiquidRenameEdit = (document: TextDocument, position: Position, newName: string,
+    workspaceRootFolders: WorkspaceFolder[] | null, getOpenDocument: (uri: string) => TextDocument | undefined): WorkspaceEdit | undefined => {
+    const reference = getReferenceAt(document, position);
+    const siteFolder = getSiteFolder(workspaceRootFolders, document.uri);
+    const name = newName.trim();
+    if (!reference || !siteFolder || !name) {
+        return undefined;
+    }
+    const metadataFiles = getDeclarationMetadataFiles(workspaceRootFolders, siteFolder, document.uri, reference.entityName, reference.name);
+    if (metadataFiles.length === 0) {
+        return undefined;
+    }
+    const isWebTemplate = reference.entityName === PortalEntityNames.WEB_TEMPLATE;
+    if (!isSameName(name, reference.name) && findRecordMetadataFiles(siteFolder, reference.entityName, name, undefined).length > 0) {
+        throw new ResponseError(ErrorCodes.InvalidRequest, isWebTemplate
+            ? `A web template named '${name}' already exists in this site.`
+            : `A content snippet named '${name}' already exists in this site.`);
+    }
+
+    const edits: { document: TextDocument, edit: AnnotatedTextEdit }[] = [];
+    findSiteReferences(siteFolder, reference, getOpenDocument).forEach(({ document: fileDocument, reference: siteReference }) => {
+        // Keep the quotes that were used, unless the new name contains them
+        const usedQuote = fileDocument.getText().charAt(siteReference.begin);
+        const quote = name.includes(usedQuote) ? (usedQuote === "'" ? '"' : "'") : usedQuote;
+        edits.push({
+            document: fileDocument,
+            edit: {
+                range: { start: fileDocument.positionAt(siteReference.begin), end: fileDocument.positionAt(siteReference.end) },
+                newText: `${quote}${name}${quote}`,
+                annotationId: RENAME_ANNOTATION_ID
+            }
+        });
+    });
+    const recordIds: string[] = [];
+    metadataFiles.forEach(metadataFile => {
+        const metadataDocument = readSiteDocument(metadataFile, getOpenDocument);
+        const match = NAME_ATTRIBUTE_LINE_REGEX.exec(metadataDocument.getText());
+        if (match) {
+            edits.push({
+                document: metadataDocument,
+                edit: {
+                    range: { start: metadataDocument.positionAt(match.index), end: metadataDocument.positionAt(match.index + match[0].length) },
+                    newText: YAML.stringify({ adx_name: name }).trim(),
+                    annotationId: RENAME_ANNOTATION_ID
+                }
+            });
+        }
+        const recordId = readRecordMetadata(metadataFile).id;
+        if (recordId) {
+            recordIds.push(recordId);
+        }
+    });
+    edits.push(...getManifestRenameEdits(siteFolder, recordIds, name, getOpenDocument));
+
+    const documentChanges = new Map<string, TextDocumentEdit>();
+    edits.forEach(({ document: editedDocument, edit }) => {
+        const documentChange = documentChanges.get(editedDocument.uri) ?? TextDocumentEdit.create(
+            // Files that are not open in the editor have no version to check
+            { uri: editedDocument.uri, version: editedDocument.version > 0 ? editedDocument.version : null }, []);
+        documentChange.edits.push(edit);
+        documentChanges.set(editedDocument.uri, documentChange);
+    });
+    return {
+        documentChanges: Array.from(documentChanges.values()),
+        changeAnnotations: {
+            [RENAME_ANNOTATION_ID]: {
+                label: isWebTemplate ? `Rename web template '${reference.name}' to '${name}'` : `Rename content snippet '${reference.name}' to '${name}'`,
+                needsConfirmation: true
+            }
+        }
+    };
+}
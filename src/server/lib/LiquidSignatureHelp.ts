@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { MarkupKind, ParameterInformation, Position, SignatureHelp } from "vscode-languageserver/node";
+import { TAG_PARAMETERS_MAP } from "../constants/AutoComplete";
+import { getLiquidDocumentation } from "./LiquidHoverProvider";
+
+// A tag up to the cursor, e.g. {% entityform name:'Con
+const TAG_BEFORE_CURSOR_REGEX = /{%-?\s*(\w+)\b((?:(?!%}|{%)[\s\S])*)$/;
+const PARAMETER_NAME_REGEX = /(\w+)\s*:/g;
+// The value of a parameter that is still being typed, e.g. 'Con or 1033
+const VALUE_IN_PROGRESS_REGEX = /^\s*(?:'[^']*'?|"[^"]*"?|[^\s,'"]*)$/;
+const NAME_IN_PROGRESS_REGEX = /(?:^|[\s,])(\w+)$/;
+
+// The parameter whose name or value is being typed in the arguments before the cursor
+const getActiveParameterName = (argsBeforeCursor: string): string | undefined => {
+    const parameterRegex = new RegExp(PARAMETER_NAME_REGEX);
+    let lastParameter: RegExpExecArray | null = null;
+    let match: RegExpExecArray | null;
+    while ((match = parameterRegex.exec(argsBeforeCursor)) !== null) {
+        lastParameter = match;
+    }
+    if (lastParameter && VALUE_IN_PROGRESS_REGEX.test(argsBeforeCursor.slice(lastParameter.index + lastParameter[0].length))) {
+        return lastParameter[1];
+    }
+    return NAME_IN_PROGRESS_REGEX.exec(argsBeforeCursor)?.[1];
+}
+
+/**
+ * Shows the named parameters of the Power Pages tag at the cursor, e.g. {% entityform id: string, name: string, ... %},
+ * and highlights the one being typed
+ */
+export const getLiquidSignatureHelp = (document: TextDocument, position: Position): SignatureHelp | undefined => {
+    const match = TAG_BEFORE_CURSOR_REGEX.exec(document.getText().slice(0, document.offsetAt(position)));
+    const tagName = match?.[1].toLowerCase();
+    const parameterNames = tagName ? TAG_PARAMETERS_MAP.get(tagName) : undefined;
+    if (!match || !tagName || !parameterNames || !match[2]) {
+        return undefined;
+    }
+
+    const documentation = getLiquidDocumentation();
+    const parameters: ParameterInformation[] = [];
+    let label = tagName;
+    parameterNames.forEach((parameterName, index) => {
+        const entry = documentation.parameters[`${tagName}.${parameterName}`];
+        const parameterLabel = entry?.type ? `${parameterName}: ${entry.type}` : parameterName;
+        label += index === 0 ? ' ' : ', ';
+        parameters.push({
+            label: [label.length, label.length + parameterLabel.length],
+            documentation: entry && { kind: MarkupKind.Markdown, value: entry.description }
+        });
+        label += parameterLabel;
+    });
+
+    const activeParameterName = getActiveParameterName(match[2]) ?? '';
+    // A name that is only partly typed matches the first parameter that starts with it
+    const activeParameter = parameterNames.includes(activeParameterName)
+        ? parameterNames.indexOf(activeParameterName)
+        : parameterNames.findIndex(parameterName => activeParameterName && parameterName.startsWith(activeParameterName));
+    const tagDocumentation = documentation.tags[tagName];
+    return {
+        signatures: [{
+            label,
+            documentation: tagDocumentation && { kind: MarkupKind.Markdown, value: tagDocumentation.description },
+            parameters
+        }],
+        activeSignature: 0,
+        // Out of range when no parameter is being typed, so that none is highlighted
+        activeParameter: activeParameter >= 0 ? activeParameter : parameterNames.length
+    };
+}
@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+import { TagToken, TokenKind } from "liquidjs";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DocumentSymbol, SymbolInformation, SymbolKind, WorkspaceFolder } from "vscode-languageserver/node";
+import { PortalEntityNames } from "../constants/PortalEnums";
+import { listCachedRecordFiles } from "./LiquidReferences";
+import { readLiquidTokens } from "./LiquidTokens";
+
+// Tags that show up in the outline; those with an end tag hold the symbols of the tags inside them
+const SYMBOL_KINDS: Record<string, SymbolKind> = {
+    block: SymbolKind.Namespace,
+    extends: SymbolKind.File,
+    include: SymbolKind.File,
+    fetchxml: SymbolKind.Struct,
+    for: SymbolKind.Array,
+    if: SymbolKind.Boolean,
+    assign: SymbolKind.Variable,
+    capture: SymbolKind.Variable
+};
+const SYMBOL_BLOCK_TAGS = ['block', 'fetchxml', 'for', 'if', 'capture'];
+const MAX_SYMBOL_NAME_LENGTH = 60;
+
+const getSymbolName = (token: TagToken): string => {
+    const args = token.args.replace(/\s+/g, ' ').trim();
+    const name = args ? `${token.name} ${args}` : token.name;
+    return name.length > MAX_SYMBOL_NAME_LENGTH ? `${name.slice(0, MAX_SYMBOL_NAME_LENGTH)}…` : name;
+}
+
+/**
+ * Returns the outline of the Liquid blocks, includes and variables of a document
+ */
+export const getLiquidDocumentSymbols = (document: TextDocument): DocumentSymbol[] => {
+    const symbols: DocumentSymbol[] = [];
+    const openBlocks: { name: string, symbol: DocumentSymbol }[] = [];
+    let inComment = false;
+    const addSymbol = (symbol: DocumentSymbol) => {
+        const parent = openBlocks[openBlocks.length - 1]?.symbol;
+        if (parent) {
+            parent.children?.push(symbol);
+        } else {
+            symbols.push(symbol);
+        }
+    };
+
+    readLiquidTokens(document.getText()).forEach(token => {
+        if (token.kind !== TokenKind.Tag) {
+            return;
+        }
+        const tagName = (token as TagToken).name;
+        if (inComment || tagName === 'comment') {
+            inComment = tagName !== 'endcomment';
+            return;
+        }
+        if (tagName.startsWith('end') && SYMBOL_BLOCK_TAGS.includes(tagName.slice(3))) {
+            const openBlockIndex = openBlocks.map(block => block.name).lastIndexOf(tagName.slice(3));
+            if (openBlockIndex >= 0) {
+                // Blocks that were left open inside end where their enclosing block ends
+                openBlocks.splice(openBlockIndex).forEach(block => block.symbol.range.end = document.positionAt(token.end));
+            }
+            return;
+        }
+        const kind = SYMBOL_KINDS[tagName];
+        if (kind === undefined) {
+            return;
+        }
+        const tagRange = { start: document.positionAt(token.begin), end: document.positionAt(token.end) };
+        const symbol: DocumentSymbol = { name: getSymbolName(token as TagToken), kind, range: { ...tagRange }, selectionRange: tagRange };
+        addSymbol(symbol);
+        if (SYMBOL_BLOCK_TAGS.includes(tagName)) {
+            // Until its end tag is found, a block runs to the end of the document
+            symbol.range.end = document.positionAt(document.getText().length);
+            symbol.children = [];
+            openBlocks.push({ name: tagName, symbol });
+        }
+    });
+    return symbols;
+}
+
+/**
+ * Finds the web templates and content snippets of all sites in the workspace whose name contains the query
+ */
+export const getLiquidWorkspaceSymbols = (query: string, workspaceRootFolders: WorkspaceFolder[] | null): SymbolInformation[] => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return (workspaceRootFolders ?? []).flatMap(workspaceRootFolder => listCachedRecordFiles(fileURLToPath(workspaceRootFolder.uri)))
+        .filter(recordFile => recordFile.name.toLowerCase().includes(normalizedQuery))
+        .map(recordFile => ({
+            name: recordFile.name,
+            kind: recordFile.entityName === PortalEntityNames.WEB_TEMPLATE ? SymbolKind.File : SymbolKind.String,
+            containerName: recordFile.entityName === PortalEntityNames.WEB_TEMPLATE ? 'Web template' : 'Content snippet',
+            location: {
+                uri: pathToFileURL(recordFile.file).href,
+                range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+            }
+        }));
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TagToken, Tokenizer, TokenKind, TopLevelToken } from "liquidjs";
+import { OutputToken } from "liquidjs/dist/tokens";
+
+export type LiquidToken = TagToken | OutputToken;
+
+// The token content is trimmed of delimiters and whitespace, so look up where it actually starts
+export const getContentOffset = (token: LiquidToken) => token.input.indexOf(token.content, token.begin);
+
+export interface ILiquidTokenizeError {
+    begin: number;
+    end: number;
+    message: string;
+}
+
+/**
+ * Same as readLiquidTokens, but also tells where and why a document could not be tokenized to its end
+ */
+export const tokenizeLiquid = (text: string): { tokens: LiquidToken[], error?: ILiquidTokenizeError } => {
+    let tokens: TopLevelToken[];
+    let error: ILiquidTokenizeError | undefined;
+    try {
+        tokens = new Tokenizer(text).readTopLevelTokens();
+    } catch (e) {
+        const errorToken = (e as { token?: { begin: number, end: number } }).token;
+        error = { begin: errorToken?.begin ?? 0, end: errorToken?.end ?? text.length, message: (e as Error).message.split(', line:')[0] };
+        try {
+            tokens = new Tokenizer(text.slice(0, error.begin)).readTopLevelTokens();
+        } catch {
+            tokens = [];
+        }
+    }
+    return {
+        tokens: tokens.filter(token => token.kind === TokenKind.Tag || token.kind === TokenKind.Output) as LiquidToken[],
+        error
+    };
+}
+
+/**
+ * Returns the tags and outputs of a document. A document that is being edited often has an unclosed '{%' or '{{',
+ * in which case the tokens before it are returned.
+ */
+export const readLiquidTokens = (text: string): LiquidToken[] => tokenizeLiquid(text).tokens;
+
+export const findLiquidTokenAt = (tokens: LiquidToken[], offset: number): LiquidToken | undefined =>
+    tokens.find(token => token.begin <= offset && offset < token.end);
@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { TagToken, TokenKind } from "liquidjs";
+import { readLiquidTokens } from "./LiquidTokens";
+
+const ASSIGNED_VARIABLE_REGEX = /^\s*([\w-]+)\s*=/;
+const LOOP_VARIABLE_REGEX = /^\s*([\w-]+)\s+in\b/;
+const NAMED_VARIABLE_REGEX = /^\s*(['"]?)([\w-]+)\1/;
+
+/**
+ * Returns the variables that templates can use after the given text: those introduced by assign, capture, increment,
+ * decrement and fetchxml, and the loop variables of the for and tablerow blocks that are still open
+ */
+export const getVariablesInScope = (textBeforeCursor: string): string[] => {
+    const variables = new Set<string>();
+    const loopVariables: string[] = [];
+    readLiquidTokens(textBeforeCursor).forEach(token => {
+        if (token.kind !== TokenKind.Tag) {
+            return;
+        }
+        const { name, args } = token as TagToken;
+        switch (name) {
+            case 'assign': {
+                const variable = ASSIGNED_VARIABLE_REGEX.exec(args)?.[1];
+                if (variable) {
+                    variables.add(variable);
+                }
+                break;
+            }
+            case 'capture':
+            case 'increment':
+            case 'decrement':
+            case 'fetchxml': {
+                const variable = NAMED_VARIABLE_REGEX.exec(args)?.[2];
+                if (variable) {
+                    variables.add(variable);
+                }
+                break;
+            }
+            case 'for':
+            case 'tablerow':
+                // Pushed even without a variable to keep the stack in line with the end tags
+                loopVariables.push(LOOP_VARIABLE_REGEX.exec(args)?.[1] ?? '');
+                break;
+            case 'endfor':
+            case 'endtablerow':
+                loopVariables.pop();
+                break;
+        }
+    });
+    loopVariables.filter(variable => !!variable).forEach(variable => variables.add(variable));
+    return Array.from(variables);
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as path from 'path';
+import { fileURLToPath, URL } from 'url';
+import { WorkspaceFolder } from 'vscode-languageserver/node';
+import { IManifestElement, SiteManifest } from '../../common/ManifestIndex';
+import { getPortalConfigFolderUrl } from '../../common/PortalConfigFinder';
+
+// The manifest index is built once by the extension, which sends the records of every site to this server
+
+// The .portalconfig folder of the site a directory belongs to, or null when it is not part of a site
+const portalConfigFolders = new Map<string, URL | null>();
+// The manifest records of each site, keyed by the path of its .portalconfig folder
+const siteManifests = new Map<string, SiteManifest>();
+
+/**
+ * Same as getPortalConfigFolderUrl, but walks the directory tree only once per directory
+ */
+export function getCachedPortalConfigFolderUrl(workspaceRootFolders: WorkspaceFolder[] | null, fileUri: string): URL | null {
+    const directory = path.dirname(fileUri);
+    let portalConfigFolderUrl = portalConfigFolders.get(directory);
+    if (portalConfigFolderUrl === undefined) {
+        portalConfigFolderUrl = getPortalConfigFolderUrl(workspaceRootFolders, fileUri);
+        portalConfigFolders.set(directory, portalConfigFolderUrl);
+    }
+    return portalConfigFolderUrl;
+}
+
+/**
+ * Keeps the records of a site that the extension sent, or forgets them when the site was removed
+ */
+export function setSiteManifest(portalConfigFolder: string, manifest: SiteManifest | null): void {
+    // A site may have been downloaded into or removed from the workspace
+    portalConfigFolders.clear();
+    if (manifest) {
+        siteManifests.set(portalConfigFolder, manifest);
+    } else {
+        siteManifests.delete(portalConfigFolder);
+    }
+}
+
+/**
+ * Returns the records of an entity from the manifest of a site, or none until the extension sent it
+ */
+export function getSiteManifestRecords(portalConfigFolderUrl: URL, entityName: string): IManifestElement[] {
+    return siteManifests.get(fileURLToPath(portalConfigFolderUrl))?.[entityName] ?? [];
+}
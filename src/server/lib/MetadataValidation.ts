@@ -0,0 +1,202 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as YAML from 'yaml';
+import { Node, Pair, Scalar, YAMLMap, YAMLSeq } from 'yaml/types';
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CompletionItem, CompletionItemKind, Diagnostic, DiagnosticSeverity, Position, WorkspaceFolder } from "vscode-languageserver/node";
+import { IMetadataAttribute, IMetadataSchema, METADATA_SCHEMAS } from "../constants/MetadataSchema";
+import { getMatchedManifestRecords, IManifestElement, withManifestRecordDetail } from "./PortalManifestReader";
+
+const DIAGNOSTIC_SOURCE = 'Power Pages';
+const GUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const KEY_WITH_VALUE_REGEX = /^\s*([\w.]+)\s*:/;
+
+interface IMetadataValidationContext {
+    document: TextDocument;
+    workspaceRootFolders: WorkspaceFolder[] | null;
+    schema: IMetadataSchema;
+    diagnostics: Diagnostic[];
+    manifestRecords: Map<string, IManifestElement[]>;
+}
+
+export const getMetadataSchema = (uri: string): IMetadataSchema | undefined => {
+    const suffix = Object.keys(METADATA_SCHEMAS).find(suffix => uri.toLowerCase().endsWith(suffix));
+    return suffix ? METADATA_SCHEMAS[suffix] : undefined;
+}
+
+const getManifestRecords = (ctx: Pick<IMetadataValidationContext, 'document' | 'workspaceRootFolders' | 'manifestRecords'>, entityName: string): IManifestElement[] => {
+    let records = ctx.manifestRecords.get(entityName);
+    if (!records) {
+        records = getMatchedManifestRecords(ctx.workspaceRootFolders, entityName, ctx.document.uri) ?? [];
+        ctx.manifestRecords.set(entityName, records);
+    }
+    return records;
+}
+
+const addDiagnostic = (ctx: IMetadataValidationContext, range: [number, number] | undefined, severity: DiagnosticSeverity, message: string) => {
+    const [begin, end] = range ?? [0, 0];
+    ctx.diagnostics.push({
+        severity,
+        range: { start: ctx.document.positionAt(begin), end: ctx.document.positionAt(end) },
+        message,
+        source: DIAGNOSTIC_SOURCE
+    });
+}
+
+const getRange = (node: Node | null | undefined): [number, number] | undefined =>
+    node?.range ? [node.range[0], node.range[1]] : undefined;
+
+/**
+ * Validates a record file of a downloaded site (e.g. Home.en-US.webpage.yml) against the schema of its entity.
+ * Files without a known schema are not checked.
+ */
+export const getMetadataDiagnostics = (document: TextDocument, workspaceRootFolders: WorkspaceFolder[] | null): Diagnostic[] => {
+    const schema = getMetadataSchema(document.uri);
+    if (!schema) {
+        return [];
+    }
+    const ctx: IMetadataValidationContext = { document, workspaceRootFolders, schema, diagnostics: [], manifestRecords: new Map() };
+    const parsedDocument = YAML.parseDocument(document.getText());
+    if (parsedDocument.errors.length > 0) {
+        parsedDocument.errors.forEach(error => {
+            const range = error.source?.range ?? error.range;
+            addDiagnostic(ctx, range ? [range.start, range.end] : undefined, DiagnosticSeverity.Error, error.message);
+        });
+        return ctx.diagnostics;
+    }
+    if (!(parsedDocument.contents instanceof YAMLMap)) {
+        return ctx.diagnostics;
+    }
+
+    const pairs = parsedDocument.contents.items as Pair[];
+    pairs.forEach(pair => {
+        const key = String((pair.key as Scalar)?.value);
+        const attribute = schema.attributes[key];
+        if (attribute) {
+            validateValue(ctx, key, attribute, pair.value as Node | null);
+        } else if (key.startsWith('adx_')) {
+            // The schemas only know the attributes that are commonly edited, while the files pac downloads hold every
+            // column of the record, so keys unknown to the schema are only hinted at rather than listed as problems
+            addDiagnostic(ctx, getRange(pair.key as Node), DiagnosticSeverity.Hint, `Unknown attribute '${key}' for a ${schema.displayName}.`);
+        }
+    });
+
+    const keys = pairs.map(pair => String((pair.key as Scalar)?.value));
+    const firstLineEnd = document.offsetAt({ line: 0, character: Number.MAX_SAFE_INTEGER });
+    Object.entries(schema.attributes)
+        .filter(([key, attribute]) => attribute.required && !keys.includes(key))
+        .forEach(([key]) => addDiagnostic(ctx, [0, firstLineEnd], DiagnosticSeverity.Warning, `Required attribute '${key}' is missing.`));
+    return ctx.diagnostics;
+}
+
+const validateValue = (ctx: IMetadataValidationContext, key: string, attribute: IMetadataAttribute, valueNode: Node | null) => {
+    if (!valueNode || (valueNode instanceof Scalar && valueNode.value === null)) {
+        return;
+    }
+    if (attribute.type === 'lookups') {
+        if (!(valueNode instanceof YAMLSeq)) {
+            addDiagnostic(ctx, getRange(valueNode), DiagnosticSeverity.Error, `'${key}' expects a list of record IDs.`);
+            return;
+        }
+        (valueNode.items as Node[]).forEach(item => validateValue(ctx, key, { ...attribute, type: 'lookup' }, item));
+        return;
+    }
+    if (!(valueNode instanceof Scalar)) {
+        addDiagnostic(ctx, getRange(valueNode), DiagnosticSeverity.Error, `'${key}' expects a single value.`);
+        return;
+    }
+
+    const value = valueNode.value;
+    const range = getRange(valueNode);
+    switch (attribute.type) {
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                addDiagnostic(ctx, range, DiagnosticSeverity.Error, `'${key}' expects true or false.`);
+            }
+            break;
+        case 'integer':
+            if (!Number.isInteger(value)) {
+                addDiagnostic(ctx, range, DiagnosticSeverity.Error, `'${key}' expects a whole number.`);
+            }
+            break;
+        case 'datetime':
+            if (isNaN(Date.parse(String(value)))) {
+                addDiagnostic(ctx, range, DiagnosticSeverity.Error, `'${key}' expects a date and time.`);
+            }
+            break;
+        case 'optionset':
+            if (!attribute.options || !(String(value) in attribute.options)) {
+                const allowedValues = Object.entries(attribute.options ?? {}).map(([optionValue, label]) => `${optionValue} (${label})`).join(', ');
+                addDiagnostic(ctx, range, DiagnosticSeverity.Error, `'${value}' is not a valid value for '${key}'. Expected one of: ${allowedValues}.`);
+            }
+            break;
+        case 'guid':
+        case 'lookup':
+            if (!GUID_REGEX.test(String(value))) {
+                addDiagnostic(ctx, range, DiagnosticSeverity.Error, `'${key}' expects a GUID.`);
+            } else if (attribute.type === 'lookup' && attribute.lookupEntity) {
+                // Without any records of the entity in the manifest there is nothing to resolve the ID against
+                const records = getManifestRecords(ctx, attribute.lookupEntity);
+                if (records.length > 0 && !records.some(record => record.RecordId?.toLowerCase() === String(value).toLowerCase())) {
+                    addDiagnostic(ctx, range, DiagnosticSeverity.Warning, `'${value}' does not match any ${attribute.lookupEntity} record of this site.`);
+                }
+            }
+            break;
+    }
+}
+
+/**
+ * Completes attribute names, and the values of option-set, boolean and lookup attributes, of record files with a known schema.
+ * Returns undefined for other files.
+ */
+export const getMetadataCompletions = (document: TextDocument, position: Position, workspaceRootFolders: WorkspaceFolder[] | null): CompletionItem[] | undefined => {
+    const schema = getMetadataSchema(document.uri);
+    if (!schema) {
+        return undefined;
+    }
+    const lineBeforeCursor = document.getText({ start: { line: position.line, character: 0 }, end: position });
+    const keyMatch = KEY_WITH_VALUE_REGEX.exec(lineBeforeCursor);
+    if (!keyMatch) {
+        if (/^\s+|^\s*-/.test(lineBeforeCursor)) {
+            // Attributes are only at the top level
+            return [];
+        }
+        const existingKeys = document.getText().split(/\r?\n/)
+            .map(line => KEY_WITH_VALUE_REGEX.exec(line)?.[1])
+            .filter(key => key !== undefined);
+        return Object.entries(schema.attributes)
+            .filter(([key]) => !existingKeys.includes(key))
+            .map(([key, attribute]) => ({
+                label: key,
+                kind: CompletionItemKind.Property,
+                detail: attribute.required ? `${attribute.type} (required)` : attribute.type,
+                insertText: `${key}: `
+            }));
+    }
+
+    const attribute = schema.attributes[keyMatch[1]];
+    switch (attribute?.type) {
+        case 'optionset':
+            return Object.entries(attribute.options ?? {}).map(([value, label]) => ({
+                label: `${label} (${value})`,
+                insertText: value,
+                kind: CompletionItemKind.EnumMember
+            }));
+        case 'boolean':
+            return ['true', 'false'].map(value => ({ label: value, kind: CompletionItemKind.Value }));
+        case 'lookup':
+            return getManifestRecords({ document, workspaceRootFolders, manifestRecords: new Map() }, attribute.lookupEntity ?? '')
+                .map(record => ({
+                    label: record.DisplayName + " (" + record.RecordId + ")",
+                    insertText: record.RecordId,
+                    kind: CompletionItemKind.Value,
+                    ...withManifestRecordDetail(record)
+                }));
+        default:
+            // Keys unknown to the schema, e.g. lookups to records it does not describe, fall back to the manifest lookup
+            return attribute ? [] : undefined;
+    }
+}
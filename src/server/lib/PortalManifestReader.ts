@@ -6,38 +6,31 @@
 import {
     WorkspaceFolder
 } from 'vscode-languageserver/node';
-import { URL } from 'url';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as YAML from 'yaml';
-import { getPortalConfigFolderUrl } from '../../common/PortalConfigFinder';
+import { IManifestElement } from '../../common/ManifestIndex';
+import { getCachedPortalConfigFolderUrl, getSiteManifestRecords } from './ManifestIndex';
 
-const manifest = '-manifest';
+export type { IManifestElement };
 
-export interface IManifestElement {
-    DisplayName: string;
-    RecordId: string;
+/**
+ * Describes which site and language a record belongs to, e.g. 'en-US · Contoso Site', for completion items
+ */
+export function getManifestRecordDetail(record: IManifestElement): string | undefined {
+    const detail = [record.Language, record.SiteName].filter(part => !!part).join(' · ');
+    return detail || undefined;
+}
+
+// Completion items of records only get a detail when there is something to tell
+export function withManifestRecordDetail(record: IManifestElement): { detail?: string } {
+    const detail = getManifestRecordDetail(record);
+    return detail ? { detail } : {};
 }
 
 export function getMatchedManifestRecords(workspaceRootFolders : WorkspaceFolder[] | null, keyForCompletion: string, pathOfFileBeingEdited?: string) : IManifestElement[] {
-    let matchedManifestRecords: IManifestElement[] = [];
-    if (pathOfFileBeingEdited) {
-        const portalConfigFolderUrl = getPortalConfigFolderUrl(workspaceRootFolders, pathOfFileBeingEdited) as URL | null; //https://github.com/Microsoft/TypeScript/issues/11498
-        if (portalConfigFolderUrl && keyForCompletion) {
-            const configFiles: string[] = fs.readdirSync(portalConfigFolderUrl);
-            configFiles.forEach(configFile => {
-                if (configFile.includes(manifest)) { // this is based on the assumption that there will be only one manifest file in portalconfig folder
-                    const manifestFilePath = path.join(portalConfigFolderUrl.href, configFile);
-                    const manifestData = fs.readFileSync(new URL(manifestFilePath), 'utf8');
-                    try {
-                        const parsedManifestData = YAML.parse(manifestData);
-                        matchedManifestRecords = parsedManifestData[keyForCompletion];
-                    } catch (exception) {
-                        // Add telemetry log. Failed parsing manifest file
-                    }
-                }
-            })
+    if (pathOfFileBeingEdited && keyForCompletion) {
+        const portalConfigFolderUrl = getCachedPortalConfigFolderUrl(workspaceRootFolders, pathOfFileBeingEdited);
+        if (portalConfigFolderUrl) {
+            return getSiteManifestRecords(portalConfigFolderUrl, keyForCompletion);
         }
     }
-    return matchedManifestRecords;
+    return [];
 }
@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import * as fs from 'fs';
+import { glob } from 'glob';
+import * as path from 'path';
+import { fileURLToPath, URL } from 'url';
+import * as YAML from 'yaml';
+import { WorkspaceFolder } from 'vscode-languageserver/node';
+import { getCachedPortalConfigFolderUrl } from './ManifestIndex';
+
+// Folders of a site whose records name the tables the site works with, and the columns it shows or reads of them
+const TABLE_RECORD_FOLDERS = ['table-permissions', 'lists', 'basic-forms'];
+const TABLE_RECORD_FILES = '{table-permissions/**/*.tablepermission.yml,lists/**/*.list.yml,basic-forms/**/*.basicform.yml}';
+const BASIC_FORM_METADATA_FILES = 'basic-forms/**/*.basicformmetadata.yml';
+const SITE_SETTINGS_FILE = 'sitesetting.yml';
+// e.g. Webapi/contact/fields, whose value lists the columns of contact that the Web API may read and write
+const WEB_API_FIELDS_SETTING_REGEX = /^webapi\/([^/]+)\/fields$/i;
+
+/**
+ * Logical names of the tables known to a site, each with the logical names of its known columns
+ */
+export type SiteTables = Map<string, string[]>;
+
+// The tables of each site, keyed by the path of its .portalconfig folder
+const siteTables = new Map<string, SiteTables>();
+
+/**
+ * Returns the tables of the site the given file belongs to. They are read once and kept until their files change on disk.
+ */
+export function getSiteTables(workspaceRootFolders: WorkspaceFolder[] | null, fileUri: string): SiteTables {
+    const portalConfigFolderUrl = getCachedPortalConfigFolderUrl(workspaceRootFolders, fileUri);
+    if (!portalConfigFolderUrl) {
+        return new Map();
+    }
+    const key = fileURLToPath(portalConfigFolderUrl);
+    let tables = siteTables.get(key);
+    if (!tables) {
+        tables = buildSiteTables(key);
+        siteTables.set(key, tables);
+    }
+    return tables;
+}
+
+function readYaml(file: string): unknown {
+    try {
+        return YAML.parse(fs.readFileSync(file, 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+function buildSiteTables(portalConfigFolder: string): SiteTables {
+    const columnsOfTables = new Map<string, Set<string>>();
+    const addTable = (tableName: unknown) => {
+        if (typeof tableName !== 'string' || !tableName.trim()) {
+            return undefined;
+        }
+        const logicalName = tableName.trim().toLowerCase();
+        let columns = columnsOfTables.get(logicalName);
+        if (!columns) {
+            columns = new Set();
+            columnsOfTables.set(logicalName, columns);
+        }
+        return columns;
+    };
+
+    const siteFolder = path.dirname(portalConfigFolder);
+    // Table permissions name the table in adx_entitylogicalname, lists and basic forms in adx_entityname
+    const formTables = new Map<string, unknown>();
+    const recordFiles: string[] = glob.sync(TABLE_RECORD_FILES, { cwd: siteFolder, absolute: true, nodir: true });
+    recordFiles.forEach(recordFile => {
+        const record = readYaml(recordFile) as Record<string, unknown> | undefined;
+        addTable(recordFile.endsWith('.tablepermission.yml') ? record?.adx_entitylogicalname : record?.adx_entityname);
+        if (recordFile.endsWith('.basicform.yml') && typeof record?.adx_entityformid === 'string') {
+            formTables.set(record.adx_entityformid.toLowerCase(), record.adx_entityname);
+        }
+    });
+
+    // The fields of a basic form are columns of the table of the form
+    const formMetadataFiles: string[] = glob.sync(BASIC_FORM_METADATA_FILES, { cwd: siteFolder, absolute: true, nodir: true });
+    formMetadataFiles.forEach(formMetadataFile => {
+        const formMetadata = readYaml(formMetadataFile) as Record<string, unknown> | undefined;
+        const formId = typeof formMetadata?.adx_entityform === 'string' ? formMetadata.adx_entityform.toLowerCase() : undefined;
+        const columns = formId ? addTable(formTables.get(formId)) : undefined;
+        if (columns && typeof formMetadata?.adx_attributelogicalname === 'string' && formMetadata.adx_attributelogicalname.trim()) {
+            columns.add(formMetadata.adx_attributelogicalname.trim().toLowerCase());
+        }
+    });
+
+    // The Web API settings list the columns of the tables it is enabled for, or * for all of them
+    const siteSettings = readYaml(path.join(siteFolder, SITE_SETTINGS_FILE));
+    (Array.isArray(siteSettings) ? siteSettings as Record<string, unknown>[] : []).forEach(setting => {
+        const settingName = setting?.adx_name;
+        const settingValue = setting?.adx_value;
+        const columns = addTable(typeof settingName === 'string' ? WEB_API_FIELDS_SETTING_REGEX.exec(settingName.trim())?.[1] : undefined);
+        if (columns && typeof settingValue === 'string') {
+            settingValue.split(',')
+                .map(columnName => columnName.trim().toLowerCase())
+                .filter(columnName => columnName && columnName !== '*')
+                .forEach(columnName => columns.add(columnName));
+        }
+    });
+
+    const tables: SiteTables = new Map();
+    Array.from(columnsOfTables.keys()).sort().forEach(tableName => tables.set(tableName, Array.from(columnsOfTables.get(tableName) ?? []).sort()));
+    return tables;
+}
+
+/**
+ * Forgets the tables of all sites when a file they are read from was created, changed or deleted in the workspace
+ */
+export function onTableMetadataFileChanged(fileUri: string): void {
+    const segments = new URL(fileUri).pathname.split('/');
+    if (segments[segments.length - 1] === SITE_SETTINGS_FILE || segments.some(segment => TABLE_RECORD_FOLDERS.includes(segment))) {
+        siteTables.clear();
+    }
+}
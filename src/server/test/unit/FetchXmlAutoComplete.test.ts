@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import Sinon from "sinon";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { getFetchXmlSuggestions } from "../../lib/FetchXmlAutoComplete";
+import * as TableMetadata from "../../lib/TableMetadata";
+
+describe('FetchXmlAutoComplete', () => {
+    let getSiteTables: Sinon.SinonStub;
+
+    // The cursor is where the text has a '^'
+    const getLabels = (text: string) => {
+        const document = TextDocument.create('file:///site/web-templates/list/List.webtemplate.source.html', 'html', 1, text.replace('^', ''));
+        return getFetchXmlSuggestions(document, text.indexOf('^'), [], document.uri).map(item => item.label);
+    };
+
+    beforeEach(() => {
+        getSiteTables = Sinon.stub(TableMetadata, 'getSiteTables').returns(new Map([
+            ['account', ['accountnumber', 'name']],
+            ['contact', ['firstname', 'lastname', 'parentcustomerid']]
+        ]));
+    });
+
+    afterEach(() => {
+        getSiteTables.restore();
+    });
+
+    it('completes tables of entity and link-entity elements', () => {
+        expect(getLabels('{% fetchxml q %}<fetch><entity name="^')).to.deep.equal(['account', 'contact']);
+        expect(getLabels('{% fetchxml q %}<fetch><entity name="contact"><link-entity name=\'acc^')).to.deep.equal(['account']);
+    });
+
+    it('completes columns of the enclosing entity', () => {
+        const fetchXml = '{% fetchxml q %}<fetch><entity name="contact"><attribute name="firstname" />';
+        expect(getLabels(fetchXml + '<attribute name="last^')).to.deep.equal(['lastname']);
+        expect(getLabels(fetchXml + '<filter><condition attribute="^')).to.deep.equal(['firstname', 'lastname', 'parentcustomerid']);
+        expect(getLabels(fetchXml + '<link-entity name="account" from="^')).to.deep.equal(['accountnumber', 'name']);
+        expect(getLabels(fetchXml + '<link-entity name="account" from="accountid" to="^')).to.deep.equal(['firstname', 'lastname', 'parentcustomerid']);
+        expect(getLabels(fetchXml + '<link-entity name="account" from="accountid" to="parentcustomerid"><attribute name="^')).to.deep.equal(['accountnumber', 'name']);
+        expect(getLabels(fetchXml + '<link-entity name="account" /><order attribute="^')).to.deep.equal(['firstname', 'lastname', 'parentcustomerid']);
+    });
+
+    it('completes nothing outside of fetchxml blocks', () => {
+        expect(getLabels('<entity name="^')).to.deep.equal([]);
+        expect(getLabels('{% fetchxml q %}<fetch><entity name="contact" /></fetch>{% endfetchxml %}<entity name="^')).to.deep.equal([]);
+        expect(getLabels('{% fetchxml q %}<fetch><entity name="contact">^')).to.deep.equal([]);
+    });
+});
@@ -3,30 +3,33 @@
  * Licensed under the MIT License. See License.txt in the project root for license information.
  */
 
-/* eslint-disable @typescript-eslint/no-explicit-any */
-
 import { expect } from "chai";
 import Sinon from "sinon";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CompletionItem, CompletionItemKind, Connection } from "vscode-languageserver/node";
 import { PORTAL_FILTERS, PORTAL_OBJECTS } from "../../constants/AutoComplete";
 import { PortalEntityNames } from "../../constants/PortalEnums";
-import * as LineReader from "../../lib/LineReader";
 import { getSuggestions, initLiquidRuleEngine } from "../../lib/LiquidAutoCompleteRuleEngine";
 import * as ManifestReader from "../../lib/PortalManifestReader";
+import * as TableMetadata from "../../lib/TableMetadata";
 import * as ServerTelemetry from "../../telemetry/ServerTelemetry";
 
-let getMatchedManifestRecords: any;
-let getEditedLineContent: any;
-let sendTelemetryEvent: any
+let getMatchedManifestRecords: Sinon.SinonStub;
+let sendTelemetryEvent: Sinon.SinonStub
+
+const createDocument = (text: string) => TextDocument.create('file:///path', 'html', 1, text)
+
+// The rules only hand the connection to the telemetry, which is stubbed
+const createConnection = (): Connection => ({} as Connection)
 
-const suggestionTestUtil = (inputLine: string, mockManifestRecords: ManifestReader.IManifestElement[], mockCompletionItems: any, entityName: PortalEntityNames) => {
+const suggestionTestUtil = (inputLine: string, mockManifestRecords: ManifestReader.IManifestElement[], mockCompletionItems: CompletionItem[], entityName: PortalEntityNames) => {
     const colIndex = inputLine.indexOf('_X_')
 
     getMatchedManifestRecords.returns(mockManifestRecords)
-    getEditedLineContent.returns(inputLine.replace('_X_', ''))
+    const document = createDocument(inputLine.replace('_X_', ''))
 
-    const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+    const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-    Sinon.assert.calledOnce(getEditedLineContent)
     Sinon.assert.calledWith(getMatchedManifestRecords, [], entityName, 'path')
 
     expect(completionItems).deep.equal(mockCompletionItems)
@@ -46,28 +49,31 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
     beforeEach(() => {
         getMatchedManifestRecords = Sinon.stub(ManifestReader, "getMatchedManifestRecords")
-        getEditedLineContent = Sinon.stub(LineReader, "getEditedLineContent")
     });
 
     afterEach(() => {
         getMatchedManifestRecords.restore();
-        getEditedLineContent.restore();
     });
 
     it('include tag auto complete', () => {
 
         const inputLine = '{% include _X_ %}'
-        const mockManifestRecords = [{ DisplayName: "Sample Web Template", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Web Template", insertText: "'Sample Web Template'", kind: 12 }]
+        getMatchedManifestRecords.returns([{ DisplayName: "Sample Web Template", RecordId: "SampleID" }, { DisplayName: "Header", RecordId: "SampleID2" }])
 
-        suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.WEB_TEMPLATE);
+        const completionItems = getSuggestions(0, inputLine.indexOf('_X_'), 'path', [], createDocument(inputLine.replace('_X_', '')), createConnection())
+
+        Sinon.assert.calledWith(getMatchedManifestRecords, [], PortalEntityNames.WEB_TEMPLATE, 'path')
+        expect(completionItems).deep.equal([
+            { label: "Sample Web Template", insertText: "'Sample Web Template'", kind: CompletionItemKind.Value },
+            { label: "Header", insertText: "'Header'", kind: CompletionItemKind.Value }
+        ])
     })
 
     it('include tag partial match auto complete', () => {
 
         const inputLine = `{% include 'abc_X_' %}`
         const mockManifestRecords = [{ DisplayName: "Sample Web Template", RecordId: "SampleID1" }, { DisplayName: "abcd", RecordId: "SampleID2" }]
-        const mockCompletionItems = [{ label: "abcd", insertText: "abcd", kind: 12 }]
+        const mockCompletionItems = [{ label: "abcd", insertText: "abcd", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.WEB_TEMPLATE);
     })
@@ -76,7 +82,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% include 'snippet' snippet_name:_X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Web Template", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Web Template", insertText: "'Sample Web Template'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Web Template", insertText: "'Sample Web Template'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.CONTENT_SNIPPET);
     })
@@ -85,7 +91,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% include 'entity_list' key:_X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Web Template", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Web Template", insertText: "'Sample Web Template'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Web Template", insertText: "'Sample Web Template'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.ENTITY_LIST);
     })
@@ -96,27 +102,26 @@ describe('LiquidAutoCompleteRuleEngine', () => {
         const mockCompletionItems = [
             {
                 insertText: "page",
-                kind: 12,
+                kind: CompletionItemKind.Value,
                 label: "page",
             },
             {
                 insertText: "snippets",
-                kind: 12,
+                kind: CompletionItemKind.Value,
                 label: "snippets",
             },
             {
                 insertText: "weblinks",
-                kind: 12,
+                kind: CompletionItemKind.Value,
                 label: "weblinks"
             }
         ]
 
-        getEditedLineContent.returns(inputLine)
+        const document = createDocument(inputLine)
         const colIndex = inputLine.indexOf('_X_')
 
-        const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+        const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-        Sinon.assert.calledOnce(getEditedLineContent);
         expect(completionItems).deep.equal(mockCompletionItems);
 
     })
@@ -125,21 +130,20 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% editable page 'adx_copy' _X_ %}`
         const mockCompletionItems = [
-            { label: 'class', insertText: 'class:', kind: 12 },
-            { label: 'default', insertText: 'default:', kind: 12 },
-            { label: 'escape', insertText: 'escape:', kind: 12 },
-            { label: 'liquid', insertText: 'liquid:', kind: 12 },
-            { label: 'tag', insertText: 'tag:', kind: 12 },
-            { label: 'title', insertText: 'title:', kind: 12 },
-            { label: 'type', insertText: 'type:', kind: 12 },
+            { label: 'class', insertText: 'class:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The CSS class of the element that wraps the content.' } },
+            { label: 'default', insertText: 'default:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The content shown when the value is empty.' } },
+            { label: 'escape', insertText: 'escape:', kind: CompletionItemKind.Value, detail: 'boolean', documentation: { kind: 'markdown', value: 'Whether the value is HTML-encoded.' } },
+            { label: 'liquid', insertText: 'liquid:', kind: CompletionItemKind.Value, detail: 'boolean', documentation: { kind: 'markdown', value: 'Whether Liquid in the value is rendered.' } },
+            { label: 'tag', insertText: 'tag:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The HTML element that wraps the content, div by default.' } },
+            { label: 'title', insertText: 'title:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The label of the content in the editing interface.' } },
+            { label: 'type', insertText: 'type:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: "The editor used to edit the content, 'html' or 'text'." } },
         ];
 
-        getEditedLineContent.returns(inputLine)
+        const document = createDocument(inputLine)
         const colIndex = inputLine.indexOf('_X_')
 
-        const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+        const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-        Sinon.assert.calledOnce(getEditedLineContent);
         expect(completionItems).deep.equal(mockCompletionItems);
 
     })
@@ -148,7 +152,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% editable snippets _X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Content Snippet", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Content Snippet", insertText: "'Sample Content Snippet'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Content Snippet", insertText: "'Sample Content Snippet'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.CONTENT_SNIPPET);
 
@@ -158,18 +162,17 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% editable page _X_ %}`
         const mockCompletionItems = [
-            { label: 'adx_copy', insertText: 'adx_copy', kind: 12 },
-            { label: 'adx_summary', insertText: 'adx_summary', kind: 12 },
-            { label: 'adx_title', insertText: 'adx_title', kind: 12 },
-            { label: 'adx_partialurl', insertText: 'adx_partialurl', kind: 12 },
+            { label: 'adx_copy', insertText: 'adx_copy', kind: CompletionItemKind.Value },
+            { label: 'adx_summary', insertText: 'adx_summary', kind: CompletionItemKind.Value },
+            { label: 'adx_title', insertText: 'adx_title', kind: CompletionItemKind.Value },
+            { label: 'adx_partialurl', insertText: 'adx_partialurl', kind: CompletionItemKind.Value },
         ];
 
-        getEditedLineContent.returns(inputLine)
+        const document = createDocument(inputLine)
         const colIndex = inputLine.indexOf('_X_')
 
-        const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+        const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-        Sinon.assert.calledOnce(getEditedLineContent);
         expect(completionItems).deep.equal(mockCompletionItems);
 
     })
@@ -178,7 +181,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% entityform name:_X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Form", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Form", insertText: "'Sample Form'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Form", insertText: "'Sample Form'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.ENTITY_FORM);
 
@@ -188,7 +191,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% entityform id:_X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Form", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Form", insertText: "'SampleID'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Form", insertText: "'SampleID'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.ENTITY_FORM);
 
@@ -198,7 +201,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% webform name:_X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Form", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Form", insertText: "'Sample Form'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Form", insertText: "'Sample Form'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.WEBFORM);
 
@@ -208,7 +211,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% webform id:_X_ %}`
         const mockManifestRecords = [{ DisplayName: "Sample Form", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Form", insertText: "'SampleID'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Form", insertText: "'SampleID'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.WEBFORM);
 
@@ -218,27 +221,37 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{% entityform _X_ %}`
         const mockCompletionItems = [
-            { label: 'id', insertText: 'id:', kind: 12 },
-            { label: 'name', insertText: 'name:', kind: 12 },
-            { label: 'key', insertText: 'key:', kind: 12 },
-            { label: 'language_code', insertText: 'language_code:', kind: 12 },
+            { label: 'id', insertText: 'id:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The ID of the basic form.' } },
+            { label: 'name', insertText: 'name:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The name of the basic form.' } },
+            { label: 'key', insertText: 'key:', kind: CompletionItemKind.Value, detail: 'string', documentation: { kind: 'markdown', value: 'The ID or name of the basic form.' } },
+            { label: 'language_code', insertText: 'language_code:', kind: CompletionItemKind.Value, detail: 'integer', documentation: { kind: 'markdown', value: 'The Dataverse language code of the labels, e.g. 1033.' } },
         ];
 
-        getEditedLineContent.returns(inputLine)
+        const document = createDocument(inputLine)
         const colIndex = inputLine.indexOf('_X_')
 
-        const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+        const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-        Sinon.assert.calledOnce(getEditedLineContent);
         expect(completionItems).deep.equal(mockCompletionItems);
 
     })
 
+    it('chart tag attribute auto complete', () => {
+
+        const inputLine = `{% chart id:'EE3C733D-7F7C-4B86-A1D9-4C97C8A97E8F' _X_ %}`
+        const document = createDocument(inputLine.replace('_X_', ''))
+
+        const completionItems = getSuggestions(0, inputLine.indexOf('_X_'), 'path', [], document, createConnection())
+
+        expect(completionItems.map(item => [item.label, item.detail])).deep.equal([['id', 'string'], ['viewid', 'string']]);
+
+    })
+
     it('snippets object auto complete', () => {
 
         const inputLine = `{{ snippets[_X_] }}`
         const mockManifestRecords = [{ DisplayName: "Sample Name", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.CONTENT_SNIPPET);
 
@@ -248,7 +261,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{{ settings[_X_] }}`
         const mockManifestRecords = [{ DisplayName: "Sample Name", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.SITE_SETTING);
 
@@ -258,7 +271,7 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{{ weblinks[_X_] }}`
         const mockManifestRecords = [{ DisplayName: "Sample Name", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.WEBLINK_SET);
 
@@ -268,38 +281,118 @@ describe('LiquidAutoCompleteRuleEngine', () => {
 
         const inputLine = `{{ sitemarker[_X_] }}`
         const mockManifestRecords = [{ DisplayName: "Sample Name", RecordId: "SampleID" }]
-        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: 12 }]
+        const mockCompletionItems = [{ label: "Sample Name", insertText: "'Sample Name'", kind: CompletionItemKind.Value }]
 
         suggestionTestUtil(inputLine, mockManifestRecords, mockCompletionItems, PortalEntityNames.SITE_MARKER);
 
     })
 
+    describe('with the tables of the site', () => {
+        let getSiteTables: Sinon.SinonStub;
+
+        const tableSuggestionTestUtil = (inputLine: string, mockCompletionItems: CompletionItem[]) => {
+            const document = createDocument(inputLine.replace('_X_', ''))
+            const completionItems = getSuggestions(0, inputLine.indexOf('_X_'), 'path', [], document, createConnection())
+            Sinon.assert.calledWith(getSiteTables, [], 'path')
+            expect(completionItems).deep.equal(mockCompletionItems)
+        }
+
+        beforeEach(() => {
+            getSiteTables = Sinon.stub(TableMetadata, "getSiteTables").returns(new Map([['account', ['name']], ['contact', ['firstname', 'lastname']]]))
+        });
+
+        afterEach(() => {
+            getSiteTables.restore();
+        });
+
+        it('entities object table auto complete', () => {
+            tableSuggestionTestUtil(`{{ entities[_X_] }}`, [{ label: 'account', insertText: "'account'", kind: CompletionItemKind.Value }, { label: 'contact', insertText: "'contact'", kind: CompletionItemKind.Value }])
+        })
+
+        it('entities object table partial match auto complete', () => {
+            tableSuggestionTestUtil(`{% assign primary = entities['con_X_'][request.params.id] %}`, [{ label: 'contact', insertText: 'contact', kind: CompletionItemKind.Value }])
+        })
+
+        it('entities object column auto complete', () => {
+            tableSuggestionTestUtil(`{{ entities.contact[request.params.id].last_X_ }}`, [{ label: 'lastname', insertText: 'lastname', kind: CompletionItemKind.Value }])
+        })
+
+        it('entityview tag logical_name auto complete', () => {
+            tableSuggestionTestUtil(`{% entityview logical_name:_X_ %}`, [{ label: 'account', insertText: "'account'", kind: CompletionItemKind.Value }, { label: 'contact', insertText: "'contact'", kind: CompletionItemKind.Value }])
+        })
+
+        it('entityview tag order auto complete', () => {
+            tableSuggestionTestUtil(`{% entityview logical_name:'contact', order:'first_X_' %}`, [{ label: 'firstname', insertText: 'firstname', kind: CompletionItemKind.Value }])
+        })
+    })
+
+    describe('in expressions across lines', () => {
+        const getLabels = (text: string) => {
+            const document = createDocument(text.replace('_X_', ''))
+            const position = document.positionAt(text.indexOf('_X_'))
+            return getSuggestions(position.line, position.character, 'path', [], document, createConnection()).map(item => item.label)
+        }
+
+        it('include tag spanning lines auto complete', () => {
+            getMatchedManifestRecords.returns([{ DisplayName: "Footer", RecordId: "SampleID" }])
+            expect(getLabels(`<div>\n{% include 'snippet'\n    snippet_name:_X_\n%}\n</div>`)).deep.equal(['Footer'])
+            Sinon.assert.calledWith(getMatchedManifestRecords, [], PortalEntityNames.CONTENT_SNIPPET, 'path')
+        })
+
+        it('unclosed output auto complete', () => {
+            expect(getLabels(`{{ page.title }}\n{{ user._X_\n<p>{{ page.title }}</p>`)).to.include('roles')
+        })
+
+        it('if tag condition auto complete', () => {
+            expect(getLabels(`{% if user._X_ %}{% endif %}`)).to.include('roles')
+            expect(getLabels(`{% if page.title and\n   _X_ %}{% endif %}`)).to.include.members(['user', 'page'])
+            expect(getLabels(`{% if page.title == '_X_' %}{% endif %}`)).deep.equal([])
+        })
+
+        it('filter argument auto complete', () => {
+            expect(getLabels(`{{ page.title | default: user._X_ }}`)).to.include('roles').and.not.include('title')
+        })
+
+        it('variables in scope auto complete', () => {
+            const template = `{% assign greeting = 'Hello' %}{% capture footer %}Bye{% endcapture %}
+{% for child in page.children %}{% endfor %}
+{% for item in entityview.records %}
+  {% assign count = forloop.index %}
+  {{ _X_ }}
+{% endfor %}`
+            const variables = getLabels(template).filter(label => !PORTAL_OBJECTS.includes(label))
+            expect(variables).deep.equal(['greeting', 'footer', 'count', 'item'])
+        })
+
+        it('no auto complete after an expression ended', () => {
+            expect(getLabels(`{{ page.title }} _X_`)).deep.equal([])
+        })
+    })
+
     it('portal filters in tag auto complete', () => {
 
         const inputLine = `{% assign redmond = entityview.records | _X_ %}`
 
-        const mockCompletionItems = PORTAL_FILTERS.map(filter => { return { label: filter, insertText: filter, kind: 12 } })
+        const mockCompletionItems = PORTAL_FILTERS.map(filter => { return { label: filter, insertText: filter, kind: CompletionItemKind.Value } })
 
-        getEditedLineContent.returns(inputLine)
+        const document = createDocument(inputLine)
         const colIndex = inputLine.indexOf('_X_')
 
-        const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+        const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-        Sinon.assert.calledOnce(getEditedLineContent);
         expect(completionItems).deep.equal(mockCompletionItems);
     })
 
     it('portal filters in output auto complete', () => {
 
         const inputLine = `{{ group1 | concat: group2 | _X_ }}`
-        const mockCompletionItems = PORTAL_OBJECTS.concat(PORTAL_FILTERS).map(filter => { return { label: filter, insertText: filter, kind: 12 } })
+        const mockCompletionItems = PORTAL_OBJECTS.concat(PORTAL_FILTERS).map(filter => { return { label: filter, insertText: filter, kind: CompletionItemKind.Value } })
 
-        getEditedLineContent.returns(inputLine)
+        const document = createDocument(inputLine)
         const colIndex = inputLine.indexOf('_X_')
 
-        const completionItems = getSuggestions(1, colIndex, 'path', [], {} as any, {} as any)
+        const completionItems = getSuggestions(0, colIndex, 'path', [], document, createConnection())
 
-        Sinon.assert.calledOnce(getEditedLineContent);
         expect(completionItems).deep.equal(mockCompletionItems);
 
     })
@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { expect } from "chai";
+import Sinon from "sinon";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CodeAction, CodeActionKind } from "vscode-languageserver/node";
+import { PortalEntityNames } from "../../constants/PortalEnums";
+import { CREATE_CONTENT_SNIPPET_COMMAND, getClosestName, getLiquidCodeActions } from "../../lib/LiquidCodeActions";
+import { getLiquidDiagnostics } from "../../lib/LiquidDiagnostics";
+import * as ManifestReader from "../../lib/PortalManifestReader";
+
+let getMatchedManifestRecords: any;
+
+const documentUri = 'file:///site/web-templates/test/Test.webtemplate.source.html';
+
+// Returns the code actions at the '^' in the content, applying the edit of each to the content
+const getCodeActions = (content: string) => {
+    const document = TextDocument.create(documentUri, 'html', 1, content.replace('^', ''));
+    const position = document.positionAt(Math.max(content.indexOf('^'), 0));
+    const diagnostics = getLiquidDiagnostics(document, []);
+    return getLiquidCodeActions(document, { start: position, end: position }, diagnostics, []).map((action: CodeAction) => ({
+        title: action.title,
+        kind: action.kind,
+        command: action.command,
+        result: action.edit ? TextDocument.applyEdits(document, action.edit.changes?.[documentUri] ?? []) : undefined
+    }));
+}
+
+describe('LiquidCodeActions', () => {
+
+    beforeEach(() => {
+        getMatchedManifestRecords = Sinon.stub(ManifestReader, "getMatchedManifestRecords").returns([]);
+        getMatchedManifestRecords.withArgs(Sinon.match.any, PortalEntityNames.CONTENT_SNIPPET).returns([{ DisplayName: "Footer Text", RecordId: "2" }]);
+        getMatchedManifestRecords.withArgs(Sinon.match.any, PortalEntityNames.WEB_TEMPLATE).returns([{ DisplayName: "Header", RecordId: "1" }]);
+        getMatchedManifestRecords.withArgs(Sinon.match.any, PortalEntityNames.ENTITY_FORM)
+            .returns([{ DisplayName: "Contact Us", RecordId: "8e2f1b8a-41b2-4b2e-9c53-2a6d0e3c7f11" }]);
+    });
+
+    afterEach(() => {
+        getMatchedManifestRecords.restore();
+    });
+
+    it('closes block tags at the end of the document', () => {
+        const actions = getCodeActions(`{% if user %}\n{{ user.fullname }}\n`);
+        expect(actions).to.have.length(1);
+        expect(actions[0].title).to.equal(`Add '{% endif %}'`);
+        expect(actions[0].result).to.equal(`{% if user %}\n{{ user.fullname }}\n{% endif %}\n`);
+    });
+
+    it('closes block tags before the end tag of the enclosing block', () => {
+        const actions = getCodeActions(`{% for item in items %}{% unless item %}x{% endfor %}`);
+        expect(actions.map(action => action.result)).to.deep.equal([`{% for item in items %}{% unless item %}x{% endunless %}{% endfor %}`]);
+    });
+
+    it('replaces unknown snippet names with the closest name and offers to create the snippet', () => {
+        const actions = getCodeActions(`{{ snippets["Fotter Text"] }}`);
+        expect(actions.map(action => action.title)).to.deep.equal([`Change to 'Footer Text'`, `Create content snippet 'Fotter Text'`]);
+        expect(actions[0].result).to.equal(`{{ snippets["Footer Text"] }}`);
+        expect(actions[1].command).to.deep.equal({ title: `Create content snippet 'Fotter Text'`, command: CREATE_CONTENT_SNIPPET_COMMAND, arguments: [documentUri, 'Fotter Text'] });
+    });
+
+    it('only offers to create web templates without a similar name', () => {
+        const actions = getCodeActions(`{% include 'Navigation' %}`);
+        expect(actions.map(action => action.title)).to.deep.equal([`Create web template 'Navigation'`]);
+    });
+
+    it('converts record IDs of forms to names', () => {
+        const actions = getCodeActions(`{% entityform ^id:'8E2F1B8A-41B2-4B2E-9C53-2A6D0E3C7F11' %}`);
+        expect(actions).to.have.length(1);
+        expect(actions[0].kind).to.equal(CodeActionKind.RefactorRewrite);
+        expect(actions[0].result).to.equal(`{% entityform name:'Contact Us' %}`);
+
+        expect(getCodeActions(`{% entityform ^id:'00000000-0000-0000-0000-000000000000' %}`)).to.deep.equal([]);
+    });
+
+    it('finds the closest name within a few edits', () => {
+        expect(getClosestName('heder', ['Header', 'Footer'])).to.equal('Header');
+        expect(getClosestName('Sidebar', ['Header', 'Footer'])).to.equal(undefined);
+    });
+});
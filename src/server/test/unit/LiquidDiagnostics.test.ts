@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { expect } from "chai";
+import Sinon from "sinon";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { PortalEntityNames } from "../../constants/PortalEnums";
+import { getLiquidDiagnostics } from "../../lib/LiquidDiagnostics";
+import * as ManifestReader from "../../lib/PortalManifestReader";
+
+let getMatchedManifestRecords: any;
+
+const diagnose = (content: string) => {
+    const document = TextDocument.create('file:///site/web-templates/test/Test.webtemplate.source.html', 'html', 1, content);
+    return getLiquidDiagnostics(document, []).map(diagnostic => ({
+        message: diagnostic.message,
+        severity: diagnostic.severity,
+        text: document.getText(diagnostic.range)
+    }));
+}
+
+describe('LiquidDiagnostics', () => {
+
+    beforeEach(() => {
+        getMatchedManifestRecords = Sinon.stub(ManifestReader, "getMatchedManifestRecords");
+        getMatchedManifestRecords.withArgs(Sinon.match.any, PortalEntityNames.WEB_TEMPLATE).returns([{ DisplayName: "Header", RecordId: "1" }]);
+        getMatchedManifestRecords.withArgs(Sinon.match.any, PortalEntityNames.CONTENT_SNIPPET).returns([{ DisplayName: "Footer Text", RecordId: "2" }]);
+    });
+
+    afterEach(() => {
+        getMatchedManifestRecords.restore();
+    });
+
+    it('reports nothing for valid liquid', () => {
+        const content = `{% if user %}\n{{ user.fullname | upcase | h }}\n{% endif %}\n{% include 'Header' %}\n{{ snippets['Footer Text'] }}`;
+        expect(diagnose(content)).to.deep.equal([]);
+    });
+
+    it('reports block tags that are never closed', () => {
+        const diagnostics = diagnose(`{% for item in items %}\n{% if item %}{{ item }}\n{% endfor %}`);
+        expect(diagnostics).to.have.length(1);
+        expect(diagnostics[0].text).to.equal('{% if item %}');
+        expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Error);
+    });
+
+    it('reports end tags without an opening tag', () => {
+        const diagnostics = diagnose(`<div>{% endunless %}</div>`);
+        expect(diagnostics).to.have.length(1);
+        expect(diagnostics[0].text).to.equal('{% endunless %}');
+    });
+
+    it('reports unclosed delimiters and keeps checking the content before them', () => {
+        const diagnostics = diagnose(`{{ page.title | shout }}\n{{ page.title `);
+        expect(diagnostics.map(d => d.text)).to.deep.equal(['{{ page.title ', 'shout']);
+    });
+
+    it('reports unknown filters', () => {
+        const diagnostics = diagnose(`{% assign title = page.title | shout %}{{ title | date_add_days: 1 | whisper }}`);
+        expect(diagnostics.map(d => d.text)).to.deep.equal(['shout', 'whisper']);
+        expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Warning);
+    });
+
+    it('reports included web templates and snippets missing from the manifest', () => {
+        const diagnostics = diagnose(`{% include 'Missing Template' %}{% include 'snippet' snippet_name:'Footer Text' %}{{ snippets["Missing Snippet"] }}`);
+        expect(diagnostics.map(d => d.text)).to.deep.equal([`'Missing Template'`, `"Missing Snippet"`]);
+    });
+
+    it('matches the names of web templates and snippets the way references do, regardless of case', () => {
+        expect(diagnose(`{% include ' header ' %}{{ snippets["FOOTER TEXT"] }}`)).to.deep.equal([]);
+    });
+
+    it('ignores the contents of comment and raw blocks', () => {
+        const diagnostics = diagnose(`{% comment %}{% if %}{{ x | shout }}{% endcomment %}{% raw %}{{ y | whisper }}{% endraw %}`);
+        expect(diagnostics).to.deep.equal([]);
+    });
+});
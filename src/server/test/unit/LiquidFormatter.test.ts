@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Range } from "vscode-languageserver/node";
+import { DEFAULT_LIQUID_FORMAT_SETTINGS, formatLiquidDocument, ILiquidFormatSettings } from "../../lib/LiquidFormatter";
+
+describe('LiquidFormatter', () => {
+    const format = (lines: string[], settings: Partial<ILiquidFormatSettings> = {}, range?: Range) => {
+        const document = TextDocument.create('file:///site/web-templates/header/Header.webtemplate.source.html', 'html', 1, lines.join('\n'));
+        const edits = formatLiquidDocument(document, { tabSize: 2, insertSpaces: true }, { ...DEFAULT_LIQUID_FORMAT_SETTINGS, ...settings }, range);
+        return TextDocument.applyEdits(document, edits).split('\n');
+    };
+
+    it('indents Liquid blocks together with HTML elements', () => {
+        expect(format([
+            '<ul>',
+            '{% for child in page.children %}',
+            '<li>',
+            '{% if child.title %}',
+            '<a href="{{ child.url }}">{{ child.title }}</a>',
+            '{% else %}',
+            '<br/>',
+            '{% endif %}',
+            '</li>',
+            '{% endfor %}',
+            '</ul>'
+        ])).to.deep.equal([
+            '<ul>',
+            '  {% for child in page.children %}',
+            '    <li>',
+            '      {% if child.title %}',
+            '        <a href="{{ child.url }}">{{ child.title }}</a>',
+            '      {% else %}',
+            '        <br/>',
+            '      {% endif %}',
+            '    </li>',
+            '  {% endfor %}',
+            '</ul>'
+        ]);
+    });
+
+    it('indents only Liquid blocks when HTML indentation is turned off', () => {
+        expect(format([
+            '<div>',
+            '{% case page.title %}',
+            '{% when "Home" %}',
+            '<p>Welcome</p>',
+            '{% endcase %}',
+            '</div>'
+        ], { indentHtml: false })).to.deep.equal([
+            '<div>',
+            '{% case page.title %}',
+            '{% when "Home" %}',
+            '  <p>Welcome</p>',
+            '{% endcase %}',
+            '</div>'
+        ]);
+    });
+
+    it('indents only elements whose end tag is written out', () => {
+        expect(format([
+            '<ul>',
+            '<li>one',
+            '<li>two',
+            '</ul>',
+            '<p>para',
+            '{% if page.title %}',
+            '<span>{{ page.title }}</span>',
+            '</div>',
+            '{% endif %}'
+        ])).to.deep.equal([
+            '<ul>',
+            '  <li>one',
+            '  <li>two',
+            '</ul>',
+            '<p>para',
+            '{% if page.title %}',
+            '  <span>{{ page.title }}</span>',
+            '  </div>',
+            '{% endif %}'
+        ]);
+    });
+
+    it('indents the continuation lines of tags that span lines', () => {
+        expect(format([
+            '{% fetchxml query %}',
+            '<fetch>',
+            '<entity name="contact" />',
+            '</fetch>',
+            '{% endfetchxml %}',
+            '{% include "snippet"',
+            'snippet_name: "Footer" %}'
+        ])).to.deep.equal([
+            '{% fetchxml query %}',
+            '  <fetch>',
+            '    <entity name="contact" />',
+            '  </fetch>',
+            '{% endfetchxml %}',
+            '{% include "snippet"',
+            '  snippet_name: "Footer" %}'
+        ]);
+    });
+
+    it('keeps the content of scripts and raw blocks', () => {
+        expect(format([
+            '<div>',
+            '<script>',
+            '    if (a < b) { run(); }',
+            '</script>',
+            '{% raw %}',
+            '      {{ not liquid }}',
+            '{% endraw %}',
+            '</div>'
+        ])).to.deep.equal([
+            '<div>',
+            '  <script>',
+            '    if (a < b) { run(); }',
+            '  </script>',
+            '  {% raw %}',
+            '      {{ not liquid }}',
+            '  {% endraw %}',
+            '</div>'
+        ]);
+    });
+
+    it('normalizes whitespace-control markers', () => {
+        expect(format(['{%-if page-%}{{page.title   }}{%   endif -%}'])).to.deep.equal(['{%- if page -%}{{ page.title }}{% endif -%}']);
+        expect(format(['{%-if page-%}{{-page.title}}{% endif -%}'], { whitespaceControl: 'remove' })).to.deep.equal(['{% if page %}{{ page.title }}{% endif %}']);
+    });
+
+    it('formats only the lines in the range', () => {
+        expect(format(['{% if page %}', '<p>', 'x', '</p>', '{% endif %}'], {}, { start: { line: 2, character: 0 }, end: { line: 3, character: 0 } }))
+            .to.deep.equal(['{% if page %}', '<p>', '    x', '  </p>', '{% endif %}']);
+    });
+
+    it('does not format when turned off', () => {
+        expect(format(['{% if page %}', 'x', '{% endif %}'], { enable: false })).to.deep.equal(['{% if page %}', 'x', '{% endif %}']);
+    });
+});
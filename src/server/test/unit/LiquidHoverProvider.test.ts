@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { MarkupContent } from "vscode-languageserver/node";
+import { createLiquidDocumentation } from "../../constants/LiquidDocumentation";
+import { getLiquidHover, initLiquidDocumentation } from "../../lib/LiquidHoverProvider";
+
+// '^' in the content marks the hovered position
+const hover = (content: string) => {
+    const offset = content.indexOf('^');
+    const document = TextDocument.create('file:///site/web-templates/test/Test.webtemplate.source.html', 'html', 1, content.slice(0, offset) + content.slice(offset + 1));
+    const result = getLiquidHover(document, document.positionAt(offset));
+    return result && {
+        value: (result.contents as MarkupContent).value,
+        text: result.range && document.getText(result.range)
+    };
+}
+
+describe('LiquidHoverProvider', () => {
+
+    afterEach(() => {
+        initLiquidDocumentation(undefined);
+    });
+
+    it('documents objects with their type and an example', () => {
+        const result = hover(`<h1>{{ us^er.fullname }}</h1>`);
+        expect(result?.text).to.equal('user');
+        expect(result?.value).to.contain('**user** *object*');
+        expect(result?.value).to.contain('```liquid');
+    });
+
+    it('documents attributes of objects', () => {
+        expect(hover(`{% for role in user.ro^les %}{% endfor %}`)?.value).to.contain('**user.roles** *array*');
+        expect(hover(`{{ forloop.ind^ex0 }}`)?.text).to.equal('index0');
+    });
+
+    it('documents portal tags and their end tags', () => {
+        expect(hover(`{% entity^form name:'Contact Us' %}`)?.value).to.contain('Renders a basic form');
+        expect(hover(`{% entitylist name:'Cases' %}{% endentity^list %}`)?.value).to.contain('`{% entitylist %}`');
+    });
+
+    it('documents the named parameters of portal tags', () => {
+        const result = hover(`{% entityform language_co^de:1033 %}`);
+        expect(result?.text).to.equal('language_code');
+        expect(result?.value).to.contain('**language_code** *integer*');
+        expect(hover(`{% entityform name:'la^nguage_code' %}`)).to.be.undefined;
+    });
+
+    it('documents filters', () => {
+        const result = hover(`{{ page.title | truncate_wo^rds: 5 }}`);
+        expect(result?.text).to.equal('truncate_words');
+        expect(result?.value).to.contain('`| truncate_words`');
+    });
+
+    it('has nothing to say about html, strings and unknown words', () => {
+        expect(hover(`<div class="pa^ge">{{ page.title }}</div>`)).to.be.undefined;
+        expect(hover(`{% include 'pa^ge' %}`)).to.be.undefined;
+        expect(hover(`{{ my_vari^able }}`)).to.be.undefined;
+    });
+
+    it('uses the translation of the display language from the l10n bundle and falls back to English', () => {
+        const l10nFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'liquid-documentation-'));
+        try {
+            const bundlePath = path.join(l10nFolder, 'bundle.l10n.de.json');
+            fs.writeFileSync(bundlePath, JSON.stringify({ 'The signed-in contact. Returns null for anonymous users.': 'Der angemeldete Kontakt.' }));
+            initLiquidDocumentation(bundlePath);
+            expect(hover(`{{ us^er }}`)?.value).to.contain('Der angemeldete Kontakt.');
+            expect(hover(`{{ us^er }}`)?.value).to.contain('*object*');
+            expect(hover(`{{ pa^ge }}`)?.value).to.contain('The web page that is currently being rendered.');
+        } finally {
+            fs.rmSync(l10nFolder, { recursive: true, force: true });
+        }
+    });
+
+    it('documents every description in the l10n bundle', () => {
+        const bundle = JSON.parse(fs.readFileSync(path.join(__dirname, '../../../../l10n/bundle.l10n.json'), 'utf8'));
+        const documentation = createLiquidDocumentation();
+        const descriptions = [documentation.objects, documentation.attributes, documentation.tags, documentation.parameters, documentation.filters]
+            .flatMap(section => Object.values(section).map(entry => entry.description));
+        expect(descriptions.filter(description => !(description in bundle))).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,165 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Location, TextDocumentEdit, WorkspaceFolder } from "vscode-languageserver/node";
+import { PortalEntityNames } from "../../constants/PortalEnums";
+import { getLiquidDefinition, getLiquidReferenceLocations, getLiquidReferences, getLiquidRenameEdit, prepareLiquidRename } from "../../lib/LiquidReferences";
+import { readLiquidTokens } from "../../lib/LiquidTokens";
+
+const manifest = `adx_webtemplate:
+- RecordId: 5d0b0d6a-0000-0000-0000-000000000001
+  DisplayName: Header
+adx_contentsnippet:
+- RecordId: 5d0b0d6a-0000-0000-0000-000000000002
+  DisplayName: Footer Text
+`;
+
+const siteFiles: Record<string, string> = {
+    '.portalconfig/contoso-manifest.yml': manifest,
+    'web-templates/header/Header.webtemplate.yml': 'adx_name: Header\nadx_webtemplateid: 5d0b0d6a-0000-0000-0000-000000000001\n',
+    'web-templates/header/Header.webtemplate.source.html': `<header>{{ snippets['Footer Text'] }}</header>`,
+    'web-templates/layout/Layout.webtemplate.yml': 'adx_name: Layout\nadx_webtemplateid: 5d0b0d6a-0000-0000-0000-000000000003\n',
+    'web-templates/layout/Layout.webtemplate.source.html': `{% include 'Header' %}\n<main></main>`,
+    'content-snippets/footer-text/Footer-Text.en-US.contentsnippet.yml': 'adx_name: Footer Text\nadx_contentsnippetid: 5d0b0d6a-0000-0000-0000-000000000002\n',
+    'content-snippets/footer-text/Footer-Text.en-US.contentsnippet.value.html': `<p>Contoso</p>`,
+    'web-pages/home/Home.en-US.webpage.copy.html': `{% include 'snippet' snippet_name:'Footer Text' %}\n{% editable snippets "footer text" %}`
+};
+
+describe('LiquidReferences', () => {
+    let siteFolder: string;
+    let workspaceRootFolders: WorkspaceFolder[];
+
+    const openSiteDocument = (file: string) =>
+        TextDocument.create(pathToFileURL(path.join(siteFolder, file)).href, 'html', 1, siteFiles[file]);
+    const toRelativeLocation = (location: Location) => ({
+        file: path.relative(siteFolder, new URL(location.uri).pathname),
+        line: location.range.start.line,
+        character: location.range.start.character
+    });
+
+    before(() => {
+        siteFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'liquid-references-')));
+        Object.entries(siteFiles).forEach(([file, content]) => {
+            fs.mkdirSync(path.dirname(path.join(siteFolder, file)), { recursive: true });
+            fs.writeFileSync(path.join(siteFolder, file), content);
+        });
+        workspaceRootFolders = [{ uri: pathToFileURL(siteFolder).href, name: 'site' }];
+    });
+
+    after(() => {
+        fs.rmSync(siteFolder, { recursive: true, force: true });
+    });
+
+    it('finds web templates and content snippets referenced by name', () => {
+        const text = `{% include 'Header' %}{% extends 'Layout' %}{% include 'entity_list' %}{{ snippets["Footer Text"] }}{% include 'snippet' snippet_name:'Copyright' %}{% editable snippets 'Banner' %}`;
+        const references = getLiquidReferences(readLiquidTokens(text));
+        expect(references.map(reference => [reference.entityName, reference.name, text.slice(reference.begin, reference.end)])).to.deep.equal([
+            [PortalEntityNames.WEB_TEMPLATE, 'Header', `'Header'`],
+            [PortalEntityNames.WEB_TEMPLATE, 'Layout', `'Layout'`],
+            [PortalEntityNames.CONTENT_SNIPPET, 'Footer Text', `"Footer Text"`],
+            [PortalEntityNames.CONTENT_SNIPPET, 'Copyright', `'Copyright'`],
+            [PortalEntityNames.CONTENT_SNIPPET, 'Banner', `'Banner'`]
+        ]);
+    });
+
+    it('resolves an included web template to its source file', () => {
+        const document = openSiteDocument('web-templates/layout/Layout.webtemplate.source.html');
+        const locations = getLiquidDefinition(document, { line: 0, character: 14 }, workspaceRootFolders);
+        expect(locations.map(toRelativeLocation)).to.deep.equal([{ file: 'web-templates/header/Header.webtemplate.source.html', line: 0, character: 0 }]);
+    });
+
+    it('resolves a content snippet to its value file', () => {
+        const document = openSiteDocument('web-templates/header/Header.webtemplate.source.html');
+        const locations = getLiquidDefinition(document, { line: 0, character: 25 }, workspaceRootFolders);
+        expect(locations.map(toRelativeLocation)).to.deep.equal([{ file: 'content-snippets/footer-text/Footer-Text.en-US.contentsnippet.value.html', line: 0, character: 0 }]);
+    });
+
+    it('has no definition outside of references', () => {
+        const document = openSiteDocument('web-templates/layout/Layout.webtemplate.source.html');
+        expect(getLiquidDefinition(document, { line: 1, character: 2 }, workspaceRootFolders)).to.deep.equal([]);
+    });
+
+    it('lists every file that uses a content snippet', () => {
+        const document = openSiteDocument('web-templates/header/Header.webtemplate.source.html');
+        const locations = getLiquidReferenceLocations(document, { line: 0, character: 25 }, false, workspaceRootFolders, () => undefined);
+        expect(locations.map(toRelativeLocation)).to.have.deep.members([
+            { file: 'web-templates/header/Header.webtemplate.source.html', line: 0, character: 20 },
+            { file: 'web-pages/home/Home.en-US.webpage.copy.html', line: 0, character: 34 },
+            { file: 'web-pages/home/Home.en-US.webpage.copy.html', line: 1, character: 21 }
+        ]);
+    });
+
+    it('lists the users of the web template being edited, including unsaved changes', () => {
+        const document = openSiteDocument('web-templates/header/Header.webtemplate.source.html');
+        const unsavedLayout = TextDocument.create(pathToFileURL(path.join(siteFolder, 'web-templates/layout/Layout.webtemplate.source.html')).href, 'html', 2, `<main></main>\n{% include "header" %}`);
+        const locations = getLiquidReferenceLocations(document, { line: 0, character: 1 }, true, workspaceRootFolders,
+            uri => uri === unsavedLayout.uri ? unsavedLayout : undefined);
+        expect(locations.map(toRelativeLocation)).to.deep.equal([
+            { file: 'web-templates/layout/Layout.webtemplate.source.html', line: 1, character: 11 },
+            { file: 'web-templates/header/Header.webtemplate.source.html', line: 0, character: 0 }
+        ]);
+    });
+
+    describe('rename', () => {
+        // The text of every file after the edit, by path relative to the site
+        const applyRenameEdit = (document: TextDocument, position: { line: number, character: number }, newName: string, openDocuments: TextDocument[] = []) => {
+            const workspaceEdit = getLiquidRenameEdit(document, position, newName, workspaceRootFolders,
+                uri => openDocuments.find(openDocument => openDocument.uri === uri));
+            const files: Record<string, string> = {};
+            (workspaceEdit?.documentChanges as TextDocumentEdit[] ?? []).forEach(documentChange => {
+                const file = path.relative(siteFolder, new URL(documentChange.textDocument.uri).pathname);
+                const original = openDocuments.find(openDocument => openDocument.uri === documentChange.textDocument.uri)
+                    ?? TextDocument.create(documentChange.textDocument.uri, 'html', 0, fs.readFileSync(path.join(siteFolder, file), 'utf8'));
+                files[file] = TextDocument.applyEdits(original, documentChange.edits);
+            });
+            return { workspaceEdit, files };
+        };
+
+        it('offers to rename the name of a web template or content snippet of the site', () => {
+            const document = openSiteDocument('web-templates/layout/Layout.webtemplate.source.html');
+            expect(prepareLiquidRename(document, { line: 0, character: 14 }, workspaceRootFolders)).to.deep.equal({
+                range: { start: { line: 0, character: 12 }, end: { line: 0, character: 18 } },
+                placeholder: 'Header'
+            });
+            expect(prepareLiquidRename(document, { line: 1, character: 2 }, workspaceRootFolders)).to.be.undefined;
+            const unknownTemplate = TextDocument.create(document.uri, 'html', 2, `{% include 'Missing' %}`);
+            expect(prepareLiquidRename(unknownTemplate, { line: 0, character: 14 }, workspaceRootFolders)).to.be.undefined;
+        });
+
+        it('renames a web template, its manifest entry and every reference to it in one previewed edit', () => {
+            const unsavedLayout = TextDocument.create(pathToFileURL(path.join(siteFolder, 'web-templates/layout/Layout.webtemplate.source.html')).href, 'html', 3,
+                `{% extends "Header" %}\n{% include 'header' %}`);
+            const { workspaceEdit, files } = applyRenameEdit(unsavedLayout, { line: 0, character: 14 }, "Site Header", [unsavedLayout]);
+            expect(files).to.deep.equal({
+                'web-templates/layout/Layout.webtemplate.source.html': `{% extends "Site Header" %}\n{% include 'Site Header' %}`,
+                'web-templates/header/Header.webtemplate.yml': 'adx_name: Site Header\nadx_webtemplateid: 5d0b0d6a-0000-0000-0000-000000000001\n',
+                '.portalconfig/contoso-manifest.yml': manifest.replace('DisplayName: Header', 'DisplayName: Site Header')
+            });
+            const layoutChange = (workspaceEdit?.documentChanges as TextDocumentEdit[]).find(documentChange => documentChange.textDocument.uri === unsavedLayout.uri);
+            expect(layoutChange?.textDocument.version).to.equal(3);
+            expect(Object.values(workspaceEdit?.changeAnnotations ?? {})).to.deep.equal([{ label: "Rename web template 'Header' to 'Site Header'", needsConfirmation: true }]);
+        });
+
+        it('renames a content snippet in outputs, includes and editable tags', () => {
+            const document = openSiteDocument('web-templates/header/Header.webtemplate.source.html');
+            const { files } = applyRenameEdit(document, { line: 0, character: 25 }, "Footer's Text");
+            expect(files['web-templates/header/Header.webtemplate.source.html']).to.equal(`<header>{{ snippets["Footer's Text"] }}</header>`);
+            expect(files['web-pages/home/Home.en-US.webpage.copy.html']).to.equal(`{% include 'snippet' snippet_name:"Footer's Text" %}\n{% editable snippets "Footer's Text" %}`);
+            expect(files['content-snippets/footer-text/Footer-Text.en-US.contentsnippet.yml']).to.equal(`adx_name: Footer's Text\nadx_contentsnippetid: 5d0b0d6a-0000-0000-0000-000000000002\n`);
+        });
+
+        it('refuses names that another record of the site already has', () => {
+            const document = openSiteDocument('web-templates/layout/Layout.webtemplate.source.html');
+            expect(() => getLiquidRenameEdit(document, { line: 0, character: 14 }, 'layout', workspaceRootFolders, () => undefined))
+                .to.throw("A web template named 'layout' already exists in this site.");
+        });
+    });
+});
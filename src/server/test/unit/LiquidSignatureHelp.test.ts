@@ -0,0 +1,48 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { getLiquidSignatureHelp } from "../../lib/LiquidSignatureHelp";
+
+// '^' in the content marks the cursor
+const signatureHelp = (content: string) => {
+    const offset = content.indexOf('^');
+    const document = TextDocument.create('file:///site/web-templates/test/Test.webtemplate.source.html', 'html', 1, content.slice(0, offset) + content.slice(offset + 1));
+    return getLiquidSignatureHelp(document, document.positionAt(offset));
+}
+
+// The label of the highlighted parameter, if any
+const getActiveParameterLabel = (content: string) => {
+    const result = signatureHelp(content);
+    const signature = result?.signatures[0];
+    const parameter = signature?.parameters?.[result?.activeParameter ?? 0];
+    const [begin, end] = (parameter?.label ?? [0, 0]) as [number, number];
+    return signature?.label.slice(begin, end);
+}
+
+describe('LiquidSignatureHelp', () => {
+
+    it('lists the parameters of a tag with their types', () => {
+        const result = signatureHelp(`{% entityform ^ %}`);
+        expect(result?.signatures[0].label).to.equal('entityform id: string, name: string, key: string, language_code: integer');
+        expect(result?.signatures[0].documentation).to.deep.equal({ kind: 'markdown', value: 'Renders a basic form by name or ID.' });
+        expect(result?.signatures[0].parameters?.[3].documentation).to.deep.equal({ kind: 'markdown', value: 'The Dataverse language code of the labels, e.g. 1033.' });
+    });
+
+    it('highlights the parameter whose name or value is being typed', () => {
+        expect(getActiveParameterLabel(`{% entityform name:'Contact ^' %}`)).to.equal('name: string');
+        expect(getActiveParameterLabel(`{% entityview logical_name:'contact', page_s^`)).to.equal('page_size: integer');
+        expect(getActiveParameterLabel(`{% editable snippets 'Footer' type: 'html', esc^ %}`)).to.equal('escape: boolean');
+        expect(signatureHelp(`{% entityform name:'Contact Us' ^ %}`)?.activeParameter).to.equal(4);
+    });
+
+    it('has no signature outside of the parameters of portal tags', () => {
+        expect(signatureHelp(`{% entityform^ %}`)).to.be.undefined;
+        expect(signatureHelp(`{% if user ^ %}`)).to.be.undefined;
+        expect(signatureHelp(`{% entityform name:'Contact Us' %} ^`)).to.be.undefined;
+        expect(signatureHelp(`{{ page.title ^ }}`)).to.be.undefined;
+    });
+});
@@ -0,0 +1,105 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver/node";
+import { onRecordFileChanged } from "../../lib/LiquidReferences";
+import { getLiquidDocumentSymbols, getLiquidWorkspaceSymbols } from "../../lib/LiquidSymbols";
+
+// Symbol names with their children, e.g. ['if user', ['assign name = user.fullname']]
+const toOutline = (symbols: DocumentSymbol[]): unknown[] =>
+    symbols.map(symbol => symbol.children?.length ? [symbol.name, toOutline(symbol.children)] : symbol.name);
+
+describe('LiquidSymbols', () => {
+    const getOutline = (content: string) =>
+        toOutline(getLiquidDocumentSymbols(TextDocument.create('file:///site/web-templates/layout/Layout.webtemplate.source.html', 'html', 1, content)));
+
+    it('lists Liquid blocks as a hierarchical outline', () => {
+        const content = `{% extends 'Layout 1 Column' %}
+{% block main %}
+  {% if user %}
+    {% assign   name = user.fullname %}
+    {% for role in user.roles %}<li>{{ role }}</li>{% endfor %}
+  {% else %}
+    {% include 'Sign In' %}
+  {% endif %}
+  {% capture footer %}{% endcapture %}
+{% endblock %}
+{% fetchxml query %}<fetch />{% endfetchxml %}`;
+        expect(getOutline(content)).to.deep.equal([
+            "extends 'Layout 1 Column'",
+            ['block main', [
+                ['if user', ['assign name = user.fullname', 'for role in user.roles', "include 'Sign In'"]],
+                'capture footer'
+            ]],
+            'fetchxml query'
+        ]);
+    });
+
+    it('covers the content of blocks with their range', () => {
+        const document = TextDocument.create('file:///site/a.html', 'html', 1, `{% if user %}\n  Hi\n{% endif %}\n{% for item in items %}`);
+        const [ifSymbol, forSymbol] = getLiquidDocumentSymbols(document);
+        expect(ifSymbol.kind).to.equal(SymbolKind.Boolean);
+        expect(ifSymbol.range).to.deep.equal({ start: { line: 0, character: 0 }, end: { line: 2, character: 11 } });
+        expect(ifSymbol.selectionRange).to.deep.equal({ start: { line: 0, character: 0 }, end: { line: 0, character: 13 } });
+        // Unclosed blocks run to the end of the document
+        expect(forSymbol.range.end).to.deep.equal({ line: 3, character: 23 });
+    });
+
+    it('skips tags in comments', () => {
+        expect(getOutline(`{% comment %}{% assign x = 1 %}{% endcomment %}{% assign y = 2 %}`)).to.deep.equal(['assign y = 2']);
+    });
+
+    describe('workspace symbols', () => {
+        let workspaceFolder: string;
+
+        const writeFile = (relativePath: string, content: string) => {
+            const file = path.join(workspaceFolder, relativePath);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, content);
+            return file;
+        };
+
+        beforeEach(() => {
+            workspaceFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'liquid-symbols-')));
+        });
+
+        afterEach(() => {
+            fs.rmSync(workspaceFolder, { recursive: true, force: true });
+        });
+
+        it('finds web templates and content snippets of all sites by name', () => {
+            writeFile('site-a/web-templates/header/Header.webtemplate.yml', 'adx_name: Header\n');
+            const headerSource = writeFile('site-a/web-templates/header/Header.webtemplate.source.html', '<header />');
+            const footerSnippet = writeFile('site-b/content-snippets/footer/Footer-Header.en-US.contentsnippet.yml', 'adx_name: Footer Header\n');
+            writeFile('site-b/web-templates/layout/Layout.webtemplate.yml', 'adx_name: Layout\n');
+
+            const symbols = getLiquidWorkspaceSymbols('header', [{ uri: pathToFileURL(workspaceFolder).href, name: 'sites' }]);
+            expect(symbols.map(symbol => [symbol.name, symbol.containerName, symbol.location.uri])).to.have.deep.members([
+                ['Header', 'Web template', pathToFileURL(headerSource).href],
+                ['Footer Header', 'Content snippet', pathToFileURL(footerSnippet).href]
+            ]);
+        });
+
+        it('lists the records of a site again once its files change', () => {
+            writeFile('site-a/web-templates/header/Header.webtemplate.yml', 'adx_name: Header\n');
+            const workspaceRootFolders = [{ uri: pathToFileURL(workspaceFolder).href, name: 'sites' }];
+            expect(getLiquidWorkspaceSymbols('', workspaceRootFolders).map(symbol => symbol.name)).to.deep.equal(['Header']);
+
+            const footerTemplate = writeFile('site-a/web-templates/footer/Footer.webtemplate.yml', 'adx_name: Footer\n');
+            const bannerSnippet = writeFile('site-b/content-snippets/banner/Banner.en-US.contentsnippet.yml', 'adx_name: Banner\n');
+            expect(getLiquidWorkspaceSymbols('', workspaceRootFolders).map(symbol => symbol.name)).to.deep.equal(['Header']);
+
+            onRecordFileChanged(pathToFileURL(footerTemplate).href);
+            onRecordFileChanged(pathToFileURL(bannerSnippet).href);
+            expect(getLiquidWorkspaceSymbols('', workspaceRootFolders).map(symbol => symbol.name)).to.have.members(['Header', 'Footer', 'Banner']);
+        });
+    });
+});
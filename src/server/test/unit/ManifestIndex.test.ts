@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { WorkspaceFolder } from "vscode-languageserver/node";
+import { findSiteFolders, getSiteManifest, IManifestIndexBuildInfo, onWatchedFileChanged, setActiveEnvironment, setManifestIndexListener } from "../../../common/ManifestIndex";
+import { setSiteManifest } from "../../lib/ManifestIndex";
+import { getManifestRecordDetail, getMatchedManifestRecords } from "../../lib/PortalManifestReader";
+
+describe('ManifestIndex', () => {
+    let siteFolder: string;
+    let portalConfigFolder: string;
+    let manifestFile: string;
+    let workspaceRootFolders: WorkspaceFolder[];
+    let webPageUri: string;
+    let builds: IManifestIndexBuildInfo[];
+
+    const writeManifest = (...templateNames: string[]) => fs.writeFileSync(manifestFile,
+        'adx_webtemplate:\n' + templateNames.map((name, i) => `- RecordId: 00000000-0000-0000-0000-00000000000${i}\n  DisplayName: ${name}\n`).join('') +
+        'adx_contentsnippet:\n- RecordId: 00000000-0000-0000-0000-0000000000ff\n  DisplayName: Footer\n');
+
+    // Sends the manifest of the site to the server the way the extension does, and reads the records of an entity back
+    const readRecords = (entityName: string) => {
+        setSiteManifest(portalConfigFolder, getSiteManifest(portalConfigFolder));
+        return getMatchedManifestRecords(workspaceRootFolders, entityName, webPageUri);
+    };
+
+    beforeEach(() => {
+        siteFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-index-')));
+        portalConfigFolder = path.join(siteFolder, '.portalconfig');
+        manifestFile = path.join(portalConfigFolder, 'contoso-manifest.yml');
+        fs.mkdirSync(path.dirname(manifestFile));
+        fs.mkdirSync(path.join(siteFolder, 'web-pages'));
+        writeManifest('Header', 'Footer');
+        workspaceRootFolders = [{ uri: pathToFileURL(siteFolder).href, name: 'site' }];
+        webPageUri = pathToFileURL(path.join(siteFolder, 'web-pages', 'Home.webpage.copy.html')).href;
+        builds = [];
+        setManifestIndexListener(buildInfo => builds.push(buildInfo));
+    });
+
+    afterEach(() => {
+        setManifestIndexListener(() => undefined);
+        setActiveEnvironment(null);
+        setSiteManifest(portalConfigFolder, null);
+        fs.rmSync(siteFolder, { recursive: true, force: true });
+    });
+
+    it('reads the manifest of a site once for all entities', () => {
+        expect(readRecords('adx_webtemplate').map(record => record.DisplayName)).to.deep.equal(['Header', 'Footer']);
+        expect(readRecords('adx_contentsnippet')).to.have.length(1);
+        expect(readRecords('adx_sitemarker')).to.deep.equal([]);
+        expect(builds).to.have.length(1);
+        expect(builds[0].countOfRecords).to.equal(3);
+        expect(builds[0].countOfEntities).to.equal(2);
+    });
+
+    it('keeps the index until the manifest changes on disk', () => {
+        readRecords('adx_webtemplate');
+        writeManifest('Header', 'Footer', 'Layout');
+        expect(readRecords('adx_webtemplate')).to.have.length(2);
+
+        expect(onWatchedFileChanged(pathToFileURL(path.join(siteFolder, 'web-pages', 'Home.webpage.copy.html')).href)).to.be.undefined;
+        expect(readRecords('adx_webtemplate')).to.have.length(2);
+
+        expect(onWatchedFileChanged(pathToFileURL(manifestFile).href)).to.equal(portalConfigFolder);
+        expect(readRecords('adx_webtemplate')).to.have.length(3);
+        expect(builds).to.have.length(2);
+    });
+
+    it('returns no records for files outside of a site', () => {
+        const otherFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-index-other-')));
+        try {
+            const otherWorkspace = [{ uri: pathToFileURL(otherFolder).href, name: 'other' }];
+            expect(getMatchedManifestRecords(otherWorkspace, 'adx_webtemplate', pathToFileURL(path.join(otherFolder, 'index.html')).href)).to.deep.equal([]);
+            expect(builds).to.have.length(0);
+        } finally {
+            fs.rmSync(otherFolder, { recursive: true, force: true });
+        }
+    });
+
+    it('merges the manifests of all environments unless one was downloaded from the active environment', () => {
+        fs.writeFileSync(path.join(siteFolder, '.portalconfig', 'contoso-test.crm.dynamics.com-manifest.yml'),
+            'adx_webtemplate:\n- RecordId: 00000000-0000-0000-0000-000000000000\n  DisplayName: Header\n- RecordId: 00000000-0000-0000-0000-0000000000aa\n  DisplayName: Test Banner\n');
+        const templateNames = () => readRecords('adx_webtemplate').map(record => record.DisplayName);
+        expect(templateNames()).to.have.members(['Header', 'Footer', 'Test Banner']);
+
+        expect(setActiveEnvironment('https://Contoso-Test.crm.dynamics.com/')).to.be.true;
+        expect(templateNames()).to.deep.equal(['Header', 'Test Banner']);
+        expect(readRecords('adx_webtemplate')[0].Environment).to.equal('contoso-test.crm.dynamics.com');
+
+        setActiveEnvironment('https://fabrikam.crm.dynamics.com');
+        expect(templateNames()).to.have.members(['Header', 'Footer', 'Test Banner']);
+    });
+
+    it('tells which site and language a record belongs to', () => {
+        fs.writeFileSync(path.join(siteFolder, 'website.yml'), 'adx_name: Contoso Site\n');
+        const snippetFolder = path.join(siteFolder, 'content-snippets', 'footer');
+        fs.mkdirSync(snippetFolder, { recursive: true });
+        fs.writeFileSync(path.join(snippetFolder, 'Footer.de-DE.contentsnippet.yml'), 'adx_contentsnippetid: 00000000-0000-0000-0000-0000000000FF\nadx_name: Footer\n');
+
+        const [snippet] = readRecords('adx_contentsnippet');
+        expect(getManifestRecordDetail(snippet)).to.equal('de-DE · Contoso Site');
+        const [template] = readRecords('adx_webtemplate');
+        expect(getManifestRecordDetail(template)).to.equal('Contoso Site');
+    });
+
+    it('reads the languages of records again when their metadata files change', () => {
+        const snippetFolder = path.join(siteFolder, 'content-snippets', 'footer');
+        fs.mkdirSync(snippetFolder, { recursive: true });
+        fs.writeFileSync(path.join(snippetFolder, 'Footer.de-DE.contentsnippet.yml'), 'adx_contentsnippetid: 00000000-0000-0000-0000-0000000000ff\n');
+        const snippetLanguage = () => readRecords('adx_contentsnippet')[0].Language;
+        expect(snippetLanguage()).to.equal('de-DE');
+
+        const snippetFile = path.join(snippetFolder, 'Footer.fr-FR.contentsnippet.yml');
+        fs.renameSync(path.join(snippetFolder, 'Footer.de-DE.contentsnippet.yml'), snippetFile);
+        onWatchedFileChanged(pathToFileURL(path.join(snippetFolder, 'Footer.de-DE.contentsnippet.value.html')).href);
+        expect(snippetLanguage()).to.equal('de-DE');
+
+        onWatchedFileChanged(pathToFileURL(snippetFile).href);
+        expect(snippetLanguage()).to.equal('fr-FR');
+        fs.rmSync(snippetFolder, { recursive: true });
+        onWatchedFileChanged(pathToFileURL(snippetFolder).href);
+        expect(snippetLanguage()).to.be.undefined;
+    });
+
+    it('forgets the records of a site once it was removed from the workspace', () => {
+        expect(readRecords('adx_webtemplate')).to.have.length(2);
+        setSiteManifest(portalConfigFolder, null);
+        expect(getMatchedManifestRecords(workspaceRootFolders, 'adx_webtemplate', webPageUri)).to.deep.equal([]);
+    });
+
+    it('finds the sites downloaded into the workspace', () => {
+        fs.mkdirSync(path.join(siteFolder, 'archive', 'old-site', '.portalconfig'), { recursive: true });
+        fs.mkdirSync(path.join(siteFolder, 'node_modules', 'package', '.portalconfig'), { recursive: true });
+        expect(findSiteFolders(workspaceRootFolders)).to.deep.equal([siteFolder, path.join(siteFolder, 'archive', 'old-site')]);
+        expect(findSiteFolders(null)).to.deep.equal([]);
+    });
+});
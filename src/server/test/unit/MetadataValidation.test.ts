@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { expect } from "chai";
+import Sinon from "sinon";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { getMetadataCompletions, getMetadataDiagnostics } from "../../lib/MetadataValidation";
+import * as ManifestReader from "../../lib/PortalManifestReader";
+
+let getMatchedManifestRecords: any;
+
+const PAGE_TEMPLATE_ID = '5d0b0d6a-0000-0000-0000-000000000001';
+const WEB_PAGE_ID = '5d0b0d6a-0000-0000-0000-000000000002';
+
+const createDocument = (content: string, fileName = 'Home.en-US.webpage.yml') =>
+    TextDocument.create(`file:///site/web-pages/home/content-pages/${fileName}`, 'yaml', 1, content);
+
+const diagnose = (content: string, fileName?: string) => {
+    const document = createDocument(content, fileName);
+    return getMetadataDiagnostics(document, []).map(diagnostic => ({
+        message: diagnostic.message,
+        severity: diagnostic.severity,
+        text: document.getText(diagnostic.range)
+    }));
+}
+
+const validWebPage = `adx_webpageid: ${WEB_PAGE_ID}
+adx_name: Home
+adx_partialurl: /
+adx_pagetemplateid: ${PAGE_TEMPLATE_ID}
+`;
+
+// As written by `pac paportal download`, with every column of the record
+const downloadedBasicForm = `adx_attachfile: false
+adx_attachfileaccept: image/*
+adx_attachfileallowmultiple: false
+adx_attachfilelabel: Attach a file
+adx_attachfilerequired: false
+adx_attachfilesaveoption: 756150000
+adx_autogeneratestepsfromtabs: false
+adx_captcharequired: false
+adx_createbuttonlabel:
+adx_entityformid: 3c1f2b7e-0000-0000-0000-000000000010
+adx_entityname: contact
+adx_entitypermissionsenabled: true
+adx_entitysourcetype: 756150001
+adx_formname: Profile Web Form
+adx_hideformonsuccess: false
+adx_instructions:
+adx_mode: 100000001
+adx_name: Profile
+adx_onsuccess: 756150000
+adx_renderwebresourcesinline: false
+adx_setentityreference: false
+adx_showcaptchaforauthenticatedusers: false
+adx_showownerfields: false
+adx_showunsupportedfields: false
+adx_submitbuttonbusytext: Processing...
+adx_submitbuttonlabel: Update
+adx_successmessage: <p>Your profile has been updated.</p>
+adx_tooltipenabled: false
+adx_validationgroup: Profile
+adx_validationsummarylinksenabled: true
+`;
+
+describe('MetadataValidation', () => {
+
+    beforeEach(() => {
+        getMatchedManifestRecords = Sinon.stub(ManifestReader, "getMatchedManifestRecords");
+        getMatchedManifestRecords.withArgs(Sinon.match.any, 'adx_pagetemplate').returns([{ DisplayName: "Full Page", RecordId: PAGE_TEMPLATE_ID }]);
+        getMatchedManifestRecords.returns([]);
+    });
+
+    afterEach(() => {
+        getMatchedManifestRecords.restore();
+    });
+
+    it('reports nothing for a valid record file', () => {
+        expect(diagnose(validWebPage + 'adx_hiddenfromsitemap: false\nadx_displayorder: 3\nadx_feedbackpolicy: 756150000\n')).to.deep.equal([]);
+    });
+
+    it('ignores files without a schema', () => {
+        expect(diagnose('anything: [1, 2', 'website.yml')).to.deep.equal([]);
+    });
+
+    it('reports values of the wrong type and unknown option-set values', () => {
+        const diagnostics = diagnose(validWebPage + 'adx_hiddenfromsitemap: maybe\nadx_displayorder: first\nadx_feedbackpolicy: 42\n');
+        expect(diagnostics.map(d => d.text)).to.deep.equal(['maybe', 'first', '42']);
+        expect(diagnostics.every(d => d.severity === DiagnosticSeverity.Error)).to.be.true;
+        expect(diagnostics[2].message).to.contain('756150003 (Moderated)');
+    });
+
+    it('hints at unknown adx_ attributes but not at other keys', () => {
+        const diagnostics = diagnose(validWebPage + 'adx_colour: red\ncr123_custom: value\n');
+        expect(diagnostics.map(d => [d.text, d.severity])).to.deep.equal([['adx_colour', DiagnosticSeverity.Hint]]);
+    });
+
+    it('reports no problems for a basic form downloaded by pac', () => {
+        const diagnostics = diagnose(downloadedBasicForm, 'Profile.basicform.yml');
+        expect(diagnostics.filter(d => d.severity !== DiagnosticSeverity.Hint)).to.deep.equal([]);
+        expect(diagnostics.map(d => d.text)).to.include('adx_attachfilesaveoption');
+    });
+
+    it('reports missing required attributes', () => {
+        const diagnostics = diagnose(`adx_webpageid: ${WEB_PAGE_ID}\nadx_name: Home\n`);
+        expect(diagnostics.map(d => d.message)).to.deep.equal([
+            "Required attribute 'adx_partialurl' is missing.",
+            "Required attribute 'adx_pagetemplateid' is missing."
+        ]);
+    });
+
+    it('reports lookups that do not resolve to a record in the manifest', () => {
+        const diagnostics = diagnose(validWebPage.replace(PAGE_TEMPLATE_ID, '5d0b0d6a-0000-0000-0000-0000000000ff') + 'adx_parentpageid: not-a-guid\n');
+        expect(diagnostics.map(d => d.text)).to.deep.equal(['5d0b0d6a-0000-0000-0000-0000000000ff', 'not-a-guid']);
+        expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Warning);
+        expect(diagnostics[1].severity).to.equal(DiagnosticSeverity.Error);
+    });
+
+    it('reports YAML syntax errors', () => {
+        const diagnostics = diagnose('adx_name: [Home\n');
+        expect(diagnostics).to.not.be.empty;
+        expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Error);
+    });
+
+    it('completes attribute names that are not there yet', () => {
+        const document = createDocument(validWebPage + 'adx_');
+        const labels = getMetadataCompletions(document, { line: 4, character: 4 }, [])?.map(item => item.label);
+        expect(labels).to.include('adx_hiddenfromsitemap');
+        expect(labels).to.not.include('adx_name');
+    });
+
+    it('completes option-set, boolean and lookup values', () => {
+        const optionSet = createDocument('adx_type: ', 'Full-Page.pagetemplate.yml');
+        expect(getMetadataCompletions(optionSet, { line: 0, character: 10 }, [])?.map(item => item.insertText))
+            .to.deep.equal(['756150000', '756150001']);
+
+        const lookup = createDocument('adx_pagetemplateid: ');
+        expect(getMetadataCompletions(lookup, { line: 0, character: 20 }, [])?.map(item => item.label))
+            .to.deep.equal([`Full Page (${PAGE_TEMPLATE_ID})`]);
+
+        const boolean = createDocument('adx_isroot: ');
+        expect(getMetadataCompletions(boolean, { line: 0, character: 12 }, [])?.map(item => item.label)).to.deep.equal(['true', 'false']);
+    });
+
+    it('leaves completion of files without a schema to the manifest lookup', () => {
+        expect(getMetadataCompletions(createDocument('adx_websiteid: ', 'website.yml'), { line: 0, character: 15 }, [])).to.be.undefined;
+        expect(getMetadataCompletions(createDocument('adx_masterwebpageid: '), { line: 0, character: 21 }, [])).to.be.undefined;
+        expect(getMetadataCompletions(createDocument('adx_name: '), { line: 0, character: 10 }, [])).to.deep.equal([]);
+    });
+});
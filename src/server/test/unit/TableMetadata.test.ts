@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { WorkspaceFolder } from "vscode-languageserver/node";
+import { getSiteTables, onTableMetadataFileChanged } from "../../lib/TableMetadata";
+
+describe('TableMetadata', () => {
+    let siteFolder: string;
+    let workspaceRootFolders: WorkspaceFolder[];
+    let webPageUri: string;
+
+    const writeSiteFile = (relativePath: string, content: string) => {
+        const file = path.join(siteFolder, relativePath);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content);
+        return file;
+    };
+
+    beforeEach(() => {
+        siteFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'table-metadata-')));
+        writeSiteFile('.portalconfig/contoso-manifest.yml', 'adx_webtemplate: []\n');
+        writeSiteFile('table-permissions/Contacts.tablepermission.yml', 'adx_entityname: Contacts\nadx_entitylogicalname: contact\n');
+        writeSiteFile('lists/Cases.list.yml', 'adx_name: Cases\nadx_entityname: incident\n');
+        fs.mkdirSync(path.join(siteFolder, 'web-pages'));
+        workspaceRootFolders = [{ uri: pathToFileURL(siteFolder).href, name: 'site' }];
+        webPageUri = pathToFileURL(path.join(siteFolder, 'web-pages', 'Home.webpage.copy.html')).href;
+    });
+
+    afterEach(() => {
+        onTableMetadataFileChanged(pathToFileURL(path.join(siteFolder, 'sitesetting.yml')).href);
+        fs.rmSync(siteFolder, { recursive: true, force: true });
+    });
+
+    it('reads the tables named by table permissions and lists', () => {
+        expect(Array.from(getSiteTables(workspaceRootFolders, webPageUri).entries())).to.deep.equal([['contact', []], ['incident', []]]);
+    });
+
+    it('reads the columns of tables from the fields of basic forms and the Web API settings', () => {
+        writeSiteFile('basic-forms/contact-us/Contact-Us.basicform.yml',
+            'adx_name: Contact Us\nadx_entityformid: 7a3c5d11-0000-0000-0000-000000000001\nadx_entityname: contact\n');
+        writeSiteFile('basic-forms/contact-us/basic-form-metadata/LastName.basicformmetadata.yml',
+            'adx_entityform: 7A3C5D11-0000-0000-0000-000000000001\nadx_attributelogicalname: LastName\n');
+        writeSiteFile('sitesetting.yml', [
+            '- adx_name: Webapi/contact/fields',
+            '  adx_value: firstname, emailaddress1',
+            '- adx_name: Webapi/account/fields',
+            '  adx_value: "*"',
+            '- adx_name: Webapi/contact/enabled',
+            '  adx_value: true'
+        ].join('\n'));
+        const tables = getSiteTables(workspaceRootFolders, webPageUri);
+        expect(Array.from(tables.keys())).to.deep.equal(['account', 'contact', 'incident']);
+        expect(tables.get('contact')).to.deep.equal(['emailaddress1', 'firstname', 'lastname']);
+        expect(tables.get('account')).to.deep.equal([]);
+    });
+
+    it('keeps the tables until one of their files changes on disk', () => {
+        getSiteTables(workspaceRootFolders, webPageUri);
+        const listFile = writeSiteFile('lists/Accounts.list.yml', 'adx_name: Accounts\nadx_entityname: account\n');
+        expect(getSiteTables(workspaceRootFolders, webPageUri).has('account')).to.equal(false);
+
+        onTableMetadataFileChanged(webPageUri);
+        expect(getSiteTables(workspaceRootFolders, webPageUri).has('account')).to.equal(false);
+
+        onTableMetadataFileChanged(pathToFileURL(listFile).href);
+        expect(getSiteTables(workspaceRootFolders, webPageUri).has('account')).to.equal(true);
+    });
+
+    it('returns no tables for files outside of a site', () => {
+        const otherFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'table-metadata-other-')));
+        try {
+            const otherWorkspace = [{ uri: pathToFileURL(otherFolder).href, name: 'other' }];
+            expect(getSiteTables(otherWorkspace, pathToFileURL(path.join(otherFolder, 'index.html')).href).size).to.equal(0);
+        } finally {
+            fs.rmSync(otherFolder, { recursive: true, force: true });
+        }
+    });
+});